@@ -1,5 +1,86 @@
+import { Scope } from "@lang/scope.ts"
 import { ScrapEntity, ScrapValue } from "@lang/elements/commons.ts"
 
+type Scalar = string | number | boolean | bigint | null | undefined
+
+function isScalar(value: unknown): value is Scalar {
+    return value === null || (typeof value !== "object" && typeof value !== "function")
+}
+
+/**
+ * Tokens are kept by some nodes to locate errors, but they are not part of the tree
+ */
+function isToken(value: unknown): boolean {
+    return typeof value === "object" && value !== null && "type" in value && "content" in value && "line" in value && "pos" in value
+}
+
+function describeScalar(value: Scalar): string {
+    return typeof value === "string" ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Gets the fields of a node which are shown in the tree. Scopes are omitted, since they only contain the declared entities again,
+ * and so are the actions of native functions
+ */
+function getDescribedFields(node: object): [string, unknown][] {
+    const fields = node instanceof Map ? [...node.entries()] : Object.entries(node)
+
+    return fields.filter(([key, value]) =>
+        key !== "name" && value !== null && value !== undefined && typeof value !== "function" && !(value instanceof Scope) && !isToken(value)
+    )
+}
+
+/**
+ * Describes a node and its children as indented lines
+ * @param described Named nodes which were already described. A named node referenced again, e.g: a called function, is only shown by its name
+ */
+function describeNode(node: unknown, described: Set<object>): string[] {
+    if (isScalar(node) || typeof node === "function")
+        return [describeScalar(isScalar(node) ? node : "function")]
+
+    if (Array.isArray(node)) {
+        if (node.length === 0)
+            return ["[]"]
+
+        return node.flatMap(item => {
+            const [first, ...rest] = describeNode(item, described)
+            return [`- ${first}`, ...rest.map(line => `  ${line}`)]
+        })
+    }
+
+    const element = node as object
+    const name = (element as { name?: unknown }).name
+    const kind = element.constructor === Object ? "" : element.constructor.name // plain objects are only described by their fields
+    const header = typeof name === "string" ? `${kind} ${name}`.trim() : kind
+
+    if (typeof name === "string") {
+        if (described.has(element))
+            return [header]
+
+        described.add(element)
+    }
+
+    const fields = getDescribedFields(element)
+
+    // nodes which only contain scalars fit in one line, e.g: `ScrapInteger (value: 10)`
+    if (fields.every(([_, value]) => isScalar(value))) {
+        const scalars = fields.map(([key, value]) => `${key}: ${describeScalar(value as Scalar)}`).join(", ")
+        if (fields.length === 0 || header === "")
+            return [header === "" ? scalars : header]
+
+        return [`${header} (${scalars})`]
+    }
+
+    const fieldLines = fields.flatMap(([key, value]) => {
+        const [first, ...rest] = describeNode(value, described)
+        const isList = Array.isArray(value) && value.length > 0
+
+        return isList ? [`${key}:`, ...[first, ...rest].map(line => `  ${line}`)] : [`${key}: ${first}`, ...rest]
+    })
+
+    return header === "" ? fieldLines : [header, ...fieldLines.map(line => `  ${line}`)]
+}
+
 export class ASTNode {
     private nodeValue: ScrapValue | ScrapEntity
     
@@ -23,4 +104,13 @@ export class AST {
     }
 
     public get getProgram() { return this.program }
+
+    /**
+     * Describes the program as an indented tree, e.g: to be printed by `scrap ast`
+     */
+    public toTree(): string {
+        const described = new Set<object>()
+
+        return this.program.map(node => describeNode(node.getNodeValue, described).join("\n")).join("\n\n")
+    }
 }
\ No newline at end of file
@@ -0,0 +1,443 @@
+/**
+ * Command line interface of ScrapLang
+ *
+ * @example
+ * scrap run --allow-read=./data main.scrap first second
+ * scrap repl --allow-net
+ * scrap check main.scrap
+ * scrap tokens main.scrap
+ * scrap ast main.scrap
+ * scrap fmt --check src
+ * scrap test
+ * scrap install
+ * scrap add math@^1.2.0 git+../colors#v2.0.0
+ * scrap remove math
+ *
+ * The output of the program goes to stdout, while the warnings and errors go to stderr
+ */
+
+import Lexer from "@lexer/lexer.ts"
+import LexingError from "@lexer/lexer-error.ts"
+import Parser from "@parser/parser.ts"
+import ParsingError from "@parser/parser-error.ts"
+import { Interpreter } from "./interpreter.ts"
+import { TypeChecker } from "./type-checker.ts"
+import { format } from "./formatter.ts"
+import { repl } from "./repl.ts"
+
+import { UndefinedReferenceError } from "@lang/scope.ts"
+import { CompilationError, UncaughtError } from "@lang/lang-errors.ts"
+import { DefinedFunction, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapCall } from "@lang/elements/values/call.ts"
+import { ScrapArray } from "@lang/elements/values/array.ts"
+import { ScrapInteger } from "@lang/elements/values/numerics.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { PermissionSet, parsePermissionFlags, setHostPermissions } from "@lang/api/permissions.ts"
+import { SCRAP_ASSERTION_ERROR_CLASS } from "@lang/api/native/testing.ts"
+
+import PackageError from "@package-manager/package-error.ts"
+import { ScrapLockfile, listPackageFiles } from "@package-manager/lockfile.ts"
+import { add, install, remove } from "@package-manager/installer.ts"
+
+const SCRAP_EXTENSION = ".scrap"
+const TEST_EXTENSION = ".test.scrap"
+const TEST_FUNCTION_PREFIX = "test"
+
+const MIN_EXIT_CODE = 0
+const MAX_EXIT_CODE = 255
+
+type Command = (args: string[]) => number | Promise<number>
+
+interface CommandInfo {
+  usage: string
+  description: string
+  execute: Command
+}
+
+/**
+ * Thrown when a command is not used properly, e.g: a missing file name
+ */
+class CommandError extends Error {
+  public constructor(message: string) {
+    super(message)
+    this.name = "CommandError"
+  }
+}
+
+function readSource(fileName: string): string {
+  try {
+    return Deno.readTextFileSync(fileName)
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound)
+      throw new CommandError(`Can not find the file '${fileName}'`)
+
+    throw error
+  }
+}
+
+function expectFileName(args: string[], example: string): string {
+  const [fileName] = args
+
+  if (!fileName)
+    throw new CommandError(`Expected a file, e.g: '${example}'`)
+
+  return fileName
+}
+
+function printWarnings(parser: Parser) {
+  parser.warnings.forEach(warning => console.warn("Warning: %s", warning))
+}
+
+function parseProgram(fileName: string): Parser {
+  return new Parser(new Lexer(readSource(fileName), fileName)).build()
+}
+
+/**
+ * Parses a program and checks its data types, so a program with wrong data types is not run
+ */
+function compileProgram(fileName: string): Parser {
+  const parser = parseProgram(fileName)
+  new TypeChecker(parser).check()
+
+  return parser
+}
+
+/**
+ * Splits the arguments of a command which runs programs. The permission flags must be placed before the file name,
+ * since the arguments placed after it belong to the program
+ */
+function splitProgramArgs(args: string[]): { permissions: PermissionSet, fileName?: string, programArgs: string[] } {
+  const fileIndex = args.findIndex(arg => !arg.startsWith("-"))
+  const flags = fileIndex === -1 ? args : args.slice(0, fileIndex)
+  const { permissions, rest: unknownFlags } = parsePermissionFlags(flags)
+
+  if (unknownFlags.length > 0)
+    throw new CommandError(`Unknown flag '${unknownFlags[0]}'`)
+
+  return { permissions, fileName: args[fileIndex], programArgs: fileIndex === -1 ? [] : args.slice(fileIndex + 1) }
+}
+
+function existsPath(path: string): boolean {
+  try {
+    Deno.statSync(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Finds the `.scrap` files placed in the paths, which can be files or directories. Installed packages are not included
+ * @param extension Extension of the wanted files, e.g: `.test.scrap`
+ */
+function findSourceFiles(paths: string[], extension = SCRAP_EXTENSION): string[] {
+  return paths.flatMap(path => {
+    if (!existsPath(path))
+      throw new CommandError(`Can not find the path '${path}'`)
+
+    if (Deno.statSync(path).isFile)
+      return [path]
+
+    return listPackageFiles(path)
+      .filter(file => file.endsWith(extension))
+      .map(file => `${path.replace(/\/$/, "")}${file}`)
+  })
+}
+
+/**
+ * Gets the exit code of a program from the value returned by `main`. An integer must be a valid exit code, between 0 and 255,
+ * while other values mean that the program succeeded
+ */
+function toExitCode(exitValue: ScrapValue): number {
+  if (!(exitValue instanceof ScrapInteger))
+    return 0
+
+  const exitCode = exitValue.getValue
+
+  if (exitCode < MIN_EXIT_CODE || exitCode > MAX_EXIT_CODE)
+    throw new CommandError(`The main function returned ${exitCode}, but the exit code must be between ${MIN_EXIT_CODE} and ${MAX_EXIT_CODE}`)
+
+  return exitCode
+}
+
+/**
+ * Runs a program, calling its `main` function. The arguments placed after the file name are received by `main` as an array of strings
+ *
+ * @example
+ * fn main(args: Array) {
+ *   console.log(args) // `scrap run main.scrap first second` prints [first, second]
+ * }
+ *
+ * @returns The integer returned by `main`, 0 if it returns other value
+ */
+function runCommand(args: string[]): number {
+  const { permissions, fileName, programArgs } = splitProgramArgs(args)
+
+  if (!fileName)
+    throw new CommandError("Expected the file to run, e.g: 'scrap run main.scrap'")
+
+  setHostPermissions(permissions)
+
+  const parser = compileProgram(fileName)
+  printWarnings(parser)
+
+  const interpreter = new Interpreter(parser)
+  interpreter.run()
+
+  const mainFunction = parser.mainModule.getScope.getScopedEntities.get("main")
+
+  if (!(mainFunction instanceof DefinedFunction))
+    throw new CommandError(`Missing program entrypoint (main function) in '${fileName}'`)
+
+  if (mainFunction.getParams.length > 1)
+    throw new CommandError("The main function can only receive one parameter, the arguments of the program")
+
+  const mainArgs: ScrapValue[] = mainFunction.getParams.length === 1 ? [new ScrapArray(programArgs.map(arg => new ScrapString(arg)))] : []
+  const exitValue = interpreter.execScrapFunction(mainFunction, new ScrapCall(parser.mainModule.name, mainFunction, mainArgs))
+
+  return toExitCode(exitValue)
+}
+
+function replCommand(args: string[]): number {
+  repl(splitProgramArgs(args).permissions)
+  return 0
+}
+
+/**
+ * Parses the files and checks their data types without running them, showing their errors and warnings.
+ * Every file is checked even if a previous file has errors
+ */
+function checkCommand(args: string[]): number {
+  expectFileName(args, "scrap check main.scrap")
+  let failedCount = 0
+
+  for (const fileName of args) {
+    try {
+      printWarnings(compileProgram(fileName))
+    } catch (error) {
+      if (!isProgramError(error))
+        throw error
+
+      console.error(formatError(error))
+      failedCount++
+    }
+  }
+
+  return failedCount === 0 ? 0 : 1
+}
+
+function tokensCommand(args: string[]): number {
+  const fileName = expectFileName(args, "scrap tokens main.scrap")
+
+  for (const token of new Lexer(readSource(fileName), fileName).tokens())
+    console.log(`${`${token.line}:${token.pos}`.padEnd(10)}${token.type.padEnd(18)}${JSON.stringify(token.content)}`)
+
+  return 0
+}
+
+function astCommand(args: string[]): number {
+  const parser = parseProgram(expectFileName(args, "scrap ast main.scrap"))
+
+  printWarnings(parser)
+  console.log(parser.ast.toTree())
+
+  return 0
+}
+
+/**
+ * Fixes the layout of the files placed in the paths, the current directory by default: the indentation, the trailing spaces and the blank lines.
+ * The code placed inside each line is not changed. Using `--check`, the files are not changed, but the command fails if some of them are not formatted
+ */
+function fmtCommand(args: string[]): number {
+  const isCheck = args.includes("--check")
+  const paths = args.filter(arg => arg !== "--check")
+  let unformattedCount = 0
+
+  for (const fileName of findSourceFiles(paths.length > 0 ? paths : ["."])) {
+    const source = readSource(fileName)
+    const formatted = format(source)
+
+    if (formatted === source)
+      continue
+
+    unformattedCount++
+
+    if (isCheck)
+      console.error(`Not formatted: ${fileName}`)
+    else {
+      Deno.writeTextFileSync(fileName, formatted)
+      console.log(`Formatted ${fileName}`)
+    }
+  }
+
+  return isCheck && unformattedCount > 0 ? 1 : 0
+}
+
+function isAssertionFailure(error: UncaughtError): boolean {
+  const thrownClass = error.getThrownClass
+  return thrownClass === SCRAP_ASSERTION_ERROR_CLASS || thrownClass.inheritsFrom(SCRAP_ASSERTION_ERROR_CLASS)
+}
+
+/**
+ * Runs the tests of the `.test.scrap` files placed in the paths, the current directory by default.
+ * A test is a function declared at the root of the file whose name starts with `test`, and it fails if it throws an error
+ *
+ * @example
+ * import { assert } from "scrap:testing"
+ *
+ * fn testSum() {
+ *   assert(1 + 1 == 2, "1 + 1 must be 2")
+ * }
+ */
+function testCommand(args: string[]): number {
+  const { permissions, fileName: firstPath, programArgs: otherPaths } = splitProgramArgs(args)
+  const paths = firstPath ? [firstPath, ...otherPaths] : ["."]
+  const testFiles = findSourceFiles(paths, TEST_EXTENSION)
+  let passedCount = 0, failedCount = 0
+
+  if (testFiles.length === 0)
+    throw new CommandError(`There are no test files (*${TEST_EXTENSION}) in ${paths.join(", ")}`)
+
+  setHostPermissions(permissions)
+
+  for (const testFile of testFiles) {
+    console.log(`running ${testFile}`)
+
+    let parser: Parser
+    let interpreter: Interpreter
+
+    try {
+      parser = compileProgram(testFile)
+      printWarnings(parser)
+
+      interpreter = new Interpreter(parser)
+      interpreter.run()
+    } catch (error) {
+      if (!isProgramError(error))
+        throw error
+
+      console.error(formatError(error))
+      failedCount++
+      continue
+    }
+
+    const tests = parser.ast.getProgram
+      .map(node => node.getNodeValue)
+      .filter(node => node instanceof DefinedFunction && node.name.startsWith(TEST_FUNCTION_PREFIX)) as DefinedFunction[]
+
+    for (const test of tests) {
+      try {
+        interpreter.execScrapFunction(test, new ScrapCall(parser.mainModule.name, test, []))
+        console.log(`  ${test.name} ... ok`)
+        passedCount++
+      } catch (error) {
+        if (!(error instanceof UncaughtError))
+          throw error
+
+        // a false assertion fails the test, while any other error means that the test could not finish
+        console.log(`  ${test.name} ... ${isAssertionFailure(error) ? "FAILED" : "ERROR"}`)
+        console.error(error.stack)
+        failedCount++
+      }
+    }
+  }
+
+  console.log(`\n${failedCount === 0 ? "ok" : "FAILED"} | ${passedCount} passed | ${failedCount} failed`)
+  return failedCount === 0 ? 0 : 1
+}
+
+function printInstalled(lockfile: ScrapLockfile) {
+  const installed = Object.entries(lockfile.packages)
+
+  if (installed.length === 0)
+    console.log("No dependencies installed")
+
+  for (const [name, { version }] of installed)
+    console.log(`+ ${name}@${version}`)
+}
+
+/**
+ * Creates a command of the package manager, which works over the project placed in the current directory
+ */
+function createPackageCommand(packageCommand: (projectDirectory: string, args: string[]) => Promise<ScrapLockfile>): Command {
+  return async (args) => {
+    printInstalled(await packageCommand(Deno.cwd(), args))
+    return 0
+  }
+}
+
+const COMMANDS: Record<string, CommandInfo> = {
+  run: { usage: "run [permissions] <file> [args...]", description: "Runs a program, calling its main function", execute: runCommand },
+  repl: { usage: "repl [permissions]", description: "Starts an interactive session", execute: replCommand },
+  check: { usage: "check <files...>", description: "Checks the syntax and the data types of the files without running them", execute: checkCommand },
+  tokens: { usage: "tokens <file>", description: "Prints the tokens of a file", execute: tokensCommand },
+  ast: { usage: "ast <file>", description: "Prints the syntax tree of a file", execute: astCommand },
+  fmt: { usage: "fmt [--check] [paths...]", description: "Fixes the indentation, trailing spaces and blank lines of the source files", execute: fmtCommand },
+  test: { usage: "test [permissions] [paths...]", description: `Runs the tests of the *${TEST_EXTENSION} files`, execute: testCommand },
+  install: { usage: "install", description: "Installs the dependencies of scrap.json", execute: createPackageCommand((projectDirectory) => install(projectDirectory)) },
+  add: { usage: "add <packages...>", description: "Adds dependencies to scrap.json", execute: createPackageCommand(add) },
+  remove: { usage: "remove <packages...>", description: "Removes dependencies from scrap.json", execute: createPackageCommand(remove) }
+}
+
+function formatUsage(): string {
+  const usages = Object.values(COMMANDS).map(({ usage, description }) => `  scrap ${usage.padEnd(36)}${description}`)
+
+  return [
+    "Usage: scrap <command> [args]",
+    "",
+    "Commands:",
+    ...usages,
+    "",
+    "Permissions: --allow-read, --allow-write, --allow-net, --allow-env, --allow-run (e.g: --allow-read=./data), --allow-all or -A"
+  ].join("\n")
+}
+
+/**
+ * Errors caused by the program or by the usage of the command, which are shown without the stack of the interpreter
+ */
+function isProgramError(error: unknown): error is Error {
+  return error instanceof LexingError || error instanceof ParsingError || error instanceof UndefinedReferenceError ||
+    error instanceof CompilationError || error instanceof UncaughtError || error instanceof PackageError || error instanceof CommandError
+}
+
+function formatError(error: Error): string {
+  if (error instanceof UncaughtError)
+    return `error: Uncaught ${error.stack}`
+
+  // the messages of the parsing errors are indented to be placed in a stack
+  const lines = error.message.split("\n").map(line => line.trim()).filter(line => line !== "")
+
+  return `error: ${lines.join("\n")}`
+}
+
+/**
+ * Runs a command
+ * @param args Arguments of the command line, starting by the name of the command
+ * @returns The exit code, 0 if the command succeeds
+ */
+export async function main(args: string[]): Promise<number> {
+  const [commandName, ...commandArgs] = args
+
+  if (commandName === undefined || commandName === "help" || commandName === "--help") {
+    console.log(formatUsage())
+    return 0
+  }
+
+  const command = COMMANDS[commandName]
+
+  if (!command) {
+    console.error(`error: Unknown command '${commandName}'\n\n${formatUsage()}`)
+    return 1
+  }
+
+  try {
+    return await command.execute(commandArgs)
+  } catch (error) {
+    // an error which is not caused by the program is a bug of the interpreter, but it is also shown without crashing
+    console.error(isProgramError(error) ? formatError(error) : `error: ${error instanceof Error ? error.message : String(error)}`)
+    return 1
+  }
+}
+
+if (import.meta.main)
+  Deno.exit(await main(Deno.args))
\ No newline at end of file
@@ -0,0 +1,189 @@
+/**
+ * Formatter of ScrapLang source files, used by `scrap fmt`
+ *
+ * The formatter works over the text of the file instead of the AST, so the comments and the blank lines which separate
+ * the declarations are kept. It only fixes the layout of the code:
+ * - Each line is indented by 2 spaces for each bracket opened in previous lines and not closed yet
+ * - The body of a control statement without braces and the statements of a `case` clause are indented one more level
+ * - Trailing spaces are removed
+ * - Consecutive blank lines are collapsed into one, and the blank lines at the start and the end of the file are removed
+ *
+ * The text placed inside strings, regular expressions and block comments is never changed
+ */
+
+import type { Nullable } from "@typings"
+
+const INDENTATION = "  "
+const OPENING_BRACKETS = ["{", "(", "["]
+const CLOSING_BRACKETS = ["}", ")", "]"]
+const STRING_QUOTES = ["\"", "'", "`"]
+
+const CONTROL_STATEMENT = /^(\}\s*)?(if|elif|else|while|for|do)\b/
+const CASE_CLAUSE = /^(case|default)\b/
+const REGEX_PRECEDING_TEXT = /(^|[(\[{,;:=!&|?+\-*%<>]|\b(return|throw|case|if|elif|while|match|switch|in|of|and|or|not))$/
+
+/**
+ * Where the scanner is placed at the end of a line. Strings and block comments can continue in the next line
+ */
+interface ScanState {
+  openedBrackets: number[]
+  openString: Nullable<string>
+  blockCommentDepth: number // block comments can be nested
+
+  /**
+   * Number of opened brackets of the blocks where a `case` clause was found, whose statements are indented one more level
+   */
+  caseBlocks: number[]
+}
+
+function countLeadingClosers(line: string): number {
+  let count = 0
+
+  while (count < line.length && CLOSING_BRACKETS.includes(line[count]))
+    count++
+
+  return count
+}
+
+/**
+ * Skips a regular expression literal, whose brackets and quotes are part of the pattern, e.g: `/[{"]/`
+ * @param start Position of the '/' which opens the literal
+ * @returns Position of the '/' which closes the literal, or the end of the line if it is not closed
+ */
+function skipRegexLiteral(line: string, start: number): number {
+  let isInsideClass = false
+
+  for (let i = start + 1; i < line.length; i++) {
+    switch (line[i]) {
+      case "\\": i++; break
+      case "[": isInsideClass = true; break
+      case "]": isInsideClass = false; break
+      case "/": if (!isInsideClass) return i
+    }
+  }
+
+  return line.length
+}
+
+/**
+ * Scans a line, updating the opened brackets, strings and block comments
+ * @param lineIndex Line which is scanned, the opened brackets are identified by the line where they were opened
+ */
+function scanLine(state: ScanState, line: string, lineIndex: number) {
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (state.blockCommentDepth > 0) {
+      if (char === "/" && line[i + 1] === "*") {
+        state.blockCommentDepth++
+        i++
+      } else if (char === "*" && line[i + 1] === "/") {
+        state.blockCommentDepth--
+        i++
+      }
+    } else if (state.openString !== null) {
+      if (char === "\\")
+        i++ // the escaped char can not close the string
+      else if (char === state.openString)
+        state.openString = null
+    } else if (char === "/" && line[i + 1] === "/") {
+      return // the rest of the line is a comment
+    } else if (char === "/" && line[i + 1] === "*") {
+      state.blockCommentDepth = 1
+      i++
+    } else if (char === "/" && REGEX_PRECEDING_TEXT.test(line.substring(0, i).trimEnd())) {
+      i = skipRegexLiteral(line, i)
+    } else if (STRING_QUOTES.includes(char)) {
+      state.openString = char
+    } else if (OPENING_BRACKETS.includes(char)) {
+      state.openedBrackets.push(lineIndex)
+    } else if (CLOSING_BRACKETS.includes(char)) {
+      state.openedBrackets.pop()
+    }
+  }
+}
+
+/**
+ * Several brackets opened in the same line only add one level of indentation, e.g: `list.forEach((item) -> {`
+ */
+function getIndentationLevel(openedBrackets: number[]): number {
+  return new Set(openedBrackets).size
+}
+
+function getIndentationWidth(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+/**
+ * Checks if a line is a control statement whose body is the next line, e.g: `if done` followed by `break`.
+ * Since the end of the condition can not be known without parsing it, the body is recognized because it was indented by the author
+ * @param nextLine Next line which is not blank, if any
+ */
+function isBracelessControlStatement(state: ScanState, line: string, lineIndex: number, nextLine?: string): boolean {
+  const opensBlock = state.openedBrackets.at(-1) === lineIndex
+
+  return CONTROL_STATEMENT.test(line.trim()) && !opensBlock && nextLine !== undefined && getIndentationWidth(nextLine) > getIndentationWidth(line)
+}
+
+/**
+ * Formats the source of a ScrapLang file
+ * @returns The formatted source, which is the same source if it was already formatted
+ */
+export function format(source: string): string {
+  const state: ScanState = { openedBrackets: [], openString: null, blockCommentDepth: 0, caseBlocks: [] }
+  const lines = source.split(/\r?\n/)
+  const formattedLines: string[] = []
+  let isPreviousLineBlank = true // avoids blank lines at the start of the file
+  let bodyLevels = 0 // extra levels of the bodies of control statements without braces
+
+  lines.forEach((line, lineIndex) => {
+    // the lines which continue a string are kept as they are, since the spaces are part of the string
+    if (state.openString !== null) {
+      formattedLines.push(line)
+      scanLine(state, line, lineIndex)
+      isPreviousLineBlank = false
+      return
+    }
+
+    if (state.blockCommentDepth > 0) {
+      formattedLines.push(line.trimEnd())
+      scanLine(state, line, lineIndex)
+      isPreviousLineBlank = false
+      return
+    }
+
+    const trimmedLine = line.trim()
+
+    if (trimmedLine === "") {
+      if (!isPreviousLineBlank)
+        formattedLines.push("")
+
+      isPreviousLineBlank = true
+      return
+    }
+
+    const enclosingBrackets = state.openedBrackets.slice(0, Math.max(state.openedBrackets.length - countLeadingClosers(trimmedLine), 0))
+    let level = getIndentationLevel(enclosingBrackets) + bodyLevels
+
+    if (CASE_CLAUSE.test(trimmedLine)) {
+      if (!state.caseBlocks.includes(enclosingBrackets.length))
+        state.caseBlocks.push(enclosingBrackets.length)
+    } else if (state.caseBlocks.includes(enclosingBrackets.length))
+      level++
+
+    scanLine(state, trimmedLine, lineIndex)
+    state.caseBlocks = state.caseBlocks.filter(openedCount => openedCount <= state.openedBrackets.length)
+
+    const nextLine = lines.slice(lineIndex + 1).find(otherLine => otherLine.trim() !== "")
+    bodyLevels = isBracelessControlStatement(state, line, lineIndex, nextLine) ? bodyLevels + 1 : 0
+
+    // the trailing spaces of a line which ends inside a string are part of the string
+    formattedLines.push(INDENTATION.repeat(level) + (state.openString !== null ? line.trimStart() : trimmedLine))
+    isPreviousLineBlank = false
+  })
+
+  if (formattedLines.at(-1) === "")
+    formattedLines.pop()
+
+  return formattedLines.join("\n")
+}
\ No newline at end of file
@@ -1,68 +1,684 @@
 import Parser from "@parser/parser.ts"
+import { Keywords, Token } from "@lexer/lexer.ts"
+import { SCRAP_ASSERTION_ERROR_CLASS } from "@lang/api/native/testing.ts"
+import stdModule, { SCRAP_PERMISSION_DENIED_CLASS, SCRAP_RANGE_ERROR_CLASS, SCRAP_RUNTIME_ERROR_CLASS, isErrorClass } from "@lang/api/native/std.ts"
 
-import { CompilationError } from "@lang/lang-errors.ts"
+import type { AllowedBlockEntities, Nullable } from "@typings"
+import { Environment, ScrapBoundReference, ScrapClosure } from "@lang/environment.ts"
+import { ScrapIf } from "@lang/elements/control/if.ts"
+import { ScrapRange } from "@lang/elements/values/range.ts"
+import { ScrapFor, ScrapForIn } from "@lang/elements/control/for.ts"
+import { ScrapDoWhile, ScrapWhile } from "@lang/elements/control/while.ts"
+import { ScrapBreak, ScrapJump, ScrapReturn, ScrapSkip, ScrapThrow } from "@lang/elements/control/jumps.ts"
+import { ScrapTry } from "@lang/elements/control/try.ts"
+import {
+  ScrapLiteralPattern, ScrapMatch, ScrapMatchArm, ScrapPattern,
+  ScrapRangePattern, ScrapVariantPattern, ScrapWildcardPattern
+} from "@lang/elements/control/match.ts"
 import { ScrapCall } from "@lang/elements/values/call.ts"
-import { ScrapUndefined } from "@lang/elements/values/absence.ts"
-import { DefinedModule } from "@lang/elements/entities/modules.ts"
-import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { ScrapLambda } from "@lang/elements/values/lambda.ts"
+import { ScrapInstance, ScrapNew, ScrapSuper } from "@lang/elements/values/instance.ts"
+import { MemberAssignment, ScrapMemberAccess } from "@lang/elements/values/member.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+import { ScrapEnumValue, ScrapVariantAccess } from "@lang/elements/values/enum.ts"
+import { UnaryExpression } from "@lang/elements/values/unary.ts"
+import { BinaryExpression } from "@lang/elements/values/binary.ts"
+import { ScrapChar, ScrapString, ScrapTemplate } from "@lang/elements/values/textuals.ts"
+import { ScrapRegExp } from "@lang/elements/values/regexp.ts"
+import { ScrapNull, ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { DefinedModule, ScrapImport, ScrapModule } from "@lang/elements/entities/modules.ts"
 import { ScrapReference } from "@lang/elements/values/reference.ts"
+import { AssertionError, CompilationError, PermissionDenied, RuntimeError, UncaughtError } from "@lang/lang-errors.ts"
+import { ScrapFloat, ScrapInteger } from "@lang/elements/values/numerics.ts"
 import { ScrapArray, ScrapArrayAccess } from "@lang/elements/values/array.ts"
+import { createScrapBoolean } from "@lang/elements/values/booleans.ts"
 import { ReassignmentExpression } from "@lang/elements/values/reassignment.ts"
-import { DefinedFunction, ScrapEntity, ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
+import { ScrapVariable, ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
+import { DefinedFunction, ScrapEntity, ScrapFunction, ScrapNative, ScrapObject, ScrapPrimitive, ScrapValue } from "@lang/elements/commons.ts"
+
+function isNumeric(value: ScrapValue): value is ScrapInteger | ScrapFloat {
+  return value instanceof ScrapInteger || value instanceof ScrapFloat
+}
+
+function isTextual(value: ScrapValue): value is ScrapString | ScrapChar {
+  return value instanceof ScrapString || value instanceof ScrapChar
+}
+
+function isAbsent(value: ScrapValue): value is ScrapNull | ScrapUndefined {
+  return value instanceof ScrapNull || value instanceof ScrapUndefined
+}
+
+/**
+ * Checks if a value is an object created using the literal form, e.g: `{ name: "Juan" }`
+ */
+function isPlainObject(value: ScrapValue): value is ScrapObject {
+  return value instanceof ScrapObject && !(value instanceof ScrapFunction) && !(value instanceof ScrapInstance)
+}
+
+/**
+ * Thrown when a `break` statement is reached, and catched by the nearest loop or `switch`
+ */
+class BreakSignal {}
+
+/**
+ * Thrown when a `skip` statement is reached, and catched by the nearest loop
+ */
+class SkipSignal {}
+
+/**
+ * Thrown when a `return` statement is reached, and catched by the function which is being executed
+ */
+class ReturnSignal {
+  private returnValue: ScrapValue
+
+  public constructor(returnValue: ScrapValue) {
+    this.returnValue = returnValue
+  }
+
+  public get getReturnValue() { return this.returnValue }
+}
+
+/**
+ * Thrown when a `throw` statement is reached or the interpreter raises an error, and catched by the nearest `try` which handles the error
+ */
+class ThrowSignal {
+  private thrown: ScrapInstance
+
+  public constructor(thrown: ScrapInstance) {
+    this.thrown = thrown
+  }
+
+  public get getThrown() { return this.thrown }
+}
+
+/**
+ * A function which is being executed. `callToken` is where the function was called, null if it was called from outside the program
+ */
+interface StackFrame {
+  functionName: string,
+  callToken: Nullable<Token>
+}
+
+function formatPosition(token: Nullable<Token>): string {
+  return token ? `${token.line}:${token.pos}` : "unknown position"
+}
+
+/**
+ * Replaces the consecutive repetitions of a line of a stack trace by a line which counts them, so a deep recursion
+ * does not create a huge trace
+ */
+function collapseRepeatedFrames(trace: string[]): string[] {
+  const collapsed: string[] = []
+
+  for (let i = 0; i < trace.length; i++) {
+    let repeated = 0
+
+    while (trace[i + 1] === trace[i]) {
+      repeated++
+      i++
+    }
+
+    collapsed.push(trace[i])
+
+    if (repeated > 0)
+      collapsed.push(`    ... the previous line is repeated ${repeated} more times`)
+  }
+
+  return collapsed
+}
+
+/**
+ * Gets the ScrapLang class of the errors raised by the interpreter and the native functions
+ */
+function getScrapErrorClass(error: RuntimeError): ScrapClass {
+  switch (true) {
+    case error instanceof PermissionDenied: return SCRAP_PERMISSION_DENIED_CLASS
+    case error instanceof AssertionError: return SCRAP_ASSERTION_ERROR_CLASS
+  }
+
+  return SCRAP_RUNTIME_ERROR_CLASS
+}
+
+/**
+ * Checks if a signal is the stack overflow of the host, raised when the program nests too many calls
+ */
+function isHostStackOverflow(signal: unknown): signal is RangeError {
+  return signal instanceof RangeError && signal.message.includes("call stack")
+}
 
 export class Interpreter {
   private parser: Parser
+  private globalEnvironment: Environment
+  private environment: Environment
+  private callStack: StackFrame[]
+
+  /**
+   * Modules which were already imported. A file imported several times is only computed the first time
+   */
+  private importedModules: Set<ScrapModule>
+
+  /**
+   * Last token reached while running the program, which is where an error raised by the interpreter happens
+   */
+  private currentToken: Nullable<Token>
 
   public constructor(parser: Parser) {
     this.parser = parser
+    this.globalEnvironment = new Environment(null)
+    this.environment = this.globalEnvironment
+    this.callStack = []
+    this.importedModules = new Set()
+    this.currentToken = null
+
+    this.defineNativeVariables(stdModule)
+  }
+
+  /**
+   * Defines the variables of a native module, e.g: `true` and `null` from `std`. They are not declared in the program,
+   * so they are defined in the global environment instead of being computed
+   */
+  private defineNativeVariables(nativeModule: ScrapModule) {
+    for (const entity of nativeModule.getScope.getScopedEntities.values()) {
+      if (entity instanceof ScrapVariable)
+        this.globalEnvironment.define(entity, entity.getAssignedValue)
+    }
+  }
+
+  /**
+   * Creates the ScrapLang stack trace from the current position. Each line shows a function which is being executed,
+   * from the innermost to the outermost, and the position reached inside it
+   */
+  private captureStackTrace(): string {
+    const trace: string[] = []
+    let position = this.currentToken
+
+    for (const frame of this.callStack.toReversed()) {
+      trace.push(`    at ${frame.functionName} (${formatPosition(position)})`)
+      position = frame.callToken
+    }
+
+    // the outermost function was called from the root of the program
+    if (position !== null || trace.length === 0)
+      trace.push(`    at ${this.parser.mainModule.name} (${formatPosition(position)})`)
+
+    return collapseRepeatedFrames(trace).join("\n")
+  }
+
+  /**
+   * Creates an object of an error class without calling its constructor
+   */
+  private createError(errorClass: ScrapClass, message: string): ScrapInstance {
+    const properties = new Map<string, ScrapValue>()
+    this.initProperties(errorClass, properties)
+    properties.set("message", new ScrapString(message))
+
+    return new ScrapInstance(errorClass, properties)
+  }
+
+  /**
+   * Prepares a value to be thrown. The stack trace is stored in the error the first time it is thrown, so a rethrown error keeps its original trace
+   */
+  private createThrowSignal(thrown: ScrapValue): ThrowSignal {
+    if (!(thrown instanceof ScrapInstance && isErrorClass(thrown.getClass)))
+      throw new RuntimeError("Only objects of 'Error' or its subclasses can be thrown")
+
+    const stack = thrown.getValue.get("stack")
+
+    if (!(stack instanceof ScrapString) || stack.getValue === "")
+      thrown.getValue.set("stack", new ScrapString(this.captureStackTrace()))
+
+    return new ThrowSignal(thrown)
+  }
+
+  /**
+   * Converts the errors raised by the interpreter into ScrapLang errors, so they can be handled by the program.
+   * A stack overflow of the host, caused by a deep recursion, is converted into a `RangeError`.
+   * Any other signal is returned as is
+   */
+  private toThrowSignal(signal: unknown): unknown {
+    if (signal instanceof RuntimeError)
+      return this.createThrowSignal(this.createError(getScrapErrorClass(signal), signal.message))
+
+    if (isHostStackOverflow(signal))
+      return this.createThrowSignal(this.createError(SCRAP_RANGE_ERROR_CLASS, "Maximum call stack size exceeded"))
+
+    return signal
+  }
+
+  /**
+   * Runs an entry point of the program. An error which is not handled by the program stops it, showing the ScrapLang stack trace
+   */
+  private runEntryPoint<T>(action: () => T): T {
+    try {
+      return action()
+    } catch (signal) {
+      const uncaught = this.toThrowSignal(signal)
+
+      if (!(uncaught instanceof ThrowSignal))
+        throw uncaught
+
+      const thrown = uncaught.getThrown
+      const message = thrown.getValue.get("message")?.toString() ?? ""
+
+      throw new UncaughtError(`${thrown.getClass.name}: ${message}`, thrown.getValue.get("stack")?.toString() ?? "", thrown.getClass)
+    }
+  }
+
+  /**
+   * Runs `action` using `environment` as the current environment, restoring the previous one when it ends
+   */
+  private runInEnvironment<T>(environment: Environment, action: () => T): T {
+    const previousEnvironment = this.environment
+    this.environment = environment
+
+    try {
+      return action()
+    } finally {
+      this.environment = previousEnvironment
+    }
+  }
+
+  /**
+   * Executes a block of code in its own environment, so the variables declared inside the block are only visible there
+   * @param environment Environment for the block, a child of the current environment by default
+   */
+  private computeBlock(body: AllowedBlockEntities[], environment = new Environment(this.environment)) {
+    this.runInEnvironment(environment, () => {
+      for (const val of body)
+        this.compute(val)
+    })
+  }
+
+  private checkArgsCount(called: ScrapFunction, expectedCount: number, receivedCount: number) {
+    if (expectedCount !== receivedCount)
+      throw new RuntimeError(`Function '${called.name}' expects ${expectedCount} arguments, but ${receivedCount} were received`)
   }
 
   private execScrapNative(value: ScrapNative, call: ScrapCall): ScrapValue {
+    const argsCount = value.getArgsCount
+
+    if (argsCount !== true)
+      this.checkArgsCount(value, argsCount, call.getArgs.length)
+
     const computedArgs = call.getArgs.map((arg) => this.computeExpression(arg))
     return this.computeExpression(value.getAction(...computedArgs))
   }
 
   public execScrapFunction(value: DefinedFunction, call: ScrapCall): ScrapValue {
-    call.getArgs.map((arg) => this.computeExpression(arg))
+    return this.runEntryPoint(() => this.execClosure(this.computeFunction(value), call.getArgs, call.getCallToken))
+  }
 
-    for (const val of value.body)
-      this.compute(val)
+  /**
+   * Executes a function declared by the user. Each call gets a new environment where the arguments are bound to the parameters,
+   * whose parent is the environment where the function was declared
+   * 
+   * The errors raised by the interpreter inside the function are converted into ScrapLang errors here, while the stack trace is still complete
+   * 
+   * @param callToken Where the function is called, null if the call is not placed in the program
+   */
+  private execClosure(closure: ScrapClosure, args: ScrapValue[], callToken: Nullable<Token> = null): ScrapValue {
+    const value = closure.getFunction
+    const params = value.getParams
+    this.checkArgsCount(value, params.length, args.length)
+
+    // arguments are computed in the environment of the caller
+    const computedArgs = args.map((arg) => this.computeExpression(arg))
+    const frame = new Environment(closure.getEnvironment)
+
+    params.forEach((param, i) => {
+      const paramVar = value.getScope.getScopedEntities.get(param.pName) as ScrapVariable
+      frame.define(paramVar, computedArgs[i])
+    })
+
+    this.callStack.push({ functionName: value.name, callToken })
+
+    try {
+      this.computeBlock(value.body, frame)
+    } catch (signal) {
+      if (signal instanceof ReturnSignal)
+        return signal.getReturnValue
+
+      throw this.toThrowSignal(signal)
+    } finally {
+      this.callStack.pop()
+      this.currentToken = callToken
+    }
 
-    return this.computeExpression(value.getReturnType)
+    return new ScrapUndefined()
   }
 
   private resolveExecutor(value: ScrapCall) {
     const calledFunction = value.getCalled
+    this.currentToken = value.getCallToken ?? this.currentToken
 
     if (calledFunction instanceof ScrapNative)
       return this.execScrapNative(calledFunction, value)
-    else
-      return this.execScrapFunction(
-        calledFunction as DefinedFunction,
-        value
-      )
+
+    // the called value can be any expression whose value is a function, like a variable or an array element
+    const computedFunction = this.computeExpression(calledFunction)
+
+    switch (true) {
+      case computedFunction instanceof ScrapClosure: return this.execClosure(computedFunction, value.getArgs, value.getCallToken)
+      case computedFunction instanceof ScrapNative: return this.execScrapNative(computedFunction, value)
+    }
+
+    throw new RuntimeError(`A value of type '${computedFunction.constructor.name}' can not be called, it is not a function`)
+  }
+
+  /**
+   * Binds a method to the object which calls it, so `this` points to that object inside the method body
+   */
+  private bindMethod(object: ScrapInstance, method: DefinedFunction): ScrapClosure {
+    const methodEnvironment = new Environment(this.globalEnvironment)
+    const thisVar = method.getScope.getScopedEntities.get(Keywords.THIS)
+
+    if (thisVar instanceof ScrapVariable)
+      methodEnvironment.define(thisVar, object)
+
+    return new ScrapClosure(method, methodEnvironment)
+  }
+
+  /**
+   * Initializes the properties declared in a class and its parent classes. The properties of the parent classes are initialized first
+   */
+  private initProperties(instantiatedClass: ScrapClass, properties: Map<string, ScrapValue>) {
+    const parentClass = instantiatedClass.getParent
+
+    if (parentClass)
+      this.initProperties(parentClass, properties)
+
+    for (const { entitiyType, isStatic } of instantiatedClass.getEntities) {
+      if (entitiyType instanceof ScrapVariable && !isStatic)
+        properties.set(entitiyType.name, this.computeExpression(entitiyType.getAssignedValue))
+    }
+  }
+
+  /**
+   * Creates an object of a class. The properties are initialized with the values declared in the class before calling the constructor
+   * 
+   * A class without constructor uses the constructor inherited from its parent classes
+   */
+  private computeNew(value: ScrapNew): ScrapInstance {
+    const instantiatedClass = value.getInstantiatedClass
+    const properties = new Map<string, ScrapValue>()
+
+    this.initProperties(instantiatedClass, properties)
+
+    const instance = new ScrapInstance(instantiatedClass, properties)
+    const constructor = instantiatedClass.findEntity(Keywords.CONSTRUCTOR)?.entity.entitiyType
+
+    this.currentToken = value.getNewToken ?? this.currentToken
+
+    if (constructor instanceof DefinedFunction)
+      this.execClosure(this.bindMethod(instance, constructor), value.getArgs, value.getNewToken)
+    else if (value.getArgs.length > 0)
+      throw new RuntimeError(`Class '${instantiatedClass.name}' does not have a constructor, so it can not receive arguments`)
+
+    return instance
+  }
+
+  /**
+   * Checks that a member of an object can be accessed from the class where the access is placed
+   */
+  private checkMemberAccess(object: ScrapInstance, memberName: string, accessingClass: Nullable<ScrapClass>) {
+    const accessError = object.getClass.getAccessError(memberName, accessingClass)
+
+    if (accessError)
+      throw new RuntimeError(accessError)
+  }
+
+  /**
+   * Gets the constructor of the parent class bound to `this`, which is called using `super(...)`
+   */
+  private computeSuper(value: ScrapSuper): ScrapFunction {
+    const object = this.computeExpression(value.getThisAccess) as ScrapInstance
+    const constructor = value.getParentClass.findEntity(Keywords.CONSTRUCTOR)?.entity.entitiyType
+
+    if (constructor instanceof DefinedFunction)
+      return this.bindMethod(object, constructor)
+
+    // the parent classes does not declare a constructor, so there is nothing to initialize
+    return new ScrapNative(Keywords.CONSTRUCTOR, 0, () => new ScrapUndefined())
+  }
+
+  /**
+   * Accesses to a member declared in the parent classes, using `this` as the object which calls the parent methods
+   */
+  private computeSuperMember(superValue: ScrapSuper, value: ScrapMemberAccess): ScrapValue {
+    const object = this.computeExpression(superValue.getThisAccess) as ScrapInstance
+    const memberName = value.getMemberName
+    const parentClass = superValue.getParentClass
+
+    const accessError = parentClass.getAccessError(memberName, value.getAccessingClass)
+
+    if (accessError)
+      throw new RuntimeError(accessError)
+
+    const method = parentClass.findEntity(memberName)?.entity.entitiyType
+
+    if (method instanceof DefinedFunction)
+      return this.bindMethod(object, method)
+
+    return object.getValue.get(memberName) as ScrapValue
+  }
+
+  private computeMemberAccess(value: ScrapMemberAccess): ScrapValue {
+    if (value.getObject instanceof ScrapSuper)
+      return this.computeSuperMember(value.getObject, value)
+
+    const object = this.computeExpression(value.getObject)
+    const memberName = value.getMemberName
+    this.currentToken = value.getMemberToken
+
+    if (object instanceof ScrapInstance) {
+      this.checkMemberAccess(object, memberName, value.getAccessingClass)
+
+      // methods are searched from the class of the object, so the overridden versions are used
+      const method = object.getClass.findEntity(memberName)?.entity.entitiyType
+
+      if (method instanceof DefinedFunction)
+        return this.bindMethod(object, method)
+
+      return object.getValue.get(memberName) as ScrapValue
+    }
+
+    if (isPlainObject(object))
+      return object.getValue.get(memberName) ?? new ScrapUndefined()
+
+    throw new RuntimeError(`'${memberName}' is not a member of a value of type '${object.constructor.name}'`)
+  }
+
+  /**
+   * Computes the value stored by an assignment. A compound assignment applies its operator to the current value, which is read
+   * before computing the new value, e.g: `this.count += 1`
+   * @param readCurrent Gets the current value of the member, so the object which contains it is not computed again
+   */
+  private computeAssignedValue(value: MemberAssignment, readCurrent: () => ScrapValue): ScrapValue {
+    const operator = value.getOperator
+
+    if (operator === null)
+      return this.computeExpression(value.getNewValue)
+
+    const currentValue = readCurrent()
+    return this.computeArithmetic(currentValue, this.computeExpression(value.getNewValue), operator)
+  }
+
+  private computeMemberAssignment(value: MemberAssignment): ScrapValue {
+    const target = value.getTarget
+
+    if (target instanceof ScrapArrayAccess)
+      return this.computeElementAssignment(target, value)
+
+    const object = this.computeExpression(target.getObject)
+    const memberName = target.getMemberName
+
+    if (object instanceof ScrapInstance) {
+      this.checkMemberAccess(object, memberName, target.getAccessingClass)
+
+      if (!object.getValue.has(memberName))
+        throw new RuntimeError(`Can not assign a value to '${memberName}', it is a method of the class '${object.getClass.name}'`)
+    } else if (!isPlainObject(object))
+      throw new RuntimeError(`Can not assign a value to '${memberName}', it is not a property of a value of type '${object.constructor.name}'`)
+
+    const newValue = this.computeAssignedValue(value, () => object.getValue.get(memberName) ?? new ScrapUndefined())
+    object.getValue.set(memberName, newValue)
+
+    return newValue
+  }
+
+  /**
+   * Assigns a value to an element of an array, or to a property of an object using its key, e.g: `person["name"] = "Juan"`
+   */
+  private computeElementAssignment(target: ScrapArrayAccess, value: MemberAssignment): ScrapValue {
+    const accessed = this.computeExpression(target.getAccessedArray)
+    const position = this.computeExpression(target.getAccessedPosition)
+
+    if (isPlainObject(accessed) && isTextual(position)) {
+      const newValue = this.computeAssignedValue(value, () => accessed.getValue.get(position.getValue) ?? new ScrapUndefined())
+      accessed.getValue.set(position.getValue, newValue)
+
+      return newValue
+    }
+
+    if (!(accessed instanceof ScrapArray) || !(position instanceof ScrapInteger))
+      throw new RuntimeError(`Can not assign a value to an element of a value of type '${accessed.constructor.name}'`)
+
+    const elements = accessed.getValue as ScrapValue[]
+    const index = position.getValue < 0 ? elements.length + position.getValue : position.getValue
+
+    if (index < 0 || index >= elements.length)
+      throw new RuntimeError(`The position ${position.getValue} is out of the bounds of the array`)
+
+    const newValue = this.computeAssignedValue(value, () => elements[index])
+    elements[index] = newValue
+
+    return newValue
+  }
+
+  /**
+   * Gets the runtime value of a function, which remembers the environment where the function was declared
+   * 
+   * Lambdas are bound to the current environment each time they are reached.
+   * Named functions are bound when their declaration is executed, so calls placed before it (or to top-level functions) use the global environment
+   */
+  private computeFunction(value: DefinedFunction): ScrapClosure {
+    if (value instanceof ScrapLambda)
+      return new ScrapClosure(value, this.environment)
+
+    const declaredFunction = this.environment.lookup(value)
+
+    if (declaredFunction instanceof ScrapClosure)
+      return declaredFunction
+
+    return new ScrapClosure(value, this.globalEnvironment)
   }
 
   private computeReassignment(value: ReassignmentExpression): ScrapValue {
-    const newValue = value.getValue as ScrapValue
+    const newValue = this.computeExpression(value.getValue as ScrapValue)
     const target = value.getTarget
 
-    if (value.getTarget.getAssignedValue instanceof ScrapReference)
-      value.getTarget.getAssignedValue.getReferencedVar.setAssignedValue = newValue
+    const currentValue = this.environment.lookup(target)
 
-    target.setAssignedValue = newValue
+    // assigning a value to a variable which holds a reference changes the referenced variable
+    if (currentValue instanceof ScrapBoundReference)
+      this.writeReference(currentValue, newValue)
+    else
+      this.assignVariable(target, newValue, this.environment)
 
     return newValue
   }
 
+  /**
+   * Changes the value of a variable in the environment where it was defined.
+   * The declaration found by the parser is never changed, so a variable whose declaration was not executed yet can not be assigned
+   */
+  private assignVariable(variable: ScrapVariable, newValue: ScrapValue, environment: Nullable<Environment>) {
+    if (!environment?.assign(variable, newValue))
+      throw new RuntimeError(`Can not assign a value to '${variable.name}' before its declaration is executed`)
+  }
+
+  private readVariable(variable: ScrapVariable, environment: Nullable<Environment>): ScrapValue {
+    const value = environment?.lookup(variable)
+
+    if (value === undefined)
+      throw new RuntimeError(`Can not read '${variable.name}' before its declaration is executed`)
+
+    return value instanceof ScrapBoundReference ? this.readReference(value) : value
+  }
+
+  private readReference(reference: ScrapBoundReference): ScrapValue {
+    return this.readVariable(reference.getReferencedVar, reference.getEnvironment)
+  }
+
+  private writeReference(reference: ScrapBoundReference, newValue: ScrapValue) {
+    const referencedVar = reference.getReferencedVar
+    const environment = reference.getEnvironment
+    const currentValue = environment?.lookup(referencedVar)
+
+    // a reference to other reference changes the variable at the end of the chain
+    if (currentValue instanceof ScrapBoundReference)
+      this.writeReference(currentValue, newValue)
+    else
+      this.assignVariable(referencedVar, newValue, environment)
+  }
+
   private computeArray(value: ScrapArray<ScrapValue>) {
     return new ScrapArray(
-      value.getValue.map(item => this.computeExpression(item).getValue)
+      value.getValue.map(item => this.computeExpression(item))
     )
   }
 
+  private computeObject(value: ScrapObject): ScrapObject {
+    const keyValuePairs = new Map<string, ScrapValue>()
+
+    for (const [key, keyValue] of value.getValue)
+      keyValuePairs.set(key, this.computeExpression(keyValue))
+
+    return new ScrapObject(null, keyValuePairs)
+  }
+
+  private computeRange(value: ScrapRange): ScrapRange {
+    const step = value.getStep
+    const computedRange = new ScrapRange(
+      this.computeExpression(value.getStart),
+      this.computeExpression(value.getEnd),
+      step ? this.computeExpression(step) : null,
+      value.getIsInclusive
+    )
+
+    const bounds = [computedRange.getStart, computedRange.getEnd, computedRange.getStep ?? new ScrapInteger(1)]
+    if (bounds.some(bound => !(bound instanceof ScrapInteger)))
+      throw new RuntimeError("The start, the end and the step of a range must be integers")
+
+    if (computedRange.getStep?.getValue === 0)
+      throw new RuntimeError("The step of a range can not be 0")
+
+    return computedRange
+  }
+
+  private computeVariantAccess(value: ScrapVariantAccess): ScrapEnumValue {
+    const associatedValues = value.getArgs.map(arg => this.computeExpression(arg))
+
+    return new ScrapEnumValue(value.getEnum, value.getVariantName, associatedValues)
+  }
+
   private computeArrayAccess(value: ScrapArrayAccess): ScrapValue | ScrapUndefined {
-    const accessedValue = value.getAccessedArray.getValue.at(value.getAccessedPosition.getValue)
+    const accessedArray = this.computeExpression(value.getAccessedArray)
+    const position = this.computeExpression(value.getAccessedPosition)
+
+    if (isPlainObject(accessedArray) && isTextual(position))
+      return accessedArray.getValue.get(position.getValue) ?? new ScrapUndefined()
+
+    if (!(accessedArray instanceof ScrapArray))
+      throw new RuntimeError(`Can not access to an element of a value of type '${accessedArray.constructor.name}', it is not an array`)
+
+    if (!(position instanceof ScrapInteger))
+      throw new RuntimeError("The position of an array element must be an integer")
+
+    const accessedValue = (accessedArray.getValue as ScrapValue[]).at(position.getValue)
 
     if (!accessedValue)
       return new ScrapUndefined()
@@ -70,8 +686,202 @@ export class Interpreter {
     return accessedValue
   }
 
-  private computeReference(value: ScrapReference): ScrapValue {
-    return (value.getValue as ScrapVariable).getAssignedValue
+  /**
+   * A reference is bound to the environment where the referenced variable is defined at the moment of creating the reference
+   */
+  private computeReference(value: ScrapReference): ScrapBoundReference {
+    if (value instanceof ScrapBoundReference)
+      return value
+
+    const referencedVar = value.getReferencedVar
+
+    return new ScrapBoundReference(referencedVar, this.environment.resolve(referencedVar))
+  }
+
+  private computeVariableAccess(value: ScrapVariableAccess): ScrapValue {
+    this.currentToken = value.getAccessToken
+    return this.readVariable(value.getAccessedVariable, this.environment)
+  }
+
+  /**
+   * Checks if a value is considered as true when it is used as a condition
+   * 
+   * The values considered as false are: `false`, `undefined`, `null`, `0`, `0.0` and empty strings.
+   * Any other value is considered as true
+   */
+  public isTruthy(value: ScrapValue): boolean {
+    if (value instanceof ScrapPrimitive)
+      return Boolean(value.getValue)
+
+    if (value instanceof ScrapFunction)
+      return true
+
+    return value.getValue !== null && value.getValue !== undefined
+  }
+
+  private computeArithmetic(lhs: ScrapValue, rhs: ScrapValue, operator: string): ScrapValue {
+    if (operator === "+" && (lhs instanceof ScrapString || rhs instanceof ScrapString))
+      return new ScrapString(`${lhs.getValue}${rhs.getValue}`)
+
+    if (!isNumeric(lhs) || !isNumeric(rhs))
+      throw new RuntimeError(`Operator '${operator}' can not be applied to '${lhs.constructor.name}' and '${rhs.constructor.name}'`)
+
+    const isIntegerOperation = lhs instanceof ScrapInteger && rhs instanceof ScrapInteger
+    const l = lhs.getValue, r = rhs.getValue
+
+    if (isIntegerOperation && (operator === "/" || operator === "%") && r === 0)
+      throw new RuntimeError("Integer division by zero")
+
+    let result: number
+    switch (operator) {
+      case "+": result = l + r; break
+      case "-": result = l - r; break
+      case "*": result = l * r; break
+      case "/": result = isIntegerOperation ? Math.trunc(l / r) : l / r; break
+      case "%": result = l % r; break
+      default: throw new RuntimeError(`Unknown arithmetic operator '${operator}'`)
+    }
+
+    return isIntegerOperation ? new ScrapInteger(result) : new ScrapFloat(result)
+  }
+
+  /**
+   * Checks if two values are equal
+   * 
+   * * Numbers are equal if they have the same numeric value, does not matter if they are integers or floats
+   * * Strings and chars are equal if they have the same content, so a char and a string with a single character are equal
+   * * A number is never equal to a string or a char
+   * * Any other primitive value is equal to other value of the same type with the same content (e.g: `true == true`, `null == null`)
+   * * Values of an enum are equal if they belong to the same variant and their associated values are equal
+   * * Objects, arrays and functions are only equal to themselves
+   */
+  private areEqual(lhs: ScrapValue, rhs: ScrapValue): boolean {
+    if (lhs instanceof ScrapEnumValue || rhs instanceof ScrapEnumValue) {
+      if (!(lhs instanceof ScrapEnumValue && rhs instanceof ScrapEnumValue))
+        return false
+
+      const lValues = lhs.getAssociatedValues, rValues = rhs.getAssociatedValues
+
+      return lhs.getEnum === rhs.getEnum && lhs.getVariantName === rhs.getVariantName &&
+        lValues.every((value, i) => this.areEqual(value, rValues[i]))
+    }
+
+    if (isNumeric(lhs) && isNumeric(rhs))
+      return lhs.getValue === rhs.getValue
+
+    if (isTextual(lhs) && isTextual(rhs))
+      return lhs.getValue === rhs.getValue
+
+    if (isNumeric(lhs) || isNumeric(rhs) || isTextual(lhs) || isTextual(rhs))
+      return false
+
+    if (lhs instanceof ScrapFunction || rhs instanceof ScrapFunction)
+      return lhs === rhs
+
+    const lValue = lhs.getValue, rValue = rhs.getValue
+    const isLhsComparable = lValue === null || typeof lValue !== "object"
+    const isRhsComparable = rValue === null || typeof rValue !== "object"
+
+    if (isLhsComparable && isRhsComparable)
+      return lValue === rValue
+
+    return lhs === rhs
+  }
+
+  /**
+   * Compares the order between two values using `<`, `>`, `<=` or `>=`
+   * 
+   * Only numbers can be compared with numbers, and strings or chars with strings or chars.
+   * Strings and chars are compared lexicographically
+   */
+  private computeComparison(lhs: ScrapValue, rhs: ScrapValue, operator: string): ScrapValue {
+    const areComparable = (isNumeric(lhs) && isNumeric(rhs)) || (isTextual(lhs) && isTextual(rhs))
+
+    if (!areComparable)
+      throw new RuntimeError(`Operator '${operator}' can not be applied to '${lhs.constructor.name}' and '${rhs.constructor.name}'`)
+
+    const l = lhs.getValue as number | string, r = rhs.getValue as number | string
+
+    switch (operator) {
+      case "<": return createScrapBoolean(l < r)
+      case ">": return createScrapBoolean(l > r)
+      case "<=": return createScrapBoolean(l <= r)
+      case ">=": return createScrapBoolean(l >= r)
+    }
+
+    throw new RuntimeError(`Unknown comparison operator '${operator}'`)
+  }
+
+  private computeInstanceOf(lhs: ScrapValue, rhs: ScrapValue): ScrapValue {
+    if (!(rhs instanceof ScrapClass))
+      throw new RuntimeError("Right side of 'instanceof' must be a class")
+
+    if (!(lhs instanceof ScrapInstance))
+      return createScrapBoolean(false)
+
+    const objectClass = lhs.getClass
+
+    return createScrapBoolean(objectClass === rhs || objectClass.inheritsFrom(rhs))
+  }
+
+  private computeIn(lhs: ScrapValue, rhs: ScrapValue): ScrapValue {
+    switch (true) {
+      case rhs instanceof ScrapArray:
+        return createScrapBoolean(rhs.getValue.some(item => this.areEqual(lhs, item as ScrapValue)))
+      case rhs instanceof ScrapString:
+        return createScrapBoolean(rhs.getValue.includes(`${lhs.getValue}`))
+      case rhs instanceof ScrapObject:
+        return createScrapBoolean(rhs.getValue.has(`${lhs.getValue}`))
+    }
+
+    throw new RuntimeError(`Operator 'in' can not be applied to '${rhs.constructor.name}'`)
+  }
+
+  private computeBinary(value: BinaryExpression): ScrapValue {
+    const operator = value.getOperator
+    const lhs = this.computeExpression(value.getLhs)
+
+    // logical operators are short-circuited, so the right side is only computed if it's needed
+    switch (operator) {
+      case "and": return createScrapBoolean(this.isTruthy(lhs) && this.isTruthy(this.computeExpression(value.getRhs)))
+      case "or": return createScrapBoolean(this.isTruthy(lhs) || this.isTruthy(this.computeExpression(value.getRhs)))
+    }
+
+    const rhs = this.computeExpression(value.getRhs)
+
+    switch (operator) {
+      case "==": return createScrapBoolean(this.areEqual(lhs, rhs))
+      case "!=": return createScrapBoolean(!this.areEqual(lhs, rhs))
+      case "<":
+      case ">":
+      case "<=":
+      case ">=": return this.computeComparison(lhs, rhs, operator)
+      case "instanceof": return this.computeInstanceOf(lhs, rhs)
+      case "in": return this.computeIn(lhs, rhs)
+    }
+
+    return this.computeArithmetic(lhs, rhs, operator)
+  }
+
+  private computeUnary(value: UnaryExpression): ScrapValue {
+    const operand = this.computeExpression(value.getOperand)
+
+    switch (value.getOperator) {
+      case "not": return createScrapBoolean(!this.isTruthy(operand))
+      case "is null": return createScrapBoolean(isAbsent(operand))
+      case "not null": return createScrapBoolean(!isAbsent(operand))
+      case "-": {
+        if (operand instanceof ScrapInteger)
+          return new ScrapInteger(-operand.getValue)
+
+        if (operand instanceof ScrapFloat)
+          return new ScrapFloat(-operand.getValue)
+
+        throw new RuntimeError(`Operator '-' can not be applied to '${operand.constructor.name}'`)
+      }
+    }
+
+    throw new RuntimeError(`Unknown unary operator '${value.getOperator}'`)
   }
 
   /**
@@ -88,10 +898,31 @@ export class Interpreter {
       this.compute(val)
   }
 
+  /**
+   * Computes the body of an imported module declared in a file, so its variables and functions are defined before the importer uses them
+   */
+  private computeImport(value: ScrapImport) {
+    const importedModule = value.getImportedModule
+
+    if (this.importedModules.has(importedModule))
+      return
+
+    this.importedModules.add(importedModule)
+
+    if (importedModule instanceof DefinedModule)
+      this.computeModule(importedModule)
+    else
+      this.defineNativeVariables(importedModule)
+  }
+
   private computeEntities(entity: ScrapEntity) {
     switch (true) {
-      case entity instanceof ScrapVariable: this.computeExpression(entity.getAssignedValue); break
+      case entity instanceof ScrapVariable: this.environment.define(entity, this.computeExpression(entity.getAssignedValue)); break
       case entity instanceof DefinedModule: this.computeModule(entity); break
+      case entity instanceof ScrapImport: this.computeImport(entity); break
+      case entity instanceof ScrapClass: break // classes are used when their objects are created
+      case entity instanceof ScrapInterface: break // interfaces are only checked while parsing
+      case entity instanceof ScrapEnum: break // the values of an enum are created when its variants are accessed
       default:
         console.warn(`The interpreter can not compute '${entity.constructor.name}' yet.`)
         break
@@ -101,19 +932,311 @@ export class Interpreter {
   private computeExpression(value: ScrapValue): ScrapValue {
     switch (true) {
       case value instanceof ScrapCall:               return this.resolveExecutor(value)
+      case value instanceof DefinedFunction:         return this.computeFunction(value)
+      case value instanceof ScrapNew:                return this.computeNew(value)
+      case value instanceof ScrapSuper:              return this.computeSuper(value)
+      case value instanceof ScrapMemberAccess:       return this.computeMemberAccess(value)
+      case value instanceof MemberAssignment:        return this.computeMemberAssignment(value)
       case value instanceof ScrapArray:              return this.computeArray(value)
+      case value instanceof ScrapRegExp:             return value
+      case isPlainObject(value):                     return this.computeObject(value)
+      case value instanceof ScrapRange:              return this.computeRange(value)
+      case value instanceof ScrapVariantAccess:      return this.computeVariantAccess(value)
+      case value instanceof ScrapMatch:              return this.computeMatch(value)
       case value instanceof ScrapArrayAccess:        return this.computeArrayAccess(value)
       case value instanceof ReassignmentExpression:  return this.computeReassignment(value)
       case value instanceof ScrapReference:          return this.computeReference(value)
+      case value instanceof ScrapVariableAccess:     return this.computeVariableAccess(value)
+      case value instanceof BinaryExpression:        return this.computeBinary(value)
+      case value instanceof UnaryExpression:         return this.computeUnary(value)
+      case value instanceof ScrapTemplate:           return this.computeTemplate(value)
       //case value instanceof ScrapReference:       return this.computeReference(value)
     }
 
     return value
   }
 
-  public compute(node: ScrapValue | ScrapEntity) {
+  /**
+   * Creates the string of a template, placing each computed expression, converted to a string, between the chunks of text
+   */
+  private computeTemplate(value: ScrapTemplate): ScrapString {
+    const chunks = value.getChunks
+    const text = value.getExpressions.map((expression, i) => chunks[i] + this.computeExpression(expression).toString())
+
+    return new ScrapString(text.join("") + chunks.at(-1))
+  }
+
+  /**
+   * Runs only the first branch of the `if` chain whose expression is considered true
+   */
+  private computeIf(block: ScrapIf) {
+    if (this.isTruthy(this.computeExpression(block.getExpression)))
+      this.computeBlock(block.getBody)
+    else if (block.getElseBranch)
+      this.computeIf(block.getElseBranch)
+  }
+
+  /**
+   * Checks if an integer is one of the values which are iterated by a range
+   */
+  private rangeContains(range: ScrapRange, value: ScrapValue): boolean {
+    if (!(value instanceof ScrapInteger))
+      return false
+
+    const start = range.getStart.getValue as number
+    const end = range.getEnd.getValue as number
+    const step = (range.getStep?.getValue as number | undefined) ?? (start <= end ? 1 : -1)
+    const n = value.getValue
+
+    const isBetween = step > 0
+      ? n >= start && (range.getIsInclusive ? n <= end : n < end)
+      : n <= start && (range.getIsInclusive ? n >= end : n > end)
+
+    return isBetween && (n - start) % step === 0
+  }
+
+  /**
+   * Checks if a value matches a pattern. The associated values of a matched enum variant are bound in `environment`
+   */
+  private matchesPattern(value: ScrapValue, pattern: ScrapPattern, environment: Environment): boolean {
+    switch (true) {
+      case pattern instanceof ScrapWildcardPattern: return true
+      case pattern instanceof ScrapLiteralPattern: return this.areEqual(value, this.computeExpression(pattern.getLiteral))
+      case pattern instanceof ScrapRangePattern: return this.rangeContains(this.computeRange(pattern.getRange), value)
+      case pattern instanceof ScrapVariantPattern: {
+        if (!(value instanceof ScrapEnumValue))
+          return false
+
+        if (value.getEnum !== pattern.getEnum || value.getVariantName !== pattern.getVariantName)
+          return false
+
+        pattern.getBindings.forEach((binding, i) => {
+          if (binding)
+            environment.define(binding, value.getAssociatedValues[i])
+        })
+
+        return true
+      }
+    }
+
+    throw new RuntimeError(`Unknown pattern '${pattern.constructor.name}'`)
+  }
+
+  /**
+   * Executes the body of a matched arm. An arm whose body is an expression gives its value to the `match`
+   */
+  private computeArm(arm: ScrapMatchArm, environment: Environment, isSwitch: boolean): ScrapValue {
+    const body = arm.getBody
+
+    if (!Array.isArray(body))
+      return this.runInEnvironment(environment, () => this.computeExpression(body))
+
+    try {
+      this.computeBlock(body, environment)
+    } catch (signal) {
+      if (!(isSwitch && signal instanceof BreakSignal))
+        throw signal
+    }
+
+    return new ScrapUndefined()
+  }
+
+  /**
+   * Executes the first arm whose pattern matches the value. A `switch` whose cases does not match the value does nothing
+   */
+  private computeMatch(value: ScrapMatch): ScrapValue {
+    const matched = this.computeExpression(value.getMatched)
+
+    for (const arm of value.getArms) {
+      const armEnvironment = new Environment(this.environment)
+
+      if (this.matchesPattern(matched, arm.getPattern, armEnvironment))
+        return this.computeArm(arm, armEnvironment, value.getIsSwitch)
+    }
+
+    if (value.getIsSwitch)
+      return new ScrapUndefined()
+
+    throw new RuntimeError(`The value '${matched.toString()}' is not matched by any arm of the 'match'`)
+  }
+
+  /**
+   * Executes the body of a loop once
+   * @param environment Environment of the current iteration
+   * @returns false if the loop must stop because a `break` was reached, true otherwise
+   */
+  private computeLoopBody(block: ScrapControlBlock, environment?: Environment): boolean {
+    try {
+      this.computeBlock(block.getBody, environment)
+    } catch (signal) {
+      if (signal instanceof BreakSignal)
+        return false
+
+      if (!(signal instanceof SkipSignal))
+        throw signal
+    }
+
+    return true
+  }
+
+  private computeWhile(block: ScrapWhile) {
+    if (block instanceof ScrapDoWhile && !this.computeLoopBody(block))
+      return
+
+    while (this.isTruthy(this.computeExpression(block.getExpression))) {
+      if (!this.computeLoopBody(block))
+        break
+    }
+  }
+
+  /**
+   * Computes the values which are iterated by a `for` loop
+   * 
+   * If the range step is not specified, the range is ascending if `start` is lower than `end`, and descending otherwise
+   */
+  private *iterate(iterable: ScrapValue): Generator<ScrapValue> {
+    switch (true) {
+      case iterable instanceof ScrapRange: {
+        const start = iterable.getStart.getValue as number
+        const end = iterable.getEnd.getValue as number
+        const step = (iterable.getStep?.getValue as number | undefined) ?? (start <= end ? 1 : -1)
+        const isInRange = (i: number) => {
+          if (step > 0)
+            return iterable.getIsInclusive ? i <= end : i < end
+
+          return iterable.getIsInclusive ? i >= end : i > end
+        }
+
+        for (let i = start; isInRange(i); i += step)
+          yield new ScrapInteger(i)
+      } break
+
+      case iterable instanceof ScrapArray: yield* iterable.getValue as ScrapValue[]; break
+      case iterable instanceof ScrapString: {
+        for (const char of iterable.getValue)
+          yield new ScrapChar(char)
+      } break
+
+      case iterable instanceof ScrapObject && !(iterable instanceof ScrapFunction): {
+        for (const key of iterable.getValue.keys())
+          yield new ScrapString(key)
+      } break
+
+      default: throw new RuntimeError(`'${iterable.constructor.name}' is not iterable`)
+    }
+  }
+
+  private computeForIn(block: ScrapForIn) {
+    const iterationVar = block.getIterationVar
+
+    for (const value of this.iterate(this.computeExpression(block.getExpression))) {
+      const iterationEnvironment = new Environment(this.environment)
+      iterationEnvironment.define(iterationVar, value)
+
+      if (!this.computeLoopBody(block, iterationEnvironment))
+        break
+    }
+  }
+
+  /**
+   * Each iteration of a C-style `for` loop has its own binding of the loop variable, which is copied from the previous iteration
+   * before the variable is updated, so a lambda created inside the body keeps the value of its iteration
+   */
+  private computeFor(block: ScrapFor) {
+    const loopVar = block.getVarDeclaration
+    let iterationEnvironment = new Environment(this.environment)
+    iterationEnvironment.define(loopVar, this.computeExpression(loopVar.getAssignedValue))
+
+    for (let isFirstIteration = true; ; isFirstIteration = false) {
+      const keepIterating = this.runInEnvironment(iterationEnvironment, () => {
+        if (!isFirstIteration)
+          this.computeExpression(block.getValueModifier)
+
+        if (!this.isTruthy(this.computeExpression(block.getExpression)))
+          return false
+
+        return this.computeLoopBody(block, new Environment(iterationEnvironment))
+      })
+
+      if (!keepIterating)
+        break
+
+      const nextEnvironment = new Environment(this.environment)
+      nextEnvironment.define(loopVar, iterationEnvironment.lookup(loopVar) as ScrapValue)
+      iterationEnvironment = nextEnvironment
+    }
+  }
+
+  private computeJump(jump: ScrapJump): never {
+    switch (true) {
+      case jump instanceof ScrapBreak: throw new BreakSignal()
+      case jump instanceof ScrapSkip: throw new SkipSignal()
+      case jump instanceof ScrapReturn: throw new ReturnSignal(this.computeExpression(jump.getReturnValue))
+      case jump instanceof ScrapThrow: {
+        const thrown = this.computeExpression(jump.getThrownValue)
+        this.currentToken = jump.getThrowToken
+
+        throw this.createThrowSignal(thrown)
+      }
+    }
+
+    throw new RuntimeError(`Unknown jump statement '${jump.constructor.name}'`)
+  }
+
+  /**
+   * Executes the `try` body. The errors which are objects of the class handled by the `catch` are bound to the `catch` error variable,
+   * any other error continues to the outer `try`. The `finally` body is always executed
+   */
+  private computeTry(block: ScrapTry) {
+    const catchClause = block.getCatch
+    const finallyBody = block.getFinallyBody
+
+    try {
+      this.computeBlock(block.getBody)
+    } catch (signal) {
+      const caught = this.toThrowSignal(signal)
+
+      if (!(caught instanceof ThrowSignal) || !catchClause)
+        throw caught
+
+      const caughtClass = catchClause.getCaughtClass
+      const thrownClass = caught.getThrown.getClass
+
+      if (thrownClass !== caughtClass && !thrownClass.inheritsFrom(caughtClass))
+        throw caught
+
+      const catchEnvironment = new Environment(this.environment)
+      catchEnvironment.define(catchClause.getErrorVar, caught.getThrown)
+
+      this.computeBlock(catchClause.getBody, catchEnvironment)
+    } finally {
+      if (finallyBody)
+        this.computeBlock(finallyBody)
+    }
+  }
+
+  private computeControlBlock(block: ScrapControlBlock) {
+    switch (true) {
+      case block instanceof ScrapTry: this.computeTry(block); break
+      case block instanceof ScrapIf: this.computeIf(block); break
+      case block instanceof ScrapWhile: this.computeWhile(block); break
+      case block instanceof ScrapForIn: this.computeForIn(block); break
+      case block instanceof ScrapFor: this.computeFor(block); break
+      default:
+        console.warn(`The interpreter can not compute '${block.constructor.name}' yet.`)
+        break
+    }
+  }
+
+  public compute(node: ScrapValue | ScrapEntity | ScrapControlBlock | ScrapJump) {
     if (node instanceof ScrapEntity)
       this.computeEntities(node)
+    else if (node instanceof DefinedFunction && !(node instanceof ScrapLambda))
+      this.environment.define(node, new ScrapClosure(node, this.environment)) // a function declaration
+    else if (node instanceof ScrapControlBlock)
+      this.computeControlBlock(node)
+    else if (node instanceof ScrapJump)
+      this.computeJump(node)
     else
       this.computeExpression(node)
   }
@@ -127,8 +1250,17 @@ export class Interpreter {
       )
 
     //console.log(program)
-    for (const node of program)
-      this.compute(node.getNodeValue)
+    this.runEntryPoint(() => {
+      for (const node of program)
+        this.compute(node.getNodeValue)
+    })
+  }
+
+  /**
+   * Computes a single node parsed after the program started, e.g: a declaration typed in the REPL
+   */
+  public evaluate(node: ScrapValue | ScrapEntity) {
+    this.runEntryPoint(() => this.compute(node))
   }
 
   public get getParser() {
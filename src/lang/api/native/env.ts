@@ -0,0 +1,23 @@
+import stdModule from "@lang/api/native/std.ts"
+import { expectString } from "@lang/api/native/native-utils.ts"
+import { hostPermissions } from "@lang/api/permissions.ts"
+
+import { createEmptyScope } from "@lang/scope.ts"
+import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapNull } from "@lang/elements/values/absence.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+
+const envModule = new ScrapModule("env", createEmptyScope(stdModule.getScope, "env"))
+
+const SCRAP_GETENV_FUNCTION = new ScrapNative("get", 1, (...args: ScrapValue[]) => {
+    const variableName = expectString(args[0], "get")
+    hostPermissions.check("env", variableName)
+
+    const value = Deno.env.get(variableName)
+
+    return value !== undefined ? new ScrapString(value) : new ScrapNull()
+})
+envModule.insert("get", SCRAP_GETENV_FUNCTION, true)
+
+export default envModule
\ No newline at end of file
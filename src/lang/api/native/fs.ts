@@ -0,0 +1,56 @@
+import stdModule from "@lang/api/native/std.ts"
+import { expectString } from "@lang/api/native/native-utils.ts"
+import { hostPermissions } from "@lang/api/permissions.ts"
+
+import { RuntimeError } from "@lang/lang-errors.ts"
+import { createEmptyScope } from "@lang/scope.ts"
+import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { createScrapBoolean } from "@lang/elements/values/booleans.ts"
+
+const fsModule = new ScrapModule("fs", createEmptyScope(stdModule.getScope, "fs"))
+
+/**
+ * Converts the errors of the host file system into errors which can be handled by the program
+ */
+function accessFile<T>(action: string, path: string, access: () => T): T {
+    try {
+        return access()
+    } catch (error) {
+        throw new RuntimeError(`Can not ${action} the file '${path}': ${(error as Error).message}`)
+    }
+}
+
+const SCRAP_READFILE_FUNCTION = new ScrapNative("readFile", 1, (...args: ScrapValue[]) => {
+    const path = expectString(args[0], "readFile")
+    hostPermissions.check("read", path)
+
+    return new ScrapString(accessFile("read", path, () => Deno.readTextFileSync(path)))
+})
+fsModule.insert("readFile", SCRAP_READFILE_FUNCTION, true)
+
+const SCRAP_WRITEFILE_FUNCTION = new ScrapNative("writeFile", 2, (...args: ScrapValue[]) => {
+    const path = expectString(args[0], "writeFile")
+    hostPermissions.check("write", path)
+
+    accessFile("write", path, () => Deno.writeTextFileSync(path, args[1].toString()))
+    return new ScrapUndefined()
+})
+fsModule.insert("writeFile", SCRAP_WRITEFILE_FUNCTION, true)
+
+const SCRAP_EXISTS_FUNCTION = new ScrapNative("exists", 1, (...args: ScrapValue[]) => {
+    const path = expectString(args[0], "exists")
+    hostPermissions.check("read", path)
+
+    try {
+        Deno.statSync(path)
+        return createScrapBoolean(true)
+    } catch {
+        return createScrapBoolean(false)
+    }
+})
+fsModule.insert("exists", SCRAP_EXISTS_FUNCTION, true)
+
+export default fsModule
\ No newline at end of file
@@ -0,0 +1,29 @@
+import stdModule from "@lang/api/native/std.ts"
+
+import { createEmptyScope } from "@lang/scope.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+
+const iterModule = new ScrapModule("iter", createEmptyScope(stdModule.getScope, "iter"))
+
+/**
+ * Describes a class whose objects can be iterated. `iter` does not declare a return data type, so it can return
+ * any collection of the elements
+ *
+ * @example
+ * import { Iterable } from "scrap:iter"
+ *
+ * class Team implements Iterable {
+ *  members: String[] = ["Ana", "Luis"]
+ *
+ *  public fn iter() {
+ *      return this.members
+ *  }
+ * }
+ */
+const SCRAP_ITERABLE_INTERFACE = new ScrapInterface("Iterable", [
+    { name: "iter", kind: "method", params: [], dataType: null }
+])
+iterModule.insert("Iterable", SCRAP_ITERABLE_INTERFACE, true)
+
+export default iterModule
\ No newline at end of file
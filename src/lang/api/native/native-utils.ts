@@ -0,0 +1,34 @@
+import type { Token } from "@lexer/lexer.ts"
+import { RuntimeError } from "@lang/lang-errors.ts"
+import { ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { ScrapInteger } from "@lang/elements/values/numerics.ts"
+
+/**
+ * Gets the text received by a native function, which can not work with other data types
+ * @param functionName Name of the native function, to explain the error
+ */
+export function expectString(arg: ScrapValue, functionName: string): string {
+    if (!(arg instanceof ScrapString))
+        throw new RuntimeError(`'${functionName}' expects a String, but received '${arg.toString()}'`)
+
+    return arg.getValue as string
+}
+
+/**
+ * Gets the integer received by a native function, which can not work with other data types
+ * @param functionName Name of the native function, to explain the error
+ */
+export function expectInteger(arg: ScrapValue, functionName: string): number {
+    if (!(arg instanceof ScrapInteger))
+        throw new RuntimeError(`'${functionName}' expects an integer, but received '${arg.toString()}'`)
+
+    return arg.getValue
+}
+
+/**
+ * Creates a token for the syntax trees which are built here instead of being parsed from a file
+ */
+export function createNativeToken(content: string): Token {
+    return { type: "IdentifierName", content, line: 0, pos: 0 }
+}
\ No newline at end of file
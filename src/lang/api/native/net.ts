@@ -1,25 +1,221 @@
 import stdModule from "@lang/api/native/std.ts"
+import { expectInteger, expectString } from "@lang/api/native/native-utils.ts"
+import { hostPermissions } from "@lang/api/permissions.ts"
+import type { Nullable } from "@typings"
+
+import { RuntimeError } from "@lang/lang-errors.ts"
 import { createEmptyScope } from "@lang/scope.ts"
 import { ScrapModule } from "@lang/elements/entities/modules.ts"
-import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
-import { ScrapInteger } from "@lang/elements/values/numerics.ts";
-import { ScrapString } from "@lang/elements/values/textuals.ts";
+import { ScrapNative, ScrapObject, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { ScrapNull, ScrapUndefined } from "@lang/elements/values/absence.ts"
 
 const netModule = new ScrapModule("net", createEmptyScope(stdModule.getScope, "net"))
 
-const SCRAP_CREATESERVER_FUNCTION = new ScrapNative("createServer", 2, (...args: ScrapValue[]) => {
-    const httpServer = Deno.serve({ port: args[0].getValue as number }, (_req: Request) => new Response(args[1].getValue as string))
+/**
+ * Host where the servers listen when the program does not choose one, which is every network interface
+ */
+const DEFAULT_SERVER_HOSTNAME = "0.0.0.0"
+
+/**
+ * Milliseconds to wait for a network operation (opening a connection, reading or writing) before giving up
+ */
+const NET_TIMEOUT = 10_000
+
+/**
+ * Bytes of the memory shared with a connection worker. The first 8 bytes store the state of the last operation and the count of bytes
+ * placed after them, which are the read bytes or the reason of a failure
+ */
+const SHARED_MEMORY_SIZE = 64 * 1024
+
+/**
+ * Keeps a connection opened in a worker, running the operations which it receives. It writes in the shared memory if the operation
+ * finished (1) or failed (2), and the read bytes (-1 at the end of the connection) or the reason of the failure
+ */
+const CONNECTION_WORKER_SOURCE = `
+let connection = null
+
+self.onmessage = async ({ data: { state, operation, hostname, port, bytes } }) => {
+    const status = new Int32Array(state, 0, 2)
+    const data = new Uint8Array(state, 8)
+
+    try {
+        switch (operation) {
+            case "connect": connection = await Deno.connect({ hostname, port }); break
+            case "write": {
+                for (let written = 0; written < bytes.length;)
+                    written += await connection.write(bytes.subarray(written))
+            } break
+            case "read": {
+                const chunk = new Uint8Array(data.length)
+                const readBytes = await connection.read(chunk)
+
+                data.set(chunk.subarray(0, readBytes ?? 0))
+                Atomics.store(status, 1, readBytes ?? -1)
+            } break
+            case "close": connection.close(); break
+        }
+
+        Atomics.store(status, 0, 1)
+    } catch (error) {
+        const reason = new TextEncoder().encode(error.message).slice(0, data.length)
+        data.set(reason)
+        Atomics.store(status, 1, reason.length)
+        Atomics.store(status, 0, 2)
+    }
+
+    Atomics.notify(status, 0)
+}`
+
+const CONNECTION_WORKER_URL = URL.createObjectURL(new Blob([CONNECTION_WORKER_SOURCE], { type: "application/javascript" }))
+
+/**
+ * A connection opened in a worker. The interpreter runs the programs synchronously, so each operation runs in the worker while
+ * the interpreter is blocked, allowing to report a failed operation as an error which the program can handle
+ */
+class WorkerConnection {
+    private address: string
+    private worker: Worker
+    private state: SharedArrayBuffer
+    private decoder: TextDecoder
+    private isClosed: boolean
+
+    /**
+     * Opens the connection, waiting until it is opened
+     */
+    public constructor(hostname: string, port: number) {
+        this.address = `${hostname}:${port}`
+        this.worker = new Worker(CONNECTION_WORKER_URL, { type: "module" })
+        this.state = new SharedArrayBuffer(SHARED_MEMORY_SIZE)
+        this.decoder = new TextDecoder()
+        this.isClosed = false
+
+        try {
+            this.run(`connect to '${this.address}'`, { operation: "connect", hostname, port })
+        } catch (error) {
+            this.worker.terminate()
+            throw error
+        }
+    }
+
+    /**
+     * Sends an operation to the worker, waiting until it finishes
+     * @param action What the operation does, used to explain its failure
+     * @returns The count of bytes placed in the shared memory
+     */
+    private run(action: string, message: Record<string, unknown>): number {
+        if (this.isClosed)
+            throw new RuntimeError(`Can not ${action}: the connection is closed`)
+
+        const status = new Int32Array(this.state, 0, 2)
+        Atomics.store(status, 0, 0)
+        this.worker.postMessage({ state: this.state, ...message })
+
+        if (Atomics.wait(status, 0, 0, NET_TIMEOUT) === "timed-out")
+            throw new RuntimeError(`Can not ${action}: the connection timed out`)
 
-    return new ScrapValue(httpServer)
+        if (Atomics.load(status, 0) === 2) {
+            const reason = new TextDecoder().decode(new Uint8Array(this.state, 8, Atomics.load(status, 1)).slice())
+            throw new RuntimeError(`Can not ${action}: ${reason}`)
+        }
+
+        return Atomics.load(status, 1)
+    }
+
+    public write(text: string) {
+        this.run(`write to '${this.address}'`, { operation: "write", bytes: new TextEncoder().encode(text) })
+    }
+
+    /**
+     * Reads the next received text, waiting until something is received
+     * @returns The received text, null if the connection was closed by the other side
+     */
+    public read(): Nullable<string> {
+        const readBytes = this.run(`read from '${this.address}'`, { operation: "read" })
+
+        if (readBytes === -1)
+            return null
+
+        // a char can be split between two reads, so the decoder keeps its first bytes until the rest arrives
+        return this.decoder.decode(new Uint8Array(this.state, 8, readBytes).slice(), { stream: true })
+    }
+
+    public close() {
+        if (this.isClosed)
+            return
+
+        try {
+            this.run(`close '${this.address}'`, { operation: "close" })
+        } finally {
+            this.isClosed = true
+            this.worker.terminate()
+        }
+    }
+}
+
+/**
+ * Creates the object which a program uses to talk through a connection
+ */
+function createConnectionObject(connection: WorkerConnection): ScrapObject {
+    const write = new ScrapNative("write", 1, (text: ScrapValue) => {
+        connection.write(expectString(text, "write"))
+        return new ScrapUndefined()
+    })
+
+    const read = new ScrapNative("read", 0, () => {
+        const text = connection.read()
+        return text !== null ? new ScrapString(text) : new ScrapNull()
+    })
+
+    const close = new ScrapNative("close", 0, () => {
+        connection.close()
+        return new ScrapUndefined()
+    })
+
+    return new ScrapObject(null, new Map<string, ScrapValue>([[write.name, write], [read.name, read], [close.name, close]]))
+}
+
+/**
+ * Starts a HTTP server which responds to every request with the same text. The server listens on every network interface
+ * unless a hostname is received
+ *
+ * @example
+ * createServer(8080, "Hello world")
+ * createServer(8080, "Hello world", "127.0.0.1")
+ */
+const SCRAP_CREATESERVER_FUNCTION = new ScrapNative("createServer", true, (...args: ScrapValue[]) => {
+    if (args.length < 2 || args.length > 3)
+        throw new RuntimeError(`'createServer' expects a port, a response and optionally a hostname, but ${args.length} arguments were received`)
+
+    const port = expectInteger(args[0], "createServer")
+    const response = args[1].toString()
+    const hostname = args[2] ? expectString(args[2], "createServer") : DEFAULT_SERVER_HOSTNAME
+    hostPermissions.check("net", `${hostname}:${port}`)
+
+    try {
+        return new ScrapValue(Deno.serve({ hostname, port }, (_req: Request) => new Response(response)))
+    } catch (error) {
+        throw new RuntimeError(`Can not listen on '${hostname}:${port}': ${(error as Error).message}`)
+    }
 })
 netModule.insert("createServer", SCRAP_CREATESERVER_FUNCTION, true)
 
+/**
+ * Opens a TCP connection, waiting until it is opened. The connection is an object which writes and reads text, where `read`
+ * returns `null` once the other side closes the connection
+ *
+ * @example
+ * const connection = connect(8080, "localhost")
+ * connection.write("ping")
+ * console.log(connection.read())
+ * connection.close()
+ */
 const SCRAP_CONNECT_FUNCTION = new ScrapNative("connect", 2, (...args: ScrapValue[]) => {
-    const { 0: port, 1: hostname } = args
-
-    Deno.connect({ port: (port as ScrapInteger).getValue, hostname: (hostname as ScrapString).getValue })
+    const port = expectInteger(args[0], "connect")
+    const hostname = expectString(args[1], "connect")
+    hostPermissions.check("net", `${hostname}:${port}`)
 
-    return new ScrapValue("Here goes an connection object")
+    return createConnectionObject(new WorkerConnection(hostname, port))
 })
 netModule.insert("connect", SCRAP_CONNECT_FUNCTION, true)
 
@@ -0,0 +1,41 @@
+import stdModule from "@lang/api/native/std.ts"
+import { expectString } from "@lang/api/native/native-utils.ts"
+import { hostPermissions } from "@lang/api/permissions.ts"
+
+import { RuntimeError } from "@lang/lang-errors.ts"
+import { createEmptyScope } from "@lang/scope.ts"
+import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+
+const processModule = new ScrapModule("process", createEmptyScope(stdModule.getScope, "process"))
+
+/**
+ * Runs a command and waits until it finishes, returning what the command printed
+ *
+ * @example
+ * run("git", "status", "--short")
+ */
+const SCRAP_RUN_FUNCTION = new ScrapNative("run", true, (...args: ScrapValue[]) => {
+    if (args.length === 0)
+        throw new RuntimeError("'run' expects the command to run")
+
+    const command = expectString(args[0], "run")
+    hostPermissions.check("run", command)
+
+    let output: Deno.CommandOutput
+
+    try {
+        output = new Deno.Command(command, { args: args.slice(1).map(arg => arg.toString()), stdout: "piped", stderr: "piped" }).outputSync()
+    } catch (error) {
+        throw new RuntimeError(`Can not run '${command}': ${(error as Error).message}`)
+    }
+
+    if (!output.success)
+        throw new RuntimeError(`'${command}' finished with code ${output.code}: ${new TextDecoder().decode(output.stderr).trim()}`)
+
+    return new ScrapString(new TextDecoder().decode(output.stdout))
+})
+processModule.insert("run", SCRAP_RUN_FUNCTION, true)
+
+export default processModule
\ No newline at end of file
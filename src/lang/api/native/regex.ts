@@ -0,0 +1,51 @@
+import stdModule from "@lang/api/native/std.ts"
+import { expectString } from "@lang/api/native/native-utils.ts"
+import { RegexSyntaxError, parseRegex } from "@parser/regex-parser.ts"
+
+import { RuntimeError } from "@lang/lang-errors.ts"
+import { createEmptyScope } from "@lang/scope.ts"
+import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapRegExp } from "@lang/elements/values/regexp.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+
+const regexModule = new ScrapModule("regex", createEmptyScope(stdModule.getScope, "regex"))
+
+/**
+ * Creates a regular expression from a pattern known at runtime. Unlike a literal, a wrong pattern is a runtime error
+ *
+ * @example
+ * const word = compile(`\\b${name}\\b`, "i")
+ */
+const SCRAP_COMPILE_FUNCTION = new ScrapNative("compile", true, (...args: ScrapValue[]) => {
+    if (args.length < 1 || args.length > 2)
+        throw new RuntimeError(`'compile' expects a pattern and optional flags, but ${args.length} arguments were received`)
+
+    const pattern = expectString(args[0], "compile")
+    const flags = args[1] !== undefined ? expectString(args[1], "compile") : ""
+
+    try {
+        parseRegex(pattern, flags)
+    } catch (error) {
+        if (error instanceof RegexSyntaxError)
+            throw new RuntimeError(`Invalid regular expression /${pattern}/${flags}: ${error.message}, at position ${error.offset}`)
+
+        throw error
+    }
+
+    return new ScrapRegExp(pattern, flags)
+})
+regexModule.insert("compile", SCRAP_COMPILE_FUNCTION, true)
+
+/**
+ * Escapes the chars of a text which have a special meaning in a pattern, so the text is matched as it is
+ *
+ * @example
+ * compile(escape("1+1=2")).test("1+1=2") // true
+ */
+const SCRAP_ESCAPE_FUNCTION = new ScrapNative("escape", 1, (text: ScrapValue) => {
+    return new ScrapString(expectString(text, "escape").replace(/[\\^$.*+?()[\]{}|/]/g, "\\$&"))
+})
+regexModule.insert("escape", SCRAP_ESCAPE_FUNCTION, true)
+
+export default regexModule
\ No newline at end of file
@@ -12,23 +12,33 @@
  * * --- English --- *
  */
 
-import { createEmptyScope } from "@lang/scope.ts"
+import { Keywords } from "@lexer/lexer.ts"
+import { createNativeToken } from "@lang/api/native/native-utils.ts"
+
+import { Scope, createEmptyScope } from "@lang/scope.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
 import { ScrapModule } from "@lang/elements/entities/modules.ts"
 import { ScrapInteger } from "@lang/elements/values/numerics.ts"
-import { ScrapUndefined } from "@lang/elements/values/absence.ts"
-import { ScrapVariable } from "@lang/elements/entities/variable.ts"
-import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapNull, ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { MemberAssignment, ScrapMemberAccess } from "@lang/elements/values/member.ts"
+import { ScrapVariable, ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
+import { DefinedFunction, ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
 import { ScrapFalse, ScrapTrue } from "@lang/elements/values/booleans.ts"
 
 const stdModule = new ScrapModule("std", createEmptyScope(null, "std"))
 
 const SCRAP_LOG_FUNCTION = new ScrapNative("log", true, (...args: ScrapValue[]) => {
-    const argsValue = args.map(arg => arg.getValue)
+    const argsValue = args.map(arg => arg.toString())
     console.log(...argsValue)
     return new ScrapUndefined()
 })
 stdModule.insert("log", SCRAP_LOG_FUNCTION, true)
 
+const consoleModule = new ScrapModule("console", createEmptyScope(stdModule.getScope, "console"))
+consoleModule.insert("log", SCRAP_LOG_FUNCTION, true)
+stdModule.insert("console", consoleModule, true)
+
 const SCRAP_PARSEINT_FUNCTION = new ScrapNative("parseint", 1, (...args: ScrapValue[]) => {
     return new ScrapInteger(parseInt(args[0].getValue as string))
 })
@@ -36,6 +46,97 @@ const SCRAP_PARSEINT_FUNCTION = new ScrapNative("parseint", 1, (...args: ScrapVa
 stdModule.insert("parseInt", SCRAP_PARSEINT_FUNCTION, true)
 stdModule.insert("true", new ScrapVariable("constant", "true", new ScrapTrue()), true)
 stdModule.insert("false", new ScrapVariable("constant", "false", new ScrapFalse()), true)
-stdModule.insert("null", new ScrapVariable("constant", "null", new ScrapValue(null)), true)
+stdModule.insert("null", new ScrapVariable("constant", "null", new ScrapNull()), true)
+
+/**
+ * Class of the objects which can receive any property. `new Object()` creates an empty object, the same as `{}`
+ */
+export const SCRAP_OBJECT_CLASS = new ScrapClass("Object", [], {}, createEmptyScope(stdModule.getScope, "Object"), false)
+stdModule.insert("Object", SCRAP_OBJECT_CLASS, true)
+
+/**
+ * Creates the constructor of `Error`, which stores the received message. It is the same as:
+ * 
+ * @example
+ * public fn constructor(message: String) {
+ *  this.message = message
+ * }
+ */
+function createErrorConstructor(errorClass: ScrapClass, classScope: Scope): DefinedFunction {
+    const fScope = createEmptyScope(classScope, Keywords.CONSTRUCTOR)
+    const thisVar = new ScrapVariable("constant", Keywords.THIS, new ScrapUndefined())
+    const messageParam = new ScrapVariable("variable", "message", new ScrapUndefined())
+
+    fScope.addEntry(thisVar.name, thisVar)
+    fScope.addEntry(messageParam.name, messageParam)
+
+    const thisAccess = new ScrapVariableAccess(thisVar, createNativeToken(Keywords.THIS))
+    const messageAccess = new ScrapMemberAccess(thisAccess, createNativeToken("message"), errorClass)
+    const body = [new MemberAssignment(messageAccess, new ScrapVariableAccess(messageParam, createNativeToken("message")))]
+
+    return new DefinedFunction(Keywords.CONSTRUCTOR, [{ pName: "message", pType: "String" }], body, fScope, new ScrapUndefined())
+}
+
+/**
+ * Base class of the errors which can be thrown. `stack` is filled with the stack trace the first time the error is thrown
+ * 
+ * @example
+ * class NotFoundError extends Error {
+ *  public fn constructor(resource: String) {
+ *    super("Can not find " + resource)
+ *  }
+ * }
+ */
+function createErrorClass(): ScrapClass {
+    const classScope = createEmptyScope(stdModule.getScope, "Error")
+    const errorClass = new ScrapClass("Error", [], {}, classScope, true)
+
+    const message = new ScrapVariable("variable", "message", new ScrapString(""), "String")
+    const stack = new ScrapVariable("variable", "stack", new ScrapString(""), "String")
+    const constructor = createErrorConstructor(errorClass, classScope)
+
+    for (const entity of [message, stack, constructor]) {
+        errorClass.getEntities.push({ accessor: "public", isStatic: false, canOverride: false, entitiyType: entity })
+        classScope.addEntry(entity.name, entity)
+    }
+
+    return errorClass
+}
+
+/**
+ * Creates a class which extends `Error` without adding members
+ */
+export function createErrorSubclass(name: string, parentClass: ScrapClass): ScrapClass {
+    return new ScrapClass(name, [], { inherits: parentClass }, createEmptyScope(stdModule.getScope, name), false)
+}
+
+export const SCRAP_ERROR_CLASS = createErrorClass()
+
+/**
+ * Checks if the objects of a class can be thrown, which means that the class is `Error` or one of its subclasses
+ */
+export function isErrorClass(checkedClass: ScrapClass): boolean {
+    return checkedClass === SCRAP_ERROR_CLASS || checkedClass.inheritsFrom(SCRAP_ERROR_CLASS)
+}
+
+/**
+ * Errors raised by the interpreter while the program is running, e.g: calling a value which is not a function
+ */
+export const SCRAP_RUNTIME_ERROR_CLASS = createErrorSubclass("RuntimeError", SCRAP_ERROR_CLASS)
+
+/**
+ * Errors raised when a native function needs a capability of the host which was not granted, e.g: reading a file without `--allow-read`
+ */
+export const SCRAP_PERMISSION_DENIED_CLASS = createErrorSubclass("PermissionDenied", SCRAP_ERROR_CLASS)
+
+const SCRAP_TYPE_ERROR_CLASS = createErrorSubclass("TypeError", SCRAP_ERROR_CLASS)
+
+/**
+ * Errors raised when a value is outside of the allowed values, e.g: a recursive function which exceeds the maximum call stack size
+ */
+export const SCRAP_RANGE_ERROR_CLASS = createErrorSubclass("RangeError", SCRAP_ERROR_CLASS)
+
+for (const errorClass of [SCRAP_ERROR_CLASS, SCRAP_RUNTIME_ERROR_CLASS, SCRAP_PERMISSION_DENIED_CLASS, SCRAP_TYPE_ERROR_CLASS, SCRAP_RANGE_ERROR_CLASS])
+    stdModule.insert(errorClass.name, errorClass, true)
 
 export default stdModule
\ No newline at end of file
@@ -1,13 +1,49 @@
 import stdModule from "@lang/api/native/std.ts"
+import { hostPermissions } from "@lang/api/permissions.ts"
 
 import { createEmptyScope } from "@lang/scope.ts"
-import { ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapNative, ScrapObject } from "@lang/elements/commons.ts"
 import { ScrapModule } from "@lang/elements/entities/modules.ts"
 import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { ScrapNull } from "@lang/elements/values/absence.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
 
 const streamModule = new ScrapModule("stream", createEmptyScope(stdModule.getScope, "stream"))
 
-const NATIVE_INSTREAM = new ScrapVariable("constant", "stdin", new ScrapValue(Deno.stdin))
-streamModule.insert(NATIVE_INSTREAM.name, NATIVE_INSTREAM)
+const LINE_FEED = 10
+
+/**
+ * Reads the standard input until the end of the line. Reading the standard input requires read access, without restricting the paths
+ * @returns The line without the line feed, null if the input finished
+ */
+const NATIVE_READLINE = new ScrapNative("readLine", 0, () => {
+    hostPermissions.check("read")
+
+    const bytes: number[] = []
+    const buffer = new Uint8Array(1)
+    let readBytes: number | null
+
+    while ((readBytes = Deno.stdin.readSync(buffer)) !== null && buffer[0] !== LINE_FEED) {
+        if (readBytes > 0)
+            bytes.push(buffer[0])
+    }
+
+    if (readBytes === null && bytes.length === 0)
+        return new ScrapNull()
+
+    return new ScrapString(new TextDecoder().decode(new Uint8Array(bytes)).replace(/\r$/, ""))
+})
+streamModule.insert(NATIVE_READLINE.name, NATIVE_READLINE, true)
+
+/**
+ * The standard input, which only can be read using `readLine`, so the read access is checked
+ *
+ * @deprecated Use `readLine` from "scrap:stream"
+ *
+ * @example
+ * const line = stdin.readLine()
+ */
+const NATIVE_INSTREAM = new ScrapVariable("constant", "stdin", new ScrapObject(null, new Map([[NATIVE_READLINE.name, NATIVE_READLINE]])))
+streamModule.insert(NATIVE_INSTREAM.name, NATIVE_INSTREAM, true)
 
 export default streamModule
\ No newline at end of file
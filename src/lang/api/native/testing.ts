@@ -0,0 +1,40 @@
+import stdModule, { SCRAP_ERROR_CLASS, createErrorSubclass } from "@lang/api/native/std.ts"
+
+import { AssertionError, RuntimeError } from "@lang/lang-errors.ts"
+import { createEmptyScope } from "@lang/scope.ts"
+import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapTrue, ScrapFalse } from "@lang/elements/values/booleans.ts"
+
+const testingModule = new ScrapModule("testing", createEmptyScope(stdModule.getScope, "testing"))
+
+/**
+ * Errors thrown by a false assertion, which the test runner reports as a failed test instead of a test which crashed
+ */
+export const SCRAP_ASSERTION_ERROR_CLASS = createErrorSubclass("AssertionError", SCRAP_ERROR_CLASS)
+testingModule.insert(SCRAP_ASSERTION_ERROR_CLASS.name, SCRAP_ASSERTION_ERROR_CLASS, true)
+
+/**
+ * Makes a test fail if the condition is false. The failure can be explained with a message
+ *
+ * @example
+ * assert(sum(2, 2) == 4, "sum is broken")
+ */
+const SCRAP_ASSERT_FUNCTION = new ScrapNative("assert", true, (...args: ScrapValue[]) => {
+    const [condition, message] = args
+
+    if (args.length < 1 || args.length > 2)
+        throw new RuntimeError(`'assert' expects a condition and an optional message, but ${args.length} arguments were received`)
+
+    if (!(condition instanceof ScrapTrue || condition instanceof ScrapFalse))
+        throw new RuntimeError(`'assert' expects a Boolean condition, but received '${condition.toString()}'`)
+
+    if (condition instanceof ScrapFalse)
+        throw new AssertionError(message !== undefined ? `Assertion failed: ${message.toString()}` : "Assertion failed")
+
+    return new ScrapUndefined()
+})
+testingModule.insert("assert", SCRAP_ASSERT_FUNCTION, true)
+
+export default testingModule
\ No newline at end of file
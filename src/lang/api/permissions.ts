@@ -0,0 +1,194 @@
+import { PermissionDenied } from "@lang/lang-errors.ts"
+
+/**
+ * Capabilities of the host which a ScrapLang program can only use if they are granted
+ */
+export type PermissionName = "read" | "write" | "net" | "env" | "run"
+
+export const PERMISSION_NAMES: PermissionName[] = ["read", "write", "net", "env", "run"]
+
+/**
+ * A permission can be granted for any target, or only for some targets, e.g: `--allow-read=./data,./config`
+ */
+type Grant = "all" | string[]
+
+/**
+ * Converts a path to an absolute path without `.` and `..` segments, following the symbolic links, so the same file is always
+ * identified by the same path and a link placed inside a granted directory can not reach the files outside it.
+ * The segments which do not exist yet (e.g: a file which is going to be written) are kept after the real path of their parent
+ */
+function normalizePath(path: string): string {
+    const absolutePath = path.startsWith("/") ? path : `${Deno.cwd()}/${path}`
+    const segments: string[] = []
+
+    for (const segment of absolutePath.split("/")) {
+        if (segment === "..")
+            segments.pop()
+        else if (segment !== "" && segment !== ".")
+            segments.push(segment)
+    }
+
+    for (let existing = segments.length; existing > 0; existing--) {
+        try {
+            const realPath = Deno.realPathSync(`/${segments.slice(0, existing).join("/")}`)
+            const missing = segments.slice(existing)
+
+            return missing.length > 0 ? `${realPath === "/" ? "" : realPath}/${missing.join("/")}` : realPath
+        } catch {
+            // the path does not exist, so its parent is tried
+        }
+    }
+
+    return `/${segments.join("/")}`
+}
+
+/**
+ * Checks if a granted target includes the requested target. A path includes the files placed inside it,
+ * and a host without port includes every port of the host
+ */
+function includesTarget(permission: PermissionName, granted: string, target: string): boolean {
+    switch (permission) {
+        case "read":
+        case "write": {
+            const grantedPath = normalizePath(granted)
+            const targetPath = normalizePath(target)
+
+            return targetPath === grantedPath || targetPath.startsWith(grantedPath === "/" ? "/" : `${grantedPath}/`)
+        }
+        case "net": return target === granted || target.startsWith(`${granted}:`)
+        default: return target === granted
+    }
+}
+
+/**
+ * Capabilities granted to a ScrapLang program. Every native function which touches the host checks its capability before doing it
+ *
+ * When prompting is enabled (e.g: in the REPL), the user is asked to grant a capability the first time it is needed
+ */
+export class PermissionSet {
+    private grants: Map<PermissionName, Grant>
+    private denials: Map<PermissionName, Grant>
+    private isPrompting: boolean
+
+    public constructor() {
+        this.grants = new Map()
+        this.denials = new Map()
+        this.isPrompting = false
+    }
+
+    /**
+     * @param targets Targets which are granted, any target if they are omitted
+     */
+    public grant(permission: PermissionName, targets?: string[]) {
+        const granted = this.grants.get(permission)
+
+        if (!targets || granted === "all")
+            this.grants.set(permission, "all")
+        else
+            this.grants.set(permission, [...(granted ?? []), ...targets])
+    }
+
+    public grantAll() {
+        PERMISSION_NAMES.forEach(permission => this.grant(permission))
+    }
+
+    public enablePrompt() {
+        this.isPrompting = true
+    }
+
+    public isGranted(permission: PermissionName, target?: string): boolean {
+        const granted = this.grants.get(permission)
+
+        if (granted === "all")
+            return true
+
+        return target !== undefined && (granted ?? []).some(grantedTarget => includesTarget(permission, grantedTarget, target))
+    }
+
+    private isDenied(permission: PermissionName, target?: string): boolean {
+        const denied = this.denials.get(permission)
+
+        return denied === "all" || (target !== undefined && (denied ?? []).includes(target))
+    }
+
+    /**
+     * Asks the user to grant a capability. The answer is remembered, so the user is not asked again for the same target
+     * @returns true if the capability was granted
+     */
+    private ask(permission: PermissionName, target?: string): boolean {
+        const requested = target !== undefined ? `${permission} access to '${target}'` : `${permission} access`
+        const answer = prompt(`Allow ${requested}? [y]es, [a]llow any target, [n]o, [d]eny any target`)?.trim().toLowerCase()
+
+        switch (answer) {
+            case "y":
+            case "yes":
+                this.grant(permission, target !== undefined ? [target] : undefined)
+                return true
+            case "a":
+                this.grant(permission)
+                return true
+            case "d":
+                this.denials.set(permission, "all")
+                return false
+            default: {
+                const denied = this.denials.get(permission)
+
+                if (target !== undefined && denied !== "all")
+                    this.denials.set(permission, [...(denied ?? []), target])
+
+                return false
+            }
+        }
+    }
+
+    /**
+     * Checks that a capability was granted before using it
+     * @param target What is accessed: a path for `read` and `write`, a `host:port` for `net`, a variable for `env` or a command for `run`
+     * @throws {PermissionDenied} If the capability was not granted
+     */
+    public check(permission: PermissionName, target?: string) {
+        if (this.isGranted(permission, target))
+            return
+
+        if (this.isPrompting && !this.isDenied(permission, target) && this.ask(permission, target))
+            return
+
+        throw new PermissionDenied(permission, target)
+    }
+}
+
+/**
+ * Reads the permission flags, which can be followed by a comma separated list of targets
+ *
+ * @example
+ * parsePermissionFlags(["--allow-read=./data", "--allow-net", "main.scrap"]) // read access to ./data, net access to any host
+ * parsePermissionFlags(["--allow-all"]) // every capability is granted, same as `-A`
+ *
+ * @returns The granted permissions and the arguments which are not permission flags
+ */
+export function parsePermissionFlags(args: string[]): { permissions: PermissionSet, rest: string[] } {
+    const permissions = new PermissionSet()
+    const rest: string[] = []
+
+    for (const arg of args) {
+        const match = /^--allow-(read|write|net|env|run)(?:=(.*))?$/.exec(arg)
+
+        if (arg === "--allow-all" || arg === "-A")
+            permissions.grantAll()
+        else if (match)
+            permissions.grant(match[1] as PermissionName, match[2]?.split(",").filter(target => target !== ""))
+        else
+            rest.push(arg)
+    }
+
+    return { permissions, rest }
+}
+
+/**
+ * Permissions of the program which is running, checked by the native modules. Nothing is granted by default
+ */
+export let hostPermissions = new PermissionSet()
+
+export function setHostPermissions(permissions: PermissionSet) {
+    hostPermissions = permissions
+}
\ No newline at end of file
@@ -2,20 +2,29 @@ import { Scope } from "@lang/scope.ts"
 import { Nameable, Primitive, ScrapParam, AllowedBlockEntities, Nullable } from "@typings"
 
 export const BINARY_OPERATORS_PRECEDENCE = {
-    '*': 4,
-    '/': 4,
-    '%': 4,
+    '*': 6,
+    '/': 6,
+    '%': 6,
 
-    '+': 3,
-    '-': 3,
+    '+': 5,
+    '-': 5,
 
 
-    '<': 2,
-    '>': 2,
-    "<=": 2,
-    ">=": 2,
-    "instanceof": 2,
-    "in": 2
+    '<': 4,
+    '>': 4,
+    "<=": 4,
+    ">=": 4,
+    "instanceof": 4,
+    "in": 4,
+
+    "==": 3,
+    "!=": 3,
+    "is": 3,
+    "not": 3, // used as binary operator only in null checks: `value not null`
+
+    "and": 2,
+
+    "or": 1
 }
 
 export class ScrapValue {
@@ -26,7 +35,7 @@ export class ScrapValue {
     }
 
     public get getValue() { return this.value }
-    public toString() { this.value + "" }
+    public toString() { return this.value + "" }
 }
 
 export class ScrapPrimitive extends ScrapValue {    
@@ -57,6 +66,12 @@ export class ScrapObject extends ScrapValue {
     }
 
     public get getValue() { return this.value as Map<string, ScrapValue> }
+
+    public toString() {
+        const keyValuePairs = [...(this.getValue ?? new Map()).entries()].map(([key, value]) => `${key}: ${value}`)
+
+        return keyValuePairs.length > 0 ? `{ ${keyValuePairs.join(", ")} }` : "{}"
+    }
 }
 
 /**
@@ -92,12 +107,15 @@ export class ScrapFunction extends ScrapObject implements Nameable {
         super(null)
         this.name = name
     }
+
+    public toString() { return `fn ${this.name}` }
 }
 
 export class DefinedFunction extends ScrapFunction {
     private params: ScrapParam[]
     private scope: Scope
     private returnExpression: ScrapValue
+    private declaredReturnType: Nullable<string> = null
 
     body: AllowedBlockEntities[]
 
@@ -118,6 +136,12 @@ export class DefinedFunction extends ScrapFunction {
     public get getReturnType() { return this.returnExpression }
 
     public set setReturnType(returnValue: ScrapValue) { this.returnExpression = returnValue }
+
+    /**
+     * Data type written after the parameter list, null if the function does not declare it
+     */
+    public get getDeclaredReturnType() { return this.declaredReturnType }
+    public set setDeclaredReturnType(dataType: Nullable<string>) { this.declaredReturnType = dataType }
     public toString() { return this.name }
 }
 
@@ -1,15 +1,19 @@
-import { ScrapTrue } from "@lang/elements/values/booleans.ts"
-import { ScrapEntity, ScrapValue } from "@lang/elements/commons.ts"
+import { Scope } from "@lang/scope.ts"
+import { AllowedBlockEntities } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
 
 export class ScrapControlBlock {
-    private expression: ScrapTrue
-    private body: (ScrapValue | ScrapEntity)[]
+    private expression: ScrapValue
+    private body: AllowedBlockEntities[]
+    private scope: Scope
 
-    public constructor(expression: ScrapTrue, body: (ScrapValue | ScrapEntity)[]) {
+    public constructor(expression: ScrapValue, body: AllowedBlockEntities[], scope: Scope) {
         this.expression = expression
         this.body = body
+        this.scope = scope
     }
 
     public get getExpression() { return this.expression }
     public get getBody() { return this.body }
+    public get getScope() { return this.scope }
 }
\ No newline at end of file
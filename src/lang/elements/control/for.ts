@@ -1,18 +1,57 @@
-import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
+import { Scope } from "@lang/scope.ts"
+import { AllowedBlockEntities } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
 import { ScrapVariable } from "@lang/elements/entities/variable.ts"
-import { ScrapEntity, ScrapValue } from "@lang/elements/commons.ts"
-import { ScrapTrue } from "@lang/elements/values/booleans.ts"
+import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
 
+/**
+ * Represents a loop which declares a variable, and executes his body while the expression is considered true.
+ * After each iteration, `valueModifier` is computed
+ * 
+ * @example
+ * for (var i = 0; i < 5; i++) {
+ *  std::log(i)
+ * }
+ */
 export class ScrapFor extends ScrapControlBlock {
     private varDeclaration: ScrapVariable
     private valueModifier: ScrapValue
 
-    public constructor(varDeclaration: ScrapVariable, expression: ScrapTrue, valueModifier: ScrapValue, body: (ScrapValue | ScrapEntity)[]) {
-        super(expression, body)
+    public constructor(varDeclaration: ScrapVariable, expression: ScrapValue, valueModifier: ScrapValue, body: AllowedBlockEntities[], scope: Scope) {
+        super(expression, body, scope)
         this.varDeclaration = varDeclaration
         this.valueModifier = valueModifier
     }
 
     public get getVarDeclaration() { return this.varDeclaration }
     public get getValueModifier() { return this.valueModifier }
+}
+
+/**
+ * Represents a loop which assigns to a variable each value of an iterable value, executing his body for each value
+ * 
+ * The iterated values are:
+ *  * The integers of a range
+ *  * The elements of an array
+ *  * The characters of a string
+ *  * The keys of an object
+ * 
+ * @example
+ * for i in 0..5 {
+ *  std::log(i)
+ * }
+ * 
+ * for element of [1, 2, 3] {
+ *  std::log(element)
+ * }
+ */
+export class ScrapForIn extends ScrapControlBlock {
+    private iterationVar: ScrapVariable
+
+    public constructor(iterationVar: ScrapVariable, iterable: ScrapValue, body: AllowedBlockEntities[], scope: Scope) {
+        super(iterable, body, scope)
+        this.iterationVar = iterationVar
+    }
+
+    public get getIterationVar() { return this.iterationVar }
 }
\ No newline at end of file
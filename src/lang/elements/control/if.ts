@@ -1,4 +1,29 @@
+import { Scope } from "@lang/scope.ts"
+import { AllowedBlockEntities, Nullable } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
 import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
 
-export class ScrapIf extends ScrapControlBlock {}
+/**
+ * Represents a conditional block of code. The body is only executed if the expression is considered true
+ * 
+ * `elif` and `else` branches are chained as another `ScrapIf`. An `else` branch is an `ScrapIf` whose expression is always true
+ * 
+ * @example
+ * if (num > 10) {
+ *  std::log("greater")
+ * } elif (num == 10) {
+ *  std::log("equal")
+ * } else {
+ *  std::log("lower")
+ * }
+ */
+export class ScrapIf extends ScrapControlBlock {
+    private elseBranch: Nullable<ScrapIf>
 
+    public constructor(expression: ScrapValue, body: AllowedBlockEntities[], scope: Scope, elseBranch: Nullable<ScrapIf>) {
+        super(expression, body, scope)
+        this.elseBranch = elseBranch
+    }
+
+    public get getElseBranch() { return this.elseBranch }
+}
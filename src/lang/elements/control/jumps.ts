@@ -0,0 +1,79 @@
+import { Token } from "@lexer/lexer.ts"
+import { ScrapValue } from "@lang/elements/commons.ts"
+
+/**
+ * Represents a statement which jumps to other part of the program, stopping the execution of the block where it was placed
+ */
+export class ScrapJump {}
+
+/**
+ * Stops the execution of the nearest loop or `switch`
+ * 
+ * @example
+ * while (true) {
+ *  break
+ * }
+ */
+export class ScrapBreak extends ScrapJump {}
+
+/**
+ * Stops the current iteration of the nearest loop, jumping to the next iteration. Same as `continue` in other languages
+ * 
+ * @example
+ * for element of arr {
+ *  skip if element == 0
+ * 
+ *  std::log(element)
+ * }
+ */
+export class ScrapSkip extends ScrapJump {}
+
+/**
+ * Stops the execution of the function where it was placed, returning a value to the caller.
+ * A `return` without an expression returns `undefined`
+ * 
+ * @example
+ * fn abs(num: i32) {
+ *  return -num if num < 0
+ * 
+ *  return num
+ * }
+ */
+export class ScrapReturn extends ScrapJump {
+    private returnValue: ScrapValue
+    private returnToken: Token
+
+    public constructor(returnValue: ScrapValue, returnToken: Token) {
+        super()
+        this.returnValue = returnValue
+        this.returnToken = returnToken
+    }
+
+    public get getReturnValue() { return this.returnValue }
+    public get getReturnToken() { return this.returnToken }
+}
+
+/**
+ * Raises an error, stopping the execution until a `catch` which handles the error is reached.
+ * Only objects of `Error` or its subclasses can be thrown
+ * 
+ * @example
+ * fn divide(a: i32, b: i32) {
+ *  throw new RangeError("Can not divide by zero") if b == 0
+ * 
+ *  return a / b
+ * }
+ */
+export class ScrapThrow extends ScrapJump {
+    private thrownValue: ScrapValue
+    private throwToken: Token
+
+    public constructor(thrownValue: ScrapValue, throwToken: Token) {
+        super()
+        this.thrownValue = thrownValue
+        this.throwToken = throwToken
+    }
+
+    public get getThrownValue() { return this.thrownValue }
+    public get getThrowToken() { return this.throwToken }
+}
\ No newline at end of file
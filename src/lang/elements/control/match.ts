@@ -0,0 +1,117 @@
+import { Scope } from "@lang/scope.ts"
+import { AllowedBlockEntities, Nullable } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+import { ScrapRange } from "@lang/elements/values/range.ts"
+import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+
+/**
+ * Represents a pattern which is compared with the matched value of a `match`
+ */
+export class ScrapPattern {}
+
+/**
+ * The `_` pattern, which matches any value
+ */
+export class ScrapWildcardPattern extends ScrapPattern {}
+
+/**
+ * Matches the values which are equal to a literal, e.g: `10`, `"ten"` or `true`
+ */
+export class ScrapLiteralPattern extends ScrapPattern {
+    private literal: ScrapValue
+
+    public constructor(literal: ScrapValue) {
+        super()
+        this.literal = literal
+    }
+
+    public get getLiteral() { return this.literal }
+}
+
+/**
+ * Matches the integers which are included in a range, e.g: `0..9`
+ */
+export class ScrapRangePattern extends ScrapPattern {
+    private range: ScrapRange
+
+    public constructor(range: ScrapRange) {
+        super()
+        this.range = range
+    }
+
+    public get getRange() { return this.range }
+}
+
+/**
+ * Matches the values of an enum variant. The associated values of the matched value are bound to `bindings`, a `_` binding ignores its value
+ * 
+ * @example
+ * Color::Custom(r, _, b)
+ */
+export class ScrapVariantPattern extends ScrapPattern {
+    private matchedEnum: ScrapEnum
+    private variantName: string
+    private bindings: Nullable<ScrapVariable>[]
+
+    public constructor(matchedEnum: ScrapEnum, variantName: string, bindings: Nullable<ScrapVariable>[]) {
+        super()
+        this.matchedEnum = matchedEnum
+        this.variantName = variantName
+        this.bindings = bindings
+    }
+
+    public get getEnum() { return this.matchedEnum }
+    public get getVariantName() { return this.variantName }
+    public get getBindings() { return this.bindings }
+}
+
+/**
+ * Represents an arm of a `match`. Its body can be an expression, whose value is the value of the `match`, or a block of code
+ */
+export class ScrapMatchArm {
+    private pattern: ScrapPattern
+    private body: ScrapValue | AllowedBlockEntities[]
+    private scope: Scope
+
+    public constructor(pattern: ScrapPattern, body: ScrapValue | AllowedBlockEntities[], scope: Scope) {
+        this.pattern = pattern
+        this.body = body
+        this.scope = scope
+    }
+
+    public get getPattern() { return this.pattern }
+    public get getBody() { return this.body }
+    public get getScope() { return this.scope }
+}
+
+/**
+ * Represents a `match` expression. The first arm whose pattern matches the value is executed
+ * 
+ * A `match` over an enum must handle every variant, or use a `_` arm
+ * 
+ * A `switch` statement is also represented as a `match`, whose `default` is a `_` arm. A `break` placed inside a `switch` finishes it
+ * 
+ * @example
+ * const name = match color {
+ *  Color::Red -> "red"
+ *  Color::Custom(r, g, b) -> "custom"
+ *  _ -> "other"
+ * }
+ */
+export class ScrapMatch extends ScrapValue {
+    private matched: ScrapValue
+    private arms: ScrapMatchArm[]
+    private isSwitch: boolean
+
+    public constructor(matched: ScrapValue, arms: ScrapMatchArm[], isSwitch: boolean) {
+        super(undefined)
+        this.matched = matched
+        this.arms = arms
+        this.isSwitch = isSwitch
+    }
+
+    public get getMatched() { return this.matched }
+    public get getArms() { return this.arms }
+    public get getIsSwitch() { return this.isSwitch }
+}
\ No newline at end of file
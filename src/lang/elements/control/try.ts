@@ -0,0 +1,59 @@
+import { Scope } from "@lang/scope.ts"
+import { AllowedBlockEntities, Nullable } from "@typings"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
+
+/**
+ * Represents the `catch` of a `try`. It only handles the errors which are objects of `caughtClass` or its subclasses,
+ * which are bound to `errorVar` inside its body
+ */
+export class ScrapCatch {
+    private errorVar: ScrapVariable
+    private caughtClass: ScrapClass
+    private body: AllowedBlockEntities[]
+    private scope: Scope
+
+    public constructor(errorVar: ScrapVariable, caughtClass: ScrapClass, body: AllowedBlockEntities[], scope: Scope) {
+        this.errorVar = errorVar
+        this.caughtClass = caughtClass
+        this.body = body
+        this.scope = scope
+    }
+
+    public get getErrorVar() { return this.errorVar }
+    public get getCaughtClass() { return this.caughtClass }
+    public get getBody() { return this.body }
+    public get getScope() { return this.scope }
+}
+
+/**
+ * Represents a block of code whose errors can be handled by a `catch`. The `finally` block is always executed after the `try` and the `catch`,
+ * even if an error was not handled or a `return` was reached
+ * 
+ * @example
+ * try {
+ *  connect(server)
+ * } catch (err: RuntimeError) {
+ *  console.log(err.message)
+ * } finally {
+ *  close(server)
+ * }
+ */
+export class ScrapTry extends ScrapControlBlock {
+    private catchClause: Nullable<ScrapCatch>
+    private finallyBody: Nullable<AllowedBlockEntities[]>
+
+    public constructor(
+        body: AllowedBlockEntities[], scope: Scope,
+        catchClause: Nullable<ScrapCatch>, finallyBody: Nullable<AllowedBlockEntities[]>
+    ) {
+        super(new ScrapUndefined(), body, scope)
+        this.catchClause = catchClause
+        this.finallyBody = finallyBody
+    }
+
+    public get getCatch() { return this.catchClause }
+    public get getFinallyBody() { return this.finallyBody }
+}
\ No newline at end of file
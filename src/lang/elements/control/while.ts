@@ -1,3 +1,21 @@
 import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
 
-export class ScrapWhile extends ScrapControlBlock {}
\ No newline at end of file
+/**
+ * Represents a loop which executes his body while the expression is considered true
+ * 
+ * @example
+ * while (num < 10) {
+ *  num++
+ * }
+ */
+export class ScrapWhile extends ScrapControlBlock {}
+
+/**
+ * Same as `ScrapWhile`, but the expression is checked after executing the body, so the body is executed at least once
+ * 
+ * @example
+ * do {
+ *  num++
+ * } while (num < 10)
+ */
+export class ScrapDoWhile extends ScrapWhile {}
\ No newline at end of file
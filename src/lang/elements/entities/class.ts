@@ -1,6 +1,7 @@
 import { Scope } from "@lang/scope.ts"
 import { ScrapEntity } from "@lang/elements/commons.ts"
-import { ScrapClassEntityProps } from "@typings"
+import { Nullable, ScrapClassEntityProps } from "@typings"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
 
 /**
  * Represent a class
@@ -15,6 +16,8 @@ import { ScrapClassEntityProps } from "@typings"
  * 
  * A class also can inherit from other, meaning that the class that inherit from other can access to their properties or methods that are not `private`
  * 
+ * A class also can implement one or more interfaces, meaning that it must have the members that the interfaces describes
+ * 
  * @example
  * class MyClass {
  *  id: String
@@ -35,13 +38,13 @@ import { ScrapClassEntityProps } from "@typings"
  */
 export class ScrapClass extends ScrapEntity {
     private entities: ScrapClassEntityProps[]
-    private options: { inherits?: ScrapClass, implements?: string }
+    private options: { inherits?: ScrapClass, implements?: ScrapInterface[] }
     private scope: Scope
     private hasConstructor: boolean
 
     public constructor(
         className: string, entities: ScrapClassEntityProps[],
-        options: { inherits?: ScrapClass, implements?: string }, scope: Scope,
+        options: { inherits?: ScrapClass, implements?: ScrapInterface[] }, scope: Scope,
         hasConstructor: boolean
     ) {
         super(className)
@@ -55,4 +58,75 @@ export class ScrapClass extends ScrapEntity {
     public get getOptions() { return this.options }
     public get getScope() { return this.scope }
     public get getHasConstructor() { return this.hasConstructor }
+
+    public set setHasConstructor(hasConstructor: boolean) { this.hasConstructor = hasConstructor }
+
+    public get getParent(): Nullable<ScrapClass> { return this.options.inherits ?? null }
+    public get getInterfaces(): ScrapInterface[] { return this.options.implements ?? [] }
+
+    /**
+     * Checks if this class extends, directly or through other classes, the class `other`
+     */
+    public inheritsFrom(other: ScrapClass): boolean {
+        const parent = this.getParent
+
+        if (parent === null)
+            return false
+
+        return parent === other || parent.inheritsFrom(other)
+    }
+
+    /**
+     * Searchs a property or a method declared in the class
+     * @param name Name of the property or method
+     * @returns The declaration of the entity and its modifiers, undefined if the class does not declare it
+     */
+    public getEntity(name: string): ScrapClassEntityProps | undefined {
+        return this.entities.find(entity => entity.entitiyType.name === name)
+    }
+
+    /**
+     * Same as `getEntity`, but if the class does not declare the entity, it is searched in the parent classes
+     * @returns The declaration of the entity and the class which declares it, undefined if the entity is not found
+     */
+    public findEntity(name: string): { entity: ScrapClassEntityProps, owner: ScrapClass } | undefined {
+        const entity = this.getEntity(name)
+
+        if (entity)
+            return { entity, owner: this }
+
+        return this.getParent?.findEntity(name)
+    }
+
+    /**
+     * Checks if a member of the objects of this class can be accessed
+     * 
+     * * `public` members can be accessed from anywhere
+     * * `private` members can only be accessed inside the methods of the class which declares them
+     * * `protected` members can also be accessed inside the methods of the subclasses
+     * 
+     * @param name Name of the accessed member
+     * @param accessingClass Class whose method contains the access, null if the access is placed outside of any class
+     * @returns A message which explains why the member can not be accessed, null if it can be accessed
+     */
+    public getAccessError(name: string, accessingClass: Nullable<ScrapClass>): Nullable<string> {
+        const found = this.findEntity(name)
+
+        if (!found)
+            return `'${name}' is not a member of the class '${this.name}'`
+
+        const { entity, owner } = found
+
+        if (entity.accessor === "public" || accessingClass === owner)
+            return null
+
+        if (entity.accessor === "protected") {
+            if (accessingClass?.inheritsFrom(owner))
+                return null
+
+            return `'${name}' is protected, so it can only be accessed inside the class '${owner.name}' and its subclasses`
+        }
+
+        return `'${name}' is private, so it can only be accessed inside the class '${owner.name}'`
+    }
 }
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { ScrapEntity } from "@lang/elements/commons.ts"
+import { ScrapEnumVariant } from "@typings"
+
+/**
+ * Represents an enum, which declares a closed set of variants. A variant can carry associated values, declared like function parameters
+ * 
+ * The variants are accessed using the module accessor `::`
+ * 
+ * @example
+ * enum Color {
+ *  Red,
+ *  Green,
+ *  Custom(r: u8, g: u8, b: u8)
+ * }
+ * 
+ * const red = Color::Red
+ * const purple = Color::Custom(128, 0, 128)
+ */
+export class ScrapEnum extends ScrapEntity {
+    private variants: ScrapEnumVariant[]
+
+    public constructor(name: string, variants: ScrapEnumVariant[]) {
+        super(name)
+        this.variants = variants
+    }
+
+    public get getVariants() { return this.variants }
+
+    public getVariant(name: string): ScrapEnumVariant | undefined {
+        return this.variants.find(variant => variant.name === name)
+    }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { ScrapEntity } from "@lang/elements/commons.ts"
+import { ScrapInterfaceMember } from "@typings"
+
+/**
+ * Represents an interface
+ * 
+ * An interface describes the public members that a class must have, without implementing them.
+ * A class which implements an interface is checked structurally: it must declare (or inherit) every member of the interface
+ * using the same parameters and data types
+ * 
+ * @example
+ * interface Shape {
+ *  fn area(): f64
+ *  name: String
+ * }
+ * 
+ * class Square implements Shape {
+ *  public name: String = "square"
+ *  side: f64 = 2
+ * 
+ *  public fn area(): f64 {
+ *      return this.side * this.side
+ *  }
+ * }
+ */
+export class ScrapInterface extends ScrapEntity {
+    private members: ScrapInterfaceMember[]
+
+    public constructor(name: string, members: ScrapInterfaceMember[]) {
+        super(name)
+        this.members = members
+    }
+
+    public get getMembers() { return this.members }
+}
\ No newline at end of file
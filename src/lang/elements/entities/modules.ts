@@ -35,6 +35,13 @@ export class ScrapModule extends ScrapEntity {
             this.exports.add(value.name)
     }
 
+    /**
+     * Makes accessible from outside the module an entity which is already declared in the module
+     */
+    public export(entityName: string) {
+        this.exports.add(entityName)
+    }
+
     public isExported(entityName: string) {
         return this.exports.has(entityName)
     }
@@ -53,4 +60,19 @@ export class DefinedModule extends ScrapModule {
     }
 
     public get getBody() { return this.body }
+}
+
+/**
+ * Represents an `import` statement. The imported entities are already placed in the scope of the importer while parsing,
+ * but the body of a module declared in a .scrap file must be computed before they can be used
+ */
+export class ScrapImport extends ScrapEntity {
+    private importedModule: ScrapModule
+
+    public constructor(importedModule: ScrapModule) {
+        super(importedModule.name)
+        this.importedModule = importedModule
+    }
+
+    public get getImportedModule() { return this.importedModule }
 }
\ No newline at end of file
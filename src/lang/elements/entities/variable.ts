@@ -1,3 +1,5 @@
+import { Token } from "@lexer/lexer.ts"
+import { Nullable } from "@typings"
 import { ScrapEntity, ScrapValue } from "@lang/elements/commons.ts"
 
 /**
@@ -19,19 +21,55 @@ import { ScrapEntity, ScrapValue } from "@lang/elements/commons.ts"
 export class ScrapVariable extends ScrapEntity {
     private declarationType: "variable" | "constant"
     private assignedValue: ScrapValue
+    private dataType: Nullable<string>
+    private declarationToken: Nullable<Token>
 
+    /**
+     * @param declarationToken Token of the name of the variable, used to show where the variable is declared in the errors found before running
+     */
     public constructor(
         declarationType: "variable" | "constant", name: string,
-        assignedValue: ScrapValue
+        assignedValue: ScrapValue, dataType?: Nullable<string>, declarationToken?: Nullable<Token>
     ) {
         super(name)
         this.declarationType = declarationType
         this.assignedValue = assignedValue
+        this.dataType = dataType ?? null
+        this.declarationToken = declarationToken ?? null
     }
 
     public get getVariableType() { return this.declarationType }
 
+    /**
+     * Data type written in the declaration, null if the declaration does not have one
+     */
+    public get getDataType() { return this.dataType }
+
+    public get getDeclarationToken() { return this.declarationToken }
+
     public get getAssignedValue() { return this.assignedValue }
 
     public set setAssignedValue(newValue: ScrapValue) { this.assignedValue = newValue }
+}
+
+/**
+ * Represents the read of a variable (or constant) value.
+ * 
+ * The value is not resolved while parsing, since the value which a variable points can change over the program execution
+ * 
+ * @example
+ * var myNumber = 10
+ * 
+ * const myOtherNumber = myNumber + 20 // `myNumber` is readed when the program reachs this line
+ */
+export class ScrapVariableAccess extends ScrapValue {
+    private accessToken: Token
+
+    public constructor(accessedVariable: ScrapVariable, accessToken: Token) {
+        super(accessedVariable)
+        this.accessToken = accessToken
+    }
+
+    public get getAccessedVariable() { return this.value as ScrapVariable }
+    public get getAccessToken() { return this.accessToken }
 }
\ No newline at end of file
@@ -1,5 +1,4 @@
 import { ScrapValue } from "@lang/elements/commons.ts"
-import { ScrapInteger } from "@lang/elements/values/numerics.ts"
 
 /**
  * Represent an array. Which is an allocated space where can store values
@@ -13,15 +12,25 @@ export class ScrapArray<T> extends ScrapValue {
     }
 
     public get getValue() { return this.value as T[] }
+
+    public toString() { return `[${this.getValue.join(", ")}]` }
 }
 
+/**
+ * Represents the access to an element of an array. Both, the array and the position are expressions computed at runtime
+ * 
+ * @example
+ * const numbers = [10, 20, 30]
+ * 
+ * numbers[1] // 20
+ */
 export class ScrapArrayAccess extends ScrapValue {
 
-    private accessedPosition: ScrapInteger
-    private accessedArray: ScrapArray<ScrapValue>
+    private accessedPosition: ScrapValue
+    private accessedArray: ScrapValue
 
 
-    public constructor(accessedArray: ScrapArray<ScrapValue>, accessedPosition: ScrapInteger) {
+    public constructor(accessedArray: ScrapValue, accessedPosition: ScrapValue) {
         super(undefined)
         this.accessedArray = accessedArray
         this.accessedPosition = accessedPosition
@@ -20,4 +20,8 @@ export class BinaryExpression extends ScrapValue {
         this.rhs = rhs
         this.operator = operator
     }
+
+    public get getLhs() { return this.lhs }
+    public get getRhs() { return this.rhs }
+    public get getOperator() { return this.operator }
 }
\ No newline at end of file
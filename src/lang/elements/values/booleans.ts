@@ -22,4 +22,13 @@ export class ScrapFalse extends ScrapPrimitive {
     public get getValue() { return this.value as false }
 }
 
+/**
+ * Creates the ScrapLang boolean which corresponds to a native boolean
+ * @param value Native boolean value
+ * @returns `ScrapTrue` if `value` is true, `ScrapFalse` otherwise
+ */
+export function createScrapBoolean(value: boolean): ScrapTrue | ScrapFalse {
+    return value ? new ScrapTrue() : new ScrapFalse()
+}
+
 export class TernaryExpression extends ScrapValue {}
\ No newline at end of file
@@ -1,21 +1,30 @@
-import { ScrapFunction, ScrapValue } from "@lang/elements/commons.ts"
+import { Token } from "@lexer/lexer.ts"
+import { Nullable } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
 
 /**
  * Represents the call to a function
  */
 export class ScrapCall extends ScrapValue {
     private caller: string
-    private called: ScrapFunction
+    private called: ScrapValue
     private args: ScrapValue[]
+    private callToken: Nullable<Token>
 
-    public constructor(caller: string, called: ScrapFunction, args: ScrapValue[]) {
+    /**
+     * @param called The called function, or an expression whose value is a function, like a variable which stores a lambda
+     * @param callToken Token where the call is placed, used to show where the call happens in the stack traces
+     */
+    public constructor(caller: string, called: ScrapValue, args: ScrapValue[], callToken?: Nullable<Token>) {
         super(undefined)
         this.caller = caller
         this.called = called
         this.args = args
+        this.callToken = callToken ?? null
     }
 
     public get getCaller() { return this.caller }
     public get getCalled() { return this.called }
     public get getArgs() { return this.args }
+    public get getCallToken() { return this.callToken }
 }
\ No newline at end of file
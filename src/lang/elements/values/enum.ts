@@ -0,0 +1,53 @@
+import { ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+
+/**
+ * Represents the access to a variant of an enum, which creates a value of the enum when it is computed
+ * 
+ * @example
+ * Color::Red
+ * Color::Custom(255, 0, 0)
+ */
+export class ScrapVariantAccess extends ScrapValue {
+    private accessedEnum: ScrapEnum
+    private variantName: string
+    private args: ScrapValue[]
+
+    public constructor(accessedEnum: ScrapEnum, variantName: string, args: ScrapValue[]) {
+        super(undefined)
+        this.accessedEnum = accessedEnum
+        this.variantName = variantName
+        this.args = args
+    }
+
+    public get getEnum() { return this.accessedEnum }
+    public get getVariantName() { return this.variantName }
+    public get getArgs() { return this.args }
+}
+
+/**
+ * Represents a value of an enum, created while the program is running. It stores the computed associated values of its variant
+ */
+export class ScrapEnumValue extends ScrapValue {
+    private valueOf: ScrapEnum
+    private variantName: string
+
+    public constructor(valueOf: ScrapEnum, variantName: string, associatedValues: ScrapValue[]) {
+        super(associatedValues)
+        this.valueOf = valueOf
+        this.variantName = variantName
+    }
+
+    public get getEnum() { return this.valueOf }
+    public get getVariantName() { return this.variantName }
+    public get getAssociatedValues() { return this.value as ScrapValue[] }
+
+    public toString(): string {
+        const variant = `${this.valueOf.name}::${this.variantName}`
+
+        if (this.getAssociatedValues.length === 0)
+            return variant
+
+        return `${variant}(${this.getAssociatedValues.map(value => value.toString()).join(", ")})`
+    }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { Token } from "@lexer/lexer.ts"
+import { Nullable } from "@typings"
+import { ScrapObject, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
+
+/**
+ * Represents the creation of an object using a class as pattern. The constructor of the class is called with the received arguments
+ * 
+ * @example
+ * const juan = new Person("Juan", 30)
+ */
+export class ScrapNew extends ScrapValue {
+    private instantiatedClass: ScrapClass
+    private args: ScrapValue[]
+    private newToken: Nullable<Token>
+
+    public constructor(instantiatedClass: ScrapClass, args: ScrapValue[], newToken?: Nullable<Token>) {
+        super(undefined)
+        this.instantiatedClass = instantiatedClass
+        this.args = args
+        this.newToken = newToken ?? null
+    }
+
+    public get getInstantiatedClass() { return this.instantiatedClass }
+    public get getArgs() { return this.args }
+    public get getNewToken() { return this.newToken }
+}
+
+/**
+ * Represents the parent class of the class whose method contains `super`. Used to call the parent constructor or the parent version of a method
+ * 
+ * @example
+ * public fn constructor(name: String) {
+ *  super(name)
+ * }
+ * 
+ * public override fn describe() {
+ *  return super.describe() + " and more"
+ * }
+ */
+export class ScrapSuper extends ScrapValue {
+    private parentClass: ScrapClass
+    private thisAccess: ScrapVariableAccess
+
+    /**
+     * @param thisAccess Access to `this`, which is the object used to call the parent methods
+     */
+    public constructor(parentClass: ScrapClass, thisAccess: ScrapVariableAccess) {
+        super(undefined)
+        this.parentClass = parentClass
+        this.thisAccess = thisAccess
+    }
+
+    public get getParentClass() { return this.parentClass }
+    public get getThisAccess() { return this.thisAccess }
+}
+
+/**
+ * Represents an object created using `new`. Its properties are the variables declared in the class,
+ * and its methods are searched in the class when they are accessed
+ */
+export class ScrapInstance extends ScrapObject {
+    private instanceOf: ScrapClass
+
+    public constructor(instanceOf: ScrapClass, properties: Map<string, ScrapValue>) {
+        super(null, properties)
+        this.instanceOf = instanceOf
+    }
+
+    public get getClass() { return this.instanceOf }
+
+    public toString() { return `${this.instanceOf.name} ${super.toString()}` }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Scope } from "@lang/scope.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { DefinedFunction } from "@lang/elements/commons.ts"
+import { AllowedBlockEntities, ScrapParam } from "@typings"
+
+/**
+ * Represents an anonymous function, which is a value that can be stored in variables, arrays or passed as argument.
+ * 
+ * A lambda can access the variables of the blocks where it was created, even after that blocks have ended
+ * 
+ * @example
+ * const double = fn (x: i32) -> x * 2
+ * 
+ * const greet = fn (name: string) {
+ *  console.log("Hello " + name)
+ * }
+ */
+export class ScrapLambda extends DefinedFunction {
+    public constructor(params: ScrapParam[], body: AllowedBlockEntities[], scope: Scope) {
+        super("lambda", params, body, scope, new ScrapUndefined())
+    }
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Token } from "@lexer/lexer.ts"
+import { Nullable } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapArrayAccess } from "@lang/elements/values/array.ts"
+
+/**
+ * Represents the access to a member of an object, which can be a property or a method
+ * 
+ * @example
+ * person.name
+ * person.greet() // the accessed method is called
+ */
+export class ScrapMemberAccess extends ScrapValue {
+    private object: ScrapValue
+    private memberToken: Token
+    private accessingClass: Nullable<ScrapClass>
+
+    /**
+     * @param accessingClass Class whose methods contains the access, used to check if private and protected members can be accessed
+     */
+    public constructor(object: ScrapValue, memberToken: Token, accessingClass: Nullable<ScrapClass>) {
+        super(undefined)
+        this.object = object
+        this.memberToken = memberToken
+        this.accessingClass = accessingClass
+    }
+
+    public get getObject() { return this.object }
+    public get getMemberName() { return this.memberToken.content }
+    public get getMemberToken() { return this.memberToken }
+    public get getAccessingClass() { return this.accessingClass }
+}
+
+/**
+ * Represents the assignment of a value to a property of an object, or to an element of an array. This assignment returns the assigned value
+ * 
+ * @example
+ * this.name = name
+ * person["age"] = 30
+ * numbers[0] = 10
+ * this.count += 1
+ */
+export class MemberAssignment extends ScrapValue {
+    private target: ScrapMemberAccess | ScrapArrayAccess
+    private operator: Nullable<string>
+
+    /**
+     * @param operator Operator of a compound assignment, e.g: `+` for `+=`, which is applied to the current value and the new value.
+     * The object which contains the member is computed once, for reading and for writing
+     */
+    public constructor(target: ScrapMemberAccess | ScrapArrayAccess, newValue: ScrapValue, operator?: Nullable<string>) {
+        super(newValue)
+        this.target = target
+        this.operator = operator ?? null
+    }
+
+    public get getTarget() { return this.target }
+    public get getNewValue() { return this.value as ScrapValue }
+    public get getOperator() { return this.operator }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Nullable } from "@typings"
+import { ScrapValue } from "@lang/elements/commons.ts"
+
+/**
+ * Represent a range of integers, which goes from `start` to `end` jumping `step` by `step`
+ * 
+ * A range declared with `..` includes `end`, and a range declared with `...` excludes it
+ * 
+ * @example
+ * 0..5 // 0, 1, 2, 3, 4, 5
+ * 
+ * 0...5 // 0, 1, 2, 3, 4
+ * 
+ * 0..10 step 5 // 0, 5, 10
+ */
+export class ScrapRange extends ScrapValue {
+    private start: ScrapValue
+    private end: ScrapValue
+    private step: Nullable<ScrapValue>
+    private isInclusive: boolean
+
+    public constructor(start: ScrapValue, end: ScrapValue, step: Nullable<ScrapValue>, isInclusive: boolean) {
+        super(undefined)
+        this.start = start
+        this.end = end
+        this.step = step
+        this.isInclusive = isInclusive
+    }
+
+    public get getStart() { return this.start }
+    public get getEnd() { return this.end }
+    public get getStep() { return this.step }
+    public get getIsInclusive() { return this.isInclusive }
+}
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { Token } from "@lexer/lexer.ts"
 import { ScrapValue } from "@lang/elements/commons.ts"
 import { ScrapVariable } from "@lang/elements/entities/variable.ts"
 
@@ -13,11 +14,17 @@ import { ScrapVariable } from "@lang/elements/entities/variable.ts"
  */
 export class ReassignmentExpression extends ScrapValue {
     private target: ScrapVariable
+    private assignmentToken: Token
 
-    public constructor(target: ScrapVariable, newValue: ScrapValue) {
+    /**
+     * @param assignmentToken The assignment operator, e.g: `=`, `+=` or `++`, used to show where the assignment is placed
+     */
+    public constructor(target: ScrapVariable, newValue: ScrapValue, assignmentToken: Token) {
         super(newValue)
         this.target = target
+        this.assignmentToken = assignmentToken
     }
 
     public get getTarget() { return this.target }
+    public get getAssignmentToken() { return this.assignmentToken }
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { expectString } from "@lang/api/native/native-utils.ts"
+
+import { ScrapNative, ScrapObject, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapArray } from "@lang/elements/values/array.ts"
+import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { ScrapNull, ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { createScrapBoolean } from "@lang/elements/values/booleans.ts"
+
+/**
+ * Converts a match to an array with the matched text followed by the text matched by each group
+ */
+function toScrapMatch(match: RegExpMatchArray): ScrapArray<ScrapValue> {
+    return new ScrapArray(match.map(text => text !== undefined ? new ScrapString(text) : new ScrapUndefined()))
+}
+
+/**
+ * Represents a regular expression. Its pattern was already checked, when the literal was parsed or when it was compiled using `scrap:regex`
+ *
+ * The methods receive the text where the pattern is searched. They do not keep state between calls, so the global flag (`g`) only
+ * changes if `match` and `replace` work with the first occurrence or with all of them
+ *
+ * @example
+ * const words = /\s+/.split("Hello   World") // ["Hello", "World"]
+ */
+export class ScrapRegExp extends ScrapObject {
+    private readonly source: string
+    private readonly flags: string
+
+    public constructor(source: string, flags: string) {
+        super(null, new Map())
+        this.source = source
+        this.flags = flags
+
+        this.getValue.set("source", new ScrapString(source))
+        this.getValue.set("flags", new ScrapString(flags))
+
+        this.getValue.set("test", new ScrapNative("test", 1, (text: ScrapValue) => {
+            return createScrapBoolean(this.createRegExp().test(expectString(text, "test")))
+        }))
+
+        this.getValue.set("match", new ScrapNative("match", 1, (text: ScrapValue) => {
+            const input = expectString(text, "match")
+
+            if (this.flags.includes("g")) {
+                const matches = input.match(this.createRegExp())
+                return matches !== null ? new ScrapArray(matches.map(match => new ScrapString(match))) : new ScrapNull()
+            }
+
+            const match = this.createRegExp().exec(input)
+            return match !== null ? toScrapMatch(match) : new ScrapNull()
+        }))
+
+        this.getValue.set("matchAll", new ScrapNative("matchAll", 1, (text: ScrapValue) => {
+            const matches = expectString(text, "matchAll").matchAll(this.createRegExp("g"))
+            return new ScrapArray([...matches].map(toScrapMatch))
+        }))
+
+        this.getValue.set("replace", new ScrapNative("replace", 2, (text: ScrapValue, replacement: ScrapValue) => {
+            return new ScrapString(expectString(text, "replace").replace(this.createRegExp(), expectString(replacement, "replace")))
+        }))
+
+        this.getValue.set("split", new ScrapNative("split", 1, (text: ScrapValue) => {
+            return new ScrapArray(expectString(text, "split").split(this.createRegExp()).map(chunk => new ScrapString(chunk ?? "")))
+        }))
+    }
+
+    public get getSource() { return this.source }
+    public get getFlags() { return this.flags }
+
+    /**
+     * Creates a new JavaScript regular expression each time, so the matches of a call do not depend on the previous calls
+     * @param extraFlag Flag required by the operation, e.g: `matchAll` needs the global flag
+     */
+    private createRegExp(extraFlag = ""): RegExp {
+        return new RegExp(this.source, this.flags.includes(extraFlag) ? this.flags : this.flags + extraFlag)
+    }
+
+    public toString() { return `/${this.source}/${this.flags}` }
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { ScrapPrimitive } from "@lang/elements/commons.ts"
+import { ScrapPrimitive, ScrapValue } from "@lang/elements/commons.ts"
 
 /**
  * Represent a char value. Which is a value that stores a single character and require 1 byte
@@ -17,6 +17,8 @@ export class ScrapChar extends ScrapPrimitive {
 /**
  * Represents a String. Which is an array of characters
  * 
+ * Its length is the number of Unicode code points, so a character outside the Basic Multilingual Plane (e.g: '😀') is counted once
+ * 
  * @example
  * const myString = "Hello, World!"
  */
@@ -26,9 +28,32 @@ export class ScrapString extends ScrapPrimitive {
 
     public constructor(literal: string) {
         super(literal)
-        this.length = literal.length
+        this.length = [...literal].length
         this.size = new Blob([literal]).size
     }
 
     public get getValue() { return this.value as string }
+}
+
+/**
+ * Represents a template string. Its embedded expressions are computed and converted to strings each time the template is computed
+ * 
+ * @example
+ * const greeting = `Hello ${user.name}, you are ${age + 1}`
+ */
+export class ScrapTemplate extends ScrapValue {
+    private chunks: string[]
+    private expressions: ScrapValue[]
+
+    /**
+     * @param chunks Text placed around the embedded expressions, so there is a chunk more than expressions
+     */
+    public constructor(chunks: string[], expressions: ScrapValue[]) {
+        super(undefined)
+        this.chunks = chunks
+        this.expressions = expressions
+    }
+
+    public get getChunks() { return this.chunks }
+    public get getExpressions() { return this.expressions }
 }
\ No newline at end of file
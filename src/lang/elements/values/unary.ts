@@ -0,0 +1,24 @@
+import { ScrapValue } from "@lang/elements/commons.ts"
+
+/**
+ * Represent an unary expression.
+ * Is the combination of two elements: an Expression and a operator which is applied to that operand
+ * 
+ * @example
+ * const negative = -10
+ * 
+ * const isNotValid = not isValid
+ */
+export class UnaryExpression extends ScrapValue {
+    private operand: ScrapValue
+    private operator: string
+
+    public constructor(operand: ScrapValue, operator: string) {
+        super(undefined)
+        this.operand = operand
+        this.operator = operator
+    }
+
+    public get getOperand() { return this.operand }
+    public get getOperator() { return this.operator }
+}
@@ -0,0 +1,133 @@
+import type { Nullable } from "@typings"
+import { DefinedFunction, ScrapFunction, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapReference } from "@lang/elements/values/reference.ts"
+import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+
+/**
+ * Declarations whose value is stored in an environment. Functions are stored as well, since they remember where they were declared
+ */
+type Binding = ScrapVariable | DefinedFunction
+
+/**
+ * Stores the values of the variables while the program is running
+ *
+ * A `Scope` is created at parse time and only knows which variables are declared in a block of code.
+ * An `Environment` is created each time a function is called or a block of code is executed,
+ * so two calls to the same function (e.g: a recursive function) do not share their variables
+ *
+ * The values are bound to the `ScrapVariable` (or `DefinedFunction`) declaration found by the parser, instead of the variable name
+ */
+export class Environment {
+    private parentEnvironment: Nullable<Environment>
+    private bindings: Map<Binding, ScrapValue>
+
+    public constructor(parentEnvironment: Nullable<Environment>) {
+        this.parentEnvironment = parentEnvironment
+        this.bindings = new Map()
+    }
+
+    /**
+     * Binds a value to a variable declared in `this` environment
+     * @param variable Declaration of the variable
+     * @param value Computed value of the variable
+     */
+    public define(variable: Binding, value: ScrapValue) {
+        this.bindings.set(variable, value)
+    }
+
+    /**
+     * Searchs the environment, in `this` environment or his parents, where a variable was defined
+     * @param variable Declaration of the variable
+     * @returns The environment where the variable was defined, null if it was never defined
+     */
+    public resolve(variable: Binding): Nullable<Environment> {
+        if (this.bindings.has(variable))
+            return this
+
+        if (this.parentEnvironment !== null)
+            return this.parentEnvironment.resolve(variable)
+
+        return null
+    }
+
+    /**
+     * Gets the value bound to a variable in `this` environment or parents environments of `this`
+     * @param variable Declaration of the variable
+     * @returns The value of the variable, undefined if it was never defined
+     */
+    public lookup(variable: Binding): ScrapValue | undefined {
+        return this.resolve(variable)?.bindings.get(variable)
+    }
+
+    /**
+     * Changes the value of an already defined variable
+     * @param variable Declaration of the variable
+     * @param value The new value of the variable
+     * @returns false if the variable was never defined, true otherwise
+     */
+    public assign(variable: Binding, value: ScrapValue): boolean {
+        const environment = this.resolve(variable)
+
+        if (environment === null)
+            return false
+
+        environment.bindings.set(variable, value)
+        return true
+    }
+
+    public get getParentEnvironment() { return this.parentEnvironment }
+}
+
+/**
+ * A reference created while the program is running.
+ *
+ * It remembers the environment where the referenced variable was defined,
+ * so reads and writes through the reference reach the same binding even when it is used from other function
+ *
+ * @example
+ * fn setTen(num: i32) {
+ *   num = 10
+ * }
+ *
+ * var myNumber = 20
+ * setTen(&myNumber) // now `myNumber` value is 10
+ */
+export class ScrapBoundReference extends ScrapReference {
+    private environment: Nullable<Environment>
+
+    public constructor(referenceTo: ScrapVariable, environment: Nullable<Environment>) {
+        super(referenceTo)
+        this.environment = environment
+    }
+
+    public get getEnvironment() { return this.environment }
+}
+
+/**
+ * A function created while the program is running, which remembers the environment where it was declared.
+ * 
+ * Since the environment is shared, the variables are captured by reference: changes made inside the function are visible outside it, and vice versa
+ * 
+ * @example
+ * fn makeCounter() {
+ *  var count = 0
+ * 
+ *  return fn () {
+ *      count++
+ *      return count
+ *  }
+ * }
+ */
+export class ScrapClosure extends ScrapFunction {
+    private definedFunction: DefinedFunction
+    private environment: Environment
+
+    public constructor(definedFunction: DefinedFunction, environment: Environment) {
+        super(definedFunction.name)
+        this.definedFunction = definedFunction
+        this.environment = environment
+    }
+
+    public get getFunction() { return this.definedFunction }
+    public get getEnvironment() { return this.environment }
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { ScrapClass } from "@lang/elements/entities/class.ts"
+
 export class CompilationError extends Error {
     public constructor(message: string) {
         super(message)
@@ -5,9 +7,61 @@ export class CompilationError extends Error {
     }
 }
 
+/**
+ * Thrown when the data types of a program are wrong, before the program runs. It contains all the errors found by the type checker
+ */
+export class TypeCheckError extends CompilationError {
+    public constructor(errors: string[]) {
+        super(errors.join("\n"))
+        super.name = "TypeCheckError"
+    }
+}
+
 export class RuntimeError extends Error {
     public constructor(message: string) {
         super(message)
         super.name = "RuntimeError"
     }
+}
+
+/**
+ * Thrown when a native function needs a capability of the host which was not granted to the program
+ */
+export class PermissionDenied extends RuntimeError {
+    public constructor(permission: string, target?: string) {
+        const requested = target !== undefined ? `${permission} access to '${target}'` : `${permission} access`
+
+        super(`Requires ${requested}, run again with the --allow-${permission} flag`)
+        super.name = "PermissionDenied"
+    }
+}
+
+/**
+ * Thrown when an assertion of a test is false
+ */
+export class AssertionError extends RuntimeError {
+    public constructor(message: string) {
+        super(message)
+        super.name = "AssertionError"
+    }
+}
+
+/**
+ * Thrown when an error raised by a ScrapLang program is not catched.
+ * Its stack is the ScrapLang stack trace, since the stack of the interpreter is meaningless for the program
+ */
+export class UncaughtError extends Error {
+    private thrownClass: ScrapClass
+
+    public constructor(message: string, scrapStackTrace: string, thrownClass: ScrapClass) {
+        super(message)
+        super.name = "UncaughtError"
+        this.stack = `${message}\n${scrapStackTrace}`
+        this.thrownClass = thrownClass
+    }
+
+    /**
+     * Class of the ScrapLang error which was not catched
+     */
+    public get getThrownClass() { return this.thrownClass }
 }
\ No newline at end of file
@@ -1,10 +1,13 @@
 import Lexer from "./lexer.ts"
 
 export default class LexingError extends Error {
-    public constructor(lexer: Lexer, message: string) {
+    /**
+     * @param position Where the error is placed, the current position of the lexer by default
+     */
+    public constructor(lexer: Lexer, message: string, position: number = lexer.cursor.pos) {
         super(
             `
-            Error lexing the file ${lexer.fileName} at line: ${lexer.line}, cursor position: ${lexer.cursor.pos}
+            Error lexing the file ${lexer.fileName} at line: ${lexer.line}, cursor position: ${position}
             ${message}
             `
         )
@@ -7,6 +7,7 @@
  * If Lexer founds a keyword or another token that is invalid, will throw an error
  */
 
+import type { Nullable } from "../typings.ts"
 import { isAlpha, isNumeric, isAlphaNum, isSpace, isHexadecimal, inArray } from "../utils.ts"
 
 import LexingError from "./lexer-error.ts"
@@ -23,6 +24,10 @@ export type TokenType = |
   "CharLiteral"         |
   "StringLiteral"       |
   "TemplateString"      |
+  "TemplateHead"        |
+  "TemplateMiddle"      |
+  "TemplateTail"        |
+  "RegexLiteral"        |
   "Keyword"             |
   "Operator"            |
   "Token"
@@ -57,13 +62,19 @@ export enum Tokens {
 
   // Spacials Tokens (e.g: module accessor)
   MODULE_ACCESSOR = "::",
+  ARROW           = "->",
   INCREMENT       = "++",
   DECREMENT       = "--",
 
   ADD_ASSIGN      = "+=",
   MINUS_ASSIGN    = "-=",
   MULT_ASSIGN     = "*=",
-  DIV_ASSIGN      = "/="
+  DIV_ASSIGN      = "/=",
+
+  EQUALS          = "==",
+  NOT_EQUALS      = "!=",
+  LESS_EQUAL      = "<=",
+  GREATER_EQUAL   = ">="
 }
 
 export enum Keywords {
@@ -102,6 +113,8 @@ export enum Keywords {
   NOT         = "not",
   TRY         = "try",
   CATCH       = "catch",
+  FINALLY     = "finally",
+  THROW       = "throw",
   AS          = "as",
   CONSTRUCTOR = "constructor",
   DESTRUCTOR  = "destructor",
@@ -115,20 +128,83 @@ export enum Keywords {
   SETTER      = "setter",
   GETTER      = "getter",
   ASYNC       = "async",
-  AWAIT       = "await"
+  AWAIT       = "await",
+  IS          = "is"
 }
 
 export interface Token {
   type: TokenType,
   content: string,
   pos: number,
-  line: number
+  line: number,
+
+  /**
+   * Text of the doc comment placed before the token, e.g: the description of the function declared by a `fn` token.
+   * Doc comments are not tokens, they are kept as trivia of the next token so the tooling can read them
+   */
+  docComment?: string
+}
+
+/**
+ * Removes the decoration of a doc comment: the star which opens it and the stars placed at the start of each line
+ * 
+ * @example
+ * cleanDocComment("*\n * Adds two numbers\n * @param a First number\n ") // "Adds two numbers\n@param a First number"
+ */
+function cleanDocComment(text: string): string {
+  return text
+    .replace(/^\*/, "")
+    .split("\n")
+    .map(line => line.replace(/^\s*\*?\s?/, "").trimEnd())
+    .join("\n")
+    .trim()
+}
+
+const MAX_CODE_POINT = 0x10FFFF
+
+/**
+ * Escape sequences which are replaced by a single char, e.g: `\n` is a new line
+ */
+const SIMPLE_ESCAPE_SEQUENCES: Record<string, string> = {
+  'n': '\n',
+  't': '\t',
+  'r': '\r',
+  'b': '\b',
+  'f': '\f',
+  'v': '\v',
+  '0': '\0',
+  '\\': '\\',
+  '"': '"',
+  '\'': '\'',
+  '`': '`',
+  '$': '$'
 }
 
 const VALID_HEXADECIMAL_END = [
   'A', 'B', 'C', 'D', 'E', 'F'
 ]
 
+/**
+ * Checks if a '/' starts a regular expression instead of being a division. A regular expression can only be placed where a value is expected,
+ * e.g: after an operator, an opening bracket or a statement like `return`, while a division is placed after a value
+ * @param tokens Tokens scanned before the '/'
+ */
+function canStartRegex(tokens: Token[]): boolean {
+  const previous = tokens.at(-1)
+
+  if (previous === undefined)
+    return true
+
+  switch (previous.type) {
+    case "Operator": return true
+    case "Statement": return tokens.at(-2)?.content !== Tokens.DOT // a keyword used as a member name is a value, e.g: `range.in / 2`
+    case "TemplateHead":
+    case "TemplateMiddle": return true
+    case "Token": return previous.content !== Tokens.RPAREN && previous.content !== Tokens.RSQRBR && previous.content !== Tokens.RBRACE
+    default: return false
+  }
+}
+
 function resolveIdentifier(identifier: string, line: number, pos: number): Token {
   switch (identifier) {
     case Keywords.FN:
@@ -153,6 +229,7 @@ function resolveIdentifier(identifier: string, line: number, pos: number): Token
     case Keywords.IF:
     case Keywords.ELSE:
     case Keywords.ELIF:
+    case Keywords.MATCH:
     case Keywords.SWITCH:
     case Keywords.CASE:
     case Keywords.DEFAULT:
@@ -163,6 +240,8 @@ function resolveIdentifier(identifier: string, line: number, pos: number): Token
     case Keywords.NOT:
     case Keywords.TRY:
     case Keywords.CATCH:
+    case Keywords.FINALLY:
+    case Keywords.THROW:
     case Keywords.AS:
     case Keywords.NEW:
     case Keywords.DROP:
@@ -174,7 +253,8 @@ function resolveIdentifier(identifier: string, line: number, pos: number): Token
     case Keywords.SETTER:
     case Keywords.GETTER:
     case Keywords.ASYNC:
-    case Keywords.AWAIT: {
+    case Keywords.AWAIT:
+    case Keywords.IS: {
       return { type: "Statement", content: identifier, line, pos }
     }
 
@@ -193,10 +273,17 @@ export default class Lexer {
   fileName: string
   line: number
 
+  /**
+   * Braces opened inside each embedded expression of a template string which is being scanned, e.g: `${ { a: 1 }.a }`.
+   * A '}' closes the embedded expression when there are not opened braces inside it
+   */
+  templateBraces: number[]
+
   public constructor(source: string, fileName: string) {
     this.cursor = new LexerCursor(source)
     this.fileName = fileName
-    this.line = 0
+    this.line = 1
+    this.templateBraces = []
   }
 
   private createToken(type: TokenType, content: string): Token {
@@ -212,6 +299,7 @@ export default class Lexer {
     // Configure the lexer
     this.line = 1
     this.fileName = otherFileName
+    this.templateBraces = []
 
     // configure the cursor
     this.cursor.source = otherSource
@@ -236,6 +324,240 @@ export default class Lexer {
     return this.cursor.next() === char
   }
 
+  /**
+   * Skips a line comment, e.g: `// comment`. The cursor stops at the end of the line
+   */
+  private skipLineComment() {
+    while (!this.cursor.isEOF() && this.cursor.currentTok !== '\n')
+      this.nextToken()
+
+    if (this.cursor.currentTok === '\n')
+      this.line++
+  }
+
+  /**
+   * Skips a block comment, e.g: `/* comment *\/`. Block comments can be nested, so a commented piece of code can contain other block comments
+   * 
+   * A block comment which starts with two stars is a doc comment, which documents the declaration placed after it
+   * @returns The text of the doc comment, without the stars which start each line, or null if the comment is not a doc comment
+   */
+  private scanBlockComment(): Nullable<string> {
+    const startLine = this.line
+    this.nextToken() // eat '*'
+
+    const isDocComment = this.checkNext(Tokens.STAR) && this.cursor.source[this.cursor.pos + 1] !== Tokens.SLASH
+    let nestingLevel = 1
+    let text = ""
+
+    while (nestingLevel > 0) {
+      if (this.cursor.isEOF())
+        throw new LexingError(this, `Unterminated block comment, it was opened at line ${startLine}`)
+
+      const char = this.nextToken()
+
+      if (char === Tokens.SLASH && this.checkNext(Tokens.STAR)) {
+        text += char + this.nextToken()
+        nestingLevel++
+      } else if (char === Tokens.STAR && this.checkNext(Tokens.SLASH)) {
+        this.nextToken()
+
+        if (--nestingLevel > 0)
+          text += "*/"
+      } else {
+        if (char === '\n')
+          this.line++
+
+        text += char
+      }
+    }
+
+    return isDocComment ? cleanDocComment(text) : null
+  }
+
+  /**
+   * Scans the text of a template string until an embedded expression (`${`) or the end of the template is found.
+   * The tokens of the embedded expressions are placed between the chunks of text
+   * 
+   * @example
+   * `Hello ${name}!` // TemplateHead "Hello ", IdentifierName "name", TemplateTail "!"
+   * `Hello world!` // TemplateString "Hello world!"
+   * 
+   * @param isTemplateStart If the current char is the backtick which opens the template, otherwise is the '}' which closes an embedded expression
+   */
+  private scanTemplateChunk(isTemplateStart: boolean): Token {
+    const line = this.line, pos = this.cursor.pos
+    let text = ""
+
+    while (true) {
+      if (this.cursor.isEOF())
+        throw new LexingError(this, `Unterminated template string, missing the closing backtick of the text started at line ${line}`)
+
+      const char = this.nextToken()
+
+      if (char === Tokens.BACKSTICK)
+        return { type: isTemplateStart ? "TemplateString" : "TemplateTail", content: text, line, pos }
+
+      if (char === '$' && this.checkNext(Tokens.LBRACE)) {
+        this.nextToken() // eat '{'
+        this.templateBraces.push(0)
+
+        return { type: isTemplateStart ? "TemplateHead" : "TemplateMiddle", content: text, line, pos }
+      }
+
+      if (char === '\\')
+        text += this.scanEscapeSequence()
+      else {
+        if (char === '\n')
+          this.line++
+
+        text += char
+      }
+    }
+  }
+
+  /**
+   * Scans a string or a char literal. The current char must be the quote which opens the literal
+   * @param type `StringLiteral` if the literal is delimited by double quotes, `CharLiteral` if is delimited by single quotes
+   */
+  private scanQuotedLiteral(type: "StringLiteral" | "CharLiteral"): Token {
+    const quote = this.cursor.currentTok
+    const line = this.line, pos = this.cursor.pos
+    let text = ""
+
+    while (true) {
+      if (this.cursor.isEOF())
+        throw new LexingError(this, `Unterminated ${type === "StringLiteral" ? "string" : "char"} literal, missing the closing ${quote} of the literal opened at line ${line}`)
+
+      const char = this.nextToken()
+
+      if (char === quote)
+        return { type, content: text, line, pos }
+
+      if (char === '\\')
+        text += this.scanEscapeSequence()
+      else {
+        if (char === '\n')
+          this.line++
+
+        text += char
+      }
+    }
+  }
+
+  /**
+   * Scans a regular expression literal, e.g: `/[a-z]+/gi`. The pattern is kept as it was written, since it is checked by the parser
+   * 
+   * A '/' placed inside a character class or escaped does not close the pattern, e.g: `/[/]\//`
+   * @returns A token whose content is the whole literal, including the slashes and the flags
+   */
+  private scanRegexLiteral(): Token {
+    const line = this.line, pos = this.cursor.pos
+    let content = this.cursor.currentTok
+    let isInsideClass = false
+
+    while (true) {
+      if (this.cursor.isEOF() || this.checkNext('\n'))
+        throw new LexingError(this, `Unterminated regular expression, missing the closing / of the pattern opened at line ${line}`, pos)
+
+      const char = this.nextToken()
+      content += char
+
+      if (char === '\\' && !this.cursor.isEOF() && !this.checkNext('\n'))
+        content += this.nextToken() // the escaped char can not close the pattern or the class
+      else if (char === Tokens.LSQRBR)
+        isInsideClass = true
+      else if (char === Tokens.RSQRBR)
+        isInsideClass = false
+      else if (char === Tokens.SLASH && !isInsideClass)
+        break
+    }
+
+    while (!this.cursor.isEOF() && isAlpha(this.cursor.next()))
+      content += this.nextToken()
+
+    return { type: "RegexLiteral", content, line, pos }
+  }
+
+  /**
+   * Scans the hexadecimal digits of an escape sequence which represents a char by its code point
+   * @param escapePos Position of the backslash which starts the escape sequence
+   * @returns The code point represented by the digits
+   */
+  private scanCodePoint(digits: string, escapePos: number): number {
+    const codePoint = Number.parseInt(digits, 16)
+
+    if (!/^[0-9a-fA-F]+$/.test(digits))
+      throw new LexingError(this, `Invalid escape sequence, '${digits}' is not an hexadecimal number`, escapePos)
+
+    if (codePoint > MAX_CODE_POINT)
+      throw new LexingError(this, `Invalid escape sequence, '${digits}' is greater than the greatest Unicode code point (10FFFF)`, escapePos)
+
+    return codePoint
+  }
+
+  /**
+   * Scans an escape sequence placed in a string, char or template literal. The current char must be the backslash which starts it
+   * 
+   * @example
+   * "Hello\n" // new line
+   * "\x41" // 'A', using 2 hexadecimal digits
+   * "\u00F1" // 'ñ', using 4 hexadecimal digits
+   * "\u{1F600}" // any Unicode code point, using from 1 to 6 hexadecimal digits
+   * 
+   * @returns The char represented by the escape sequence
+   */
+  private scanEscapeSequence(): string {
+    const escapePos = this.cursor.pos
+
+    if (this.cursor.isEOF())
+      throw new LexingError(this, "Incomplete escape sequence, a char is expected after '\\'", escapePos)
+
+    const escaped = this.nextToken()
+
+    if (escaped in SIMPLE_ESCAPE_SEQUENCES)
+      return SIMPLE_ESCAPE_SEQUENCES[escaped]
+
+    switch (escaped) {
+      case 'x': {
+        const digits = this.cursor.source.substring(this.cursor.pos, this.cursor.pos + 2)
+        this.cursor.pos += digits.length
+
+        if (digits.length < 2)
+          throw new LexingError(this, "Invalid escape sequence, '\\x' must be followed by 2 hexadecimal digits", escapePos)
+
+        return String.fromCodePoint(this.scanCodePoint(digits, escapePos))
+      }
+
+      case 'u': {
+        if (this.checkNext(Tokens.LBRACE)) {
+          const closingBrace = this.cursor.source.indexOf(Tokens.RBRACE, this.cursor.pos)
+
+          if (closingBrace === -1)
+            throw new LexingError(this, "Invalid escape sequence, missing the '}' which closes '\\u{'", escapePos)
+
+          const digits = this.cursor.source.substring(this.cursor.pos + 1, closingBrace)
+          this.cursor.pos = closingBrace + 1
+
+          if (digits.length < 1 || digits.length > 6)
+            throw new LexingError(this, "Invalid escape sequence, '\\u{}' must contain from 1 to 6 hexadecimal digits", escapePos)
+
+          return String.fromCodePoint(this.scanCodePoint(digits, escapePos))
+        }
+
+        const digits = this.cursor.source.substring(this.cursor.pos, this.cursor.pos + 4)
+        this.cursor.pos += digits.length
+
+        if (digits.length < 4)
+          throw new LexingError(this, "Invalid escape sequence, '\\u' must be followed by 4 hexadecimal digits or a code point between braces", escapePos)
+
+        // a surrogate pair is written as two escape sequences, e.g: "\uD83D\uDE00"
+        return String.fromCharCode(this.scanCodePoint(digits, escapePos))
+      }
+
+      default: throw new LexingError(this, `Invalid escape sequence '\\${escaped}'`, escapePos)
+    }
+  }
+
   /**
    * Checks if a numeric separator exists in the current position of the cursor (_)
    */
@@ -263,6 +585,17 @@ export default class Lexer {
     return this.createToken("Operator", this.cursor.currentTok)
   }
 
+  /**
+   * Analize if the current token is the start of an equality operator, `==` or `!=`.
+   * In other case, the current token is a single `=` (assignment) or `!` token
+   */
+  private scanEqualityOperator() {
+    if (this.checkNext(Tokens.EQUAL))
+      return this.createToken("Operator", this.cursor.currentTok + this.nextToken())
+
+    return this.createToken("Token", this.cursor.currentTok)
+  }
+
   /**
    * Analize if the operator is an increment or decrement operator
    * @returns 
@@ -300,6 +633,14 @@ export default class Lexer {
     return this.scanAdjustOperator()
   }
 
+  /**
+   * Checks if the current dot separates the integer part from the decimals of a number.
+   * A dot followed by other dot is not a decimal dot, since it is the start of a range, e.g: `0..5`
+   */
+  private isDecimalDot() {
+    return this.cursor.currentTok === Tokens.DOT && !this.checkNext(Tokens.DOT)
+  }
+
   private scanBinary() {
     let binaryNum = ""
     do {
@@ -355,17 +696,15 @@ export default class Lexer {
     const tokens: Token[] = []
     let identifier = ""
     let numericIdentifier = ""
+    let docComment: Nullable<string> = null // doc comment waiting for the next token
   
     while (!this.cursor.isEOF()) {
+      const scannedCount = tokens.length
       this.nextToken()
   
       while (isSpace(this.cursor.currentTok))
         this.nextToken()
   
-      if (this.cursor.currentTok === '\n') {
-        this.line++
-      }
-  
       // Validation only with alphabetic characters
       // occurs because a variable or another recognizer, token, identifier, etc
       // can not start with a number, because a comparation between if a token is a number or an identifier will overlap
@@ -441,7 +780,7 @@ export default class Lexer {
             // else, then the parsed number its a number with base 10 or a float (floast is base 10 too)
             default: numericIdentifier += this.cursor.currentTok
           }
-        } while (!this.cursor.isEOF() && isNumeric(this.nextToken()) || this.cursor.currentTok === Tokens.DOT || isAlpha(this.cursor.currentTok))
+        } while (!this.cursor.isEOF() && isNumeric(this.nextToken()) || this.isDecimalDot() || isAlpha(this.cursor.currentTok))
 
         // after the while, lets make another tests
         const lastNumericIdChar = numericIdentifier.charAt(numericIdentifier.length - 1)
@@ -473,84 +812,65 @@ export default class Lexer {
        * We match what means every single token, like '+', '-', '*'
        */
       switch (this.cursor.currentTok) {
-        case Tokens.LBRACE:
-        case Tokens.RBRACE:
+        case Tokens.LBRACE: {
+          if (this.templateBraces.length > 0)
+            this.templateBraces[this.templateBraces.length - 1]++
+
+          tokens.push({ type: "Token", content: this.cursor.currentTok, line: this.line, pos: this.cursor.pos })
+        } break
+
+        case Tokens.RBRACE: {
+          if (this.templateBraces.at(-1) === 0) { // the embedded expression of a template string ends, so the text of the template continues
+            this.templateBraces.pop()
+            tokens.push(this.scanTemplateChunk(false))
+            break
+          }
+
+          if (this.templateBraces.length > 0)
+            this.templateBraces[this.templateBraces.length - 1]--
+
+          tokens.push({ type: "Token", content: this.cursor.currentTok, line: this.line, pos: this.cursor.pos })
+        } break
+
         case Tokens.LPAREN:
         case Tokens.RPAREN:
         case Tokens.LSQRBR:
         case Tokens.RSQRBR:
         case Tokens.COMMA:
         case Tokens.AMPER:
-        case Tokens.EQUAL:
         case Tokens.ESP:
         case Tokens.SEMICOLON:
-        case Tokens.EXCLAMATION:
         case Tokens.INTERROGATION: {
           tokens.push({ type: "Token", content: this.cursor.currentTok, line: this.line, pos: this.cursor.pos })
         } break
+
+        // newlines are checked here, since the previous scanned identifier or number may have stopped on it
+        case '\n': this.line++; break
+
+        case Tokens.EQUAL:
+        case Tokens.EXCLAMATION: tokens.push(this.scanEqualityOperator()); break
   
         case Tokens.GREATER:
-        case Tokens.LESS: break
+        case Tokens.LESS: tokens.push(this.scanOperationalAssign()); break
         case Tokens.PLUS:
         case Tokens.MINUS:
         case Tokens.STAR:
-        case Tokens.SLASH: {
-          if (this.checkNext(Tokens.SLASH)) {
-            do {
-              this.cursor.currentTok = this.consume() // manual assingment instead use `nextToken` to avoid overlaped comparations
-            } while (this.cursor.currentTok !== '\n' && !this.cursor.isEOF())
-          } else if (this.checkNext(Tokens.STAR)) {
-            let stillIgnoring = true
-            while (stillIgnoring) {
-              this.nextToken()
+        case Tokens.PERCEN: tokens.push(this.initOperatorScan()); break
 
-              if (this.cursor.currentTok === Tokens.STAR) {
-                if (this.checkNext(Tokens.SLASH)) {
-                  this.cursor.currentTok = this.cursor.doubleConsume()
-                  stillIgnoring = false
-                }
-              }
-            }
-          }
-
-          if (this.cursor.currentTok === "\n")
-            continue
-          tokens.push(this.initOperatorScan())
-        } break
-  
-        case Tokens.QUOTE: {
-          identifier = this.nextToken()
-
-          if (!this.checkNext(Tokens.QUOTE)) {
-            while (this.nextToken() !== Tokens.QUOTE)
-              identifier += this.cursor.currentTok
-          }
-  
-          tokens.push({ type: "CharLiteral", content: identifier, line: this.line, pos: this.cursor.pos })
-        } break
-  
-        case Tokens.BACKSTICK: {
-          identifier = this.nextToken()
-  
-          if (!this.checkNext(Tokens.BACKSTICK)) {
-            while (this.nextToken() !== Tokens.BACKSTICK)
-              identifier += this.cursor.currentTok
-          }
-
-          tokens.push({ type: "StringLiteral", content: identifier, line: this.line, pos: this.cursor.pos })
+        case Tokens.SLASH: {
+          if (this.checkNext(Tokens.SLASH))
+            this.skipLineComment()
+          else if (this.checkNext(Tokens.STAR))
+            docComment = this.scanBlockComment() ?? docComment
+          else if (canStartRegex(tokens))
+            tokens.push(this.scanRegexLiteral())
+          else
+            tokens.push(this.initOperatorScan())
         } break
   
-        case Tokens.DQUOTE: {
-          if (!this.checkNext(Tokens.DQUOTE)) {
-            identifier = this.nextToken()
-  
-            while (this.nextToken() !== Tokens.DQUOTE)
-              identifier += this.cursor.currentTok
-          }
-          
-          tokens.push({ type: "StringLiteral", content: identifier, line: this.line, pos: this.cursor.pos })
-
-        } break
+        case Tokens.QUOTE: tokens.push(this.scanQuotedLiteral("CharLiteral")); break
+        case Tokens.DQUOTE: tokens.push(this.scanQuotedLiteral("StringLiteral")); break
+        case Tokens.BACKSTICK: tokens.push(this.scanTemplateChunk(true)); break
   
         case Tokens.COLON: {
           if (this.checkNext(":")) {
@@ -572,7 +892,16 @@ export default class Lexer {
             tokens.push({ type: "Token", content: this.cursor.currentTok, line: this.line, pos: this.cursor.pos })
         } break
       }
+
+      // the doc comment belongs to the first token scanned after it
+      if (docComment !== null && tokens.length > scannedCount) {
+        tokens[scannedCount].docComment = docComment
+        docComment = null
+      }
     }
+
+    if (this.templateBraces.length > 0)
+      throw new LexingError(this, "Unterminated template string, an embedded expression was not closed with '}'")
   
     return tokens
   }
@@ -0,0 +1,281 @@
+import PackageError from "@package-manager/package-error.ts"
+import { ScrapManifest, isGitSpecifier, isValidPackageName, readManifest, writeManifest } from "@package-manager/manifest.ts"
+import { LockedPackage, MODULES_DIRECTORY, ScrapLockfile, computeIntegrity, listPackageFiles, readLockfile, writeLockfile } from "@package-manager/lockfile.ts"
+import { PackageFetcher, PackageSource, createRegistryResolved, getRegistryDirectory, parseGitSpecifier } from "@package-manager/registry.ts"
+import { formatVersion, maxSatisfying, parseRange, parseVersion, satisfies } from "@package-manager/semver.ts"
+
+/**
+ * A package selected to be installed, and the package which required it first
+ */
+interface SelectedPackage {
+  source: PackageSource,
+  specifier: string,
+  requiredBy: string
+}
+
+interface Requirement {
+  name: string,
+  specifier: string,
+  requiredBy: string
+}
+
+/**
+ * Selects the version of a package from the registry. The locked version is kept while it satisfies the range
+ */
+function selectFromRegistry(fetcher: PackageFetcher, lockfile: ScrapLockfile, { name, specifier, requiredBy }: Requirement): PackageSource {
+  const range = parseRange(specifier)
+
+  if (!range)
+    throw new PackageError(`'${requiredBy}' requires '${name}' using the invalid range '${specifier}'`)
+
+  const versions = fetcher.getVersions(name)
+  const locked = lockfile.packages[name]
+  const lockedVersion = locked ? parseVersion(locked.version) : null
+
+  if (locked && lockedVersion && locked.resolved === createRegistryResolved(name, locked.version) && satisfies(lockedVersion, range))
+    return fetcher.fromRegistry(name, lockedVersion)
+
+  const selected = maxSatisfying(versions, range)
+
+  if (!selected) {
+    const available = versions.map(formatVersion).join(", ") || "none"
+    throw new PackageError(`No version of '${name}' satisfies '${specifier}', required by '${requiredBy}'. Available versions: ${available}`)
+  }
+
+  return fetcher.fromRegistry(name, selected)
+}
+
+/**
+ * Clones a git dependency. The locked commit is used while the repository of the dependency does not change
+ */
+function selectFromGit(fetcher: PackageFetcher, lockfile: ScrapLockfile, specifier: string, name: string): PackageSource {
+  const { repository } = parseGitSpecifier(specifier)
+  const locked = lockfile.packages[name]
+
+  if (locked && isGitSpecifier(locked.resolved) && parseGitSpecifier(locked.resolved).repository === repository)
+    return fetcher.fromGit(locked.resolved)
+
+  return fetcher.fromGit(specifier)
+}
+
+/**
+ * Checks that an already selected package satisfies other requirement. Only one version of each package is installed
+ */
+function checkSelected(selected: SelectedPackage, { name, specifier, requiredBy }: Requirement) {
+  const version = selected.source.manifest.version
+  const conflictError = () => new PackageError(
+    `Conflicting requirements for '${name}': '${selected.requiredBy}' requires '${selected.specifier}' (${version}), but '${requiredBy}' requires '${specifier}'`
+  )
+
+  if (isGitSpecifier(specifier) || isGitSpecifier(selected.specifier)) {
+    if (specifier !== selected.specifier)
+      throw conflictError()
+
+    return
+  }
+
+  if (!satisfies(parseVersion(version)!, parseRange(specifier) ?? []))
+    throw conflictError()
+}
+
+/**
+ * Selects a package for each dependency of the project and the dependencies of its dependencies
+ */
+function resolveDependencies(manifest: ScrapManifest, lockfile: ScrapLockfile, fetcher: PackageFetcher): Map<string, SelectedPackage> {
+  const selectedPackages: Map<string, SelectedPackage> = new Map()
+  const toRequirements = (dependencies: Record<string, string>, requiredBy: string): Requirement[] =>
+    Object.entries(dependencies).map(([name, specifier]) => ({ name, specifier, requiredBy }))
+
+  const pending = toRequirements(manifest.dependencies, manifest.name)
+
+  while (pending.length > 0) {
+    const requirement = pending.shift()!
+    const { name, specifier } = requirement
+    const selected = selectedPackages.get(name)
+
+    if (selected) {
+      checkSelected(selected, requirement)
+      continue
+    }
+
+    const source = isGitSpecifier(specifier)
+      ? selectFromGit(fetcher, lockfile, specifier, name)
+      : selectFromRegistry(fetcher, lockfile, requirement)
+
+    if (source.manifest.name !== name)
+      throw new PackageError(`The dependency '${name}' points to the package '${source.manifest.name}'`)
+
+    selectedPackages.set(name, { source, specifier, requiredBy: requirement.requiredBy })
+    pending.push(...toRequirements(source.manifest.dependencies, name))
+  }
+
+  return selectedPackages
+}
+
+function existsDirectory(path: string): boolean {
+  try {
+    return Deno.statSync(path).isDirectory
+  } catch {
+    return false
+  }
+}
+
+function copyPackage(from: string, to: string) {
+  if (existsDirectory(to))
+    Deno.removeSync(to, { recursive: true })
+
+  Deno.mkdirSync(to, { recursive: true })
+
+  for (const file of listPackageFiles(from)) {
+    Deno.mkdirSync(`${to}${file.slice(0, file.lastIndexOf("/"))}`, { recursive: true })
+    Deno.copyFileSync(`${from}${file}`, `${to}${file}`)
+  }
+}
+
+/**
+ * Removes the installed packages which are not dependencies of the project anymore
+ */
+function pruneModules(modulesDirectory: string, installed: Map<string, SelectedPackage>) {
+  if (!existsDirectory(modulesDirectory))
+    return
+
+  for (const entry of Deno.readDirSync(modulesDirectory)) {
+    if (!installed.has(entry.name))
+      Deno.removeSync(`${modulesDirectory}/${entry.name}`, { recursive: true })
+  }
+}
+
+/**
+ * Installs the dependencies of a project in its `scrap_modules` directory and updates the lockfile
+ *
+ * The content of each package is checked against the integrity stored in the lockfile, so a package which was modified in the registry
+ * after it was locked is not installed
+ *
+ * @param manifest Manifest of the project, which can be different than the one stored in the project directory
+ * @returns The updated lockfile
+ */
+export async function install(projectDirectory: string, manifest: ScrapManifest = readManifest(projectDirectory)): Promise<ScrapLockfile> {
+  const lockfile = readLockfile(projectDirectory)
+  const fetcher = new PackageFetcher(projectDirectory, getRegistryDirectory(projectDirectory, manifest))
+  const modulesDirectory = `${projectDirectory}/${MODULES_DIRECTORY}`
+  const packages: Record<string, LockedPackage> = {}
+
+  try {
+    const selectedPackages = resolveDependencies(manifest, lockfile, fetcher)
+
+    // every package is checked before installing any of them, so a failed check does not leave the project half installed
+    for (const [name, { source }] of selectedPackages) {
+      const integrity = await computeIntegrity(source.directory)
+      const locked = lockfile.packages[name]
+
+      if (locked && locked.resolved === source.resolved && locked.integrity !== integrity)
+        throw new PackageError(
+          `Integrity check failed for '${name}@${source.manifest.version}': the lockfile expects '${locked.integrity}', but the package has '${integrity}'`
+        )
+
+      packages[name] = { version: source.manifest.version, resolved: source.resolved, integrity, dependencies: source.manifest.dependencies }
+    }
+
+    for (const [name, { source }] of selectedPackages) {
+      const installedDirectory = `${modulesDirectory}/${name}`
+      const isInstalled = existsDirectory(installedDirectory) && await computeIntegrity(installedDirectory) === packages[name].integrity
+
+      if (!isInstalled)
+        copyPackage(source.directory, installedDirectory)
+    }
+
+    pruneModules(modulesDirectory, selectedPackages)
+  } finally {
+    fetcher.dispose()
+  }
+
+  const updatedLockfile: ScrapLockfile = { lockfileVersion: 1, packages }
+  writeLockfile(projectDirectory, updatedLockfile)
+
+  return updatedLockfile
+}
+
+/**
+ * Parses a package to add: `<name>`, `<name>@<range>` or `git+<repository>#<ref>`. A package without range gets the latest version of the registry
+ * @returns The name of the package and its specifier for the manifest
+ */
+function parseAddedPackage(added: string, fetcher: PackageFetcher): [string, string] {
+  if (isGitSpecifier(added))
+    return [fetcher.fromGit(added).manifest.name, added]
+
+  const separator = added.indexOf("@")
+  const name = separator === -1 ? added : added.slice(0, separator)
+
+  if (!isValidPackageName(name))
+    throw new PackageError(`'${name}' is not a valid package name`)
+
+  if (separator !== -1) {
+    const range = added.slice(separator + 1)
+
+    if (!parseRange(range))
+      throw new PackageError(`'${range}' is not a valid range of versions`)
+
+    return [name, range]
+  }
+
+  const latest = fetcher.getVersions(name).filter(version => version.prerelease.length === 0).at(-1)
+
+  if (!latest)
+    throw new PackageError(`The package '${name}' does not have stable versions in the registry`)
+
+  return [name, `^${formatVersion(latest)}`]
+}
+
+/**
+ * Adds packages to the dependencies of the project and installs them. The manifest is only updated if the installation succeeds
+ *
+ * @example
+ * scrap add math colors@~2.1.0 git+../shapes#v1.0.0
+ */
+export async function add(projectDirectory: string, addedPackages: string[]): Promise<ScrapLockfile> {
+  if (addedPackages.length === 0)
+    throw new PackageError("Expected the packages to add, e.g: 'scrap add math@^1.0.0'")
+
+  const manifest = readManifest(projectDirectory)
+  const fetcher = new PackageFetcher(projectDirectory, getRegistryDirectory(projectDirectory, manifest))
+  const dependencies = { ...manifest.dependencies }
+
+  try {
+    for (const added of addedPackages) {
+      const [name, specifier] = parseAddedPackage(added, fetcher)
+      dependencies[name] = specifier
+    }
+  } finally {
+    fetcher.dispose()
+  }
+
+  const updatedManifest = { ...manifest, dependencies }
+  const lockfile = await install(projectDirectory, updatedManifest)
+
+  writeManifest(projectDirectory, updatedManifest)
+  return lockfile
+}
+
+/**
+ * Removes packages from the dependencies of the project, uninstalling the packages which are not needed anymore
+ */
+export async function remove(projectDirectory: string, removedPackages: string[]): Promise<ScrapLockfile> {
+  if (removedPackages.length === 0)
+    throw new PackageError("Expected the packages to remove, e.g: 'scrap remove math'")
+
+  const manifest = readManifest(projectDirectory)
+  const dependencies = { ...manifest.dependencies }
+
+  for (const name of removedPackages) {
+    if (!(name in dependencies))
+      throw new PackageError(`'${name}' is not a dependency of '${manifest.name}'`)
+
+    delete dependencies[name]
+  }
+
+  const updatedManifest = { ...manifest, dependencies }
+  const lockfile = await install(projectDirectory, updatedManifest)
+
+  writeManifest(projectDirectory, updatedManifest)
+  return lockfile
+}
\ No newline at end of file
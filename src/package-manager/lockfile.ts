@@ -0,0 +1,116 @@
+import PackageError from "@package-manager/package-error.ts"
+
+export const LOCKFILE = "scrap.lock"
+
+/**
+ * Directory of a project where its dependencies are installed. Each package is placed in `scrap_modules/<package name>`
+ */
+export const MODULES_DIRECTORY = "scrap_modules"
+
+/**
+ * Directories which are not part of the content of a package
+ */
+const IGNORED_DIRECTORIES = [".git", MODULES_DIRECTORY]
+
+/**
+ * The exact package installed for a dependency
+ */
+export interface LockedPackage {
+  version: string,
+
+  /**
+   * Where the package was taken from: `registry:<name>@<version>` or `git+<path>#<commit>`
+   */
+  resolved: string,
+
+  /**
+   * Hash of the content of the package, e.g: `sha256-<base64 digest>`
+   */
+  integrity: string,
+  dependencies: Record<string, string>
+}
+
+/**
+ * Stores the packages installed for a project, so the same versions are installed again until the manifest changes.
+ * It is stored in the `scrap.lock` file, next to `scrap.json`
+ */
+export interface ScrapLockfile {
+  lockfileVersion: 1,
+  packages: Record<string, LockedPackage>
+}
+
+export function readLockfile(directory: string): ScrapLockfile {
+  const lockfilePath = `${directory}/${LOCKFILE}`
+  let text: string
+
+  try {
+    text = Deno.readTextFileSync(lockfilePath)
+  } catch {
+    return { lockfileVersion: 1, packages: {} } // the dependencies were never installed
+  }
+
+  try {
+    const lockfile = JSON.parse(text)
+
+    if (lockfile?.lockfileVersion !== 1 || typeof lockfile.packages !== "object")
+      throw new PackageError(`The lockfile '${lockfilePath}' has an unknown format`)
+
+    return lockfile
+  } catch (error) {
+    if (error instanceof SyntaxError)
+      throw new PackageError(`The lockfile '${lockfilePath}' is not valid JSON: ${error.message}`)
+
+    throw error
+  }
+}
+
+export function writeLockfile(directory: string, lockfile: ScrapLockfile) {
+  const packages = Object.fromEntries(Object.entries(lockfile.packages).toSorted(([a], [b]) => a.localeCompare(b)))
+
+  Deno.writeTextFileSync(`${directory}/${LOCKFILE}`, JSON.stringify({ ...lockfile, packages }, null, 2) + "\n")
+}
+
+/**
+ * Lists the files of a package, sorted so the list is the same in any system
+ * @returns The paths of the files, relative to the package directory
+ */
+export function listPackageFiles(directory: string, relativePath = ""): string[] {
+  const files: string[] = []
+
+  for (const entry of Deno.readDirSync(`${directory}${relativePath}`)) {
+    const entryPath = `${relativePath}/${entry.name}`
+
+    if (entry.isDirectory && !IGNORED_DIRECTORIES.includes(entry.name))
+      files.push(...listPackageFiles(directory, entryPath))
+    else if (entry.isFile)
+      files.push(entryPath)
+  }
+
+  return files.toSorted()
+}
+
+/**
+ * Computes the hash of the content of a package, including the path of each file, so a renamed file changes the hash
+ */
+export async function computeIntegrity(directory: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+
+  for (const file of listPackageFiles(directory)) {
+    const content = Deno.readFileSync(`${directory}${file}`)
+
+    chunks.push(encoder.encode(`${file}\0${content.length}\0`), content)
+  }
+
+  const data = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+  let offset = 0
+
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.length
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data))
+
+  return `sha256-${btoa(String.fromCharCode(...digest))}`
+}
\ No newline at end of file
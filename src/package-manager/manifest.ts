@@ -0,0 +1,117 @@
+import PackageError from "@package-manager/package-error.ts"
+import { parseRange, parseVersion } from "@package-manager/semver.ts"
+
+export const MANIFEST_FILE = "scrap.json"
+
+/**
+ * File imported when a package is imported using only its name, if the manifest does not specify other
+ */
+export const DEFAULT_ENTRY = "mod.scrap"
+
+export const GIT_PREFIX = "git+"
+
+/**
+ * Describes a ScrapLang project or package. It is stored in the `scrap.json` file placed in the root directory of the project
+ *
+ * The dependencies map each package name to a range of versions of the registry, or to a git repository using `git+<path>#<ref>`
+ *
+ * @example
+ * {
+ *  "name": "shapes",
+ *  "version": "1.0.0",
+ *  "entry": "mod.scrap",
+ *  "dependencies": {
+ *    "math": "^1.2.0",
+ *    "colors": "git+../colors#v2.0.0"
+ *  }
+ * }
+ */
+export interface ScrapManifest {
+  name: string,
+  version: string,
+  entry: string,
+
+  /**
+   * Directory of the local registry, relative to the project directory
+   */
+  registry?: string,
+  dependencies: Record<string, string>
+}
+
+export function isValidPackageName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(name)
+}
+
+export function isGitSpecifier(specifier: string): boolean {
+  return specifier.startsWith(GIT_PREFIX)
+}
+
+/**
+ * Checks the content of a manifest, filling the optional fields with their default values
+ * @param source Where the manifest was read, used to explain the errors
+ */
+export function validateManifest(content: unknown, source: string): ScrapManifest {
+  if (typeof content !== "object" || content === null || Array.isArray(content))
+    throw new PackageError(`The manifest '${source}' must contain an object`)
+
+  const { name, version, entry, registry, dependencies } = content as Record<string, unknown>
+
+  if (typeof name !== "string" || !isValidPackageName(name))
+    throw new PackageError(`The manifest '${source}' must have a valid 'name'`)
+
+  if (typeof version !== "string" || !parseVersion(version))
+    throw new PackageError(`The manifest '${source}' must have a semantic 'version', e.g: "1.0.0"`)
+
+  if (entry !== undefined && typeof entry !== "string")
+    throw new PackageError(`The 'entry' of the manifest '${source}' must be a path`)
+
+  if (registry !== undefined && typeof registry !== "string")
+    throw new PackageError(`The 'registry' of the manifest '${source}' must be a path`)
+
+  if (dependencies !== undefined && (typeof dependencies !== "object" || dependencies === null || Array.isArray(dependencies)))
+    throw new PackageError(`The 'dependencies' of the manifest '${source}' must be an object`)
+
+  for (const [dependencyName, specifier] of Object.entries(dependencies ?? {})) {
+    // the name of a dependency is the directory where it is installed, so it can not be a path
+    if (!isValidPackageName(dependencyName))
+      throw new PackageError(`The manifest '${source}' has a dependency with an invalid name '${dependencyName}'`)
+
+    if (typeof specifier !== "string" || (!isGitSpecifier(specifier) && !parseRange(specifier)))
+      throw new PackageError(`The dependency '${dependencyName}' of the manifest '${source}' must be a range of versions or a git repository`)
+  }
+
+  return {
+    name,
+    version,
+    entry: entry ?? DEFAULT_ENTRY,
+    ...(registry !== undefined ? { registry } : {}),
+    dependencies: { ...(dependencies as Record<string, string> ?? {}) }
+  }
+}
+
+/**
+ * Reads the manifest placed in a directory
+ */
+export function readManifest(directory: string): ScrapManifest {
+  const manifestPath = `${directory}/${MANIFEST_FILE}`
+  let text: string
+
+  try {
+    text = Deno.readTextFileSync(manifestPath)
+  } catch {
+    throw new PackageError(`Can not find '${manifestPath}'`)
+  }
+
+  try {
+    return validateManifest(JSON.parse(text), manifestPath)
+  } catch (error) {
+    if (error instanceof SyntaxError)
+      throw new PackageError(`The manifest '${manifestPath}' is not valid JSON: ${error.message}`)
+
+    throw error
+  }
+}
+
+export function writeManifest(directory: string, manifest: ScrapManifest) {
+  Deno.writeTextFileSync(`${directory}/${MANIFEST_FILE}`, JSON.stringify(manifest, null, 2) + "\n")
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+/**
+ * Thrown when the package manager can not complete a command, e.g: a dependency which can not be found in the registry
+ */
+export default class PackageError extends Error {
+  public constructor(message: string) {
+    super(message)
+    this.name = "PackageError"
+  }
+}
\ No newline at end of file
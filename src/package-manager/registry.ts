@@ -0,0 +1,162 @@
+import PackageError from "@package-manager/package-error.ts"
+import { GIT_PREFIX, ScrapManifest, readManifest } from "@package-manager/manifest.ts"
+import { Version, compareVersions, formatVersion, parseVersion } from "@package-manager/semver.ts"
+
+/**
+ * A package ready to be installed
+ */
+export interface PackageSource {
+  manifest: ScrapManifest,
+
+  /**
+   * Directory which contains the files of the package
+   */
+  directory: string,
+
+  /**
+   * Where the package was taken from, which is stored in the lockfile
+   */
+  resolved: string
+}
+
+const REGISTRY_PREFIX = "registry:"
+
+/**
+ * Gets the directory of the local registry. It can be set using the `SCRAP_REGISTRY` environment variable or the `registry` field of the manifest,
+ * otherwise the registry is placed in `~/.scrap/registry`
+ */
+export function getRegistryDirectory(projectDirectory: string, manifest: ScrapManifest): string {
+  const fromEnvironment = Deno.env.get("SCRAP_REGISTRY")
+
+  if (fromEnvironment)
+    return fromEnvironment
+
+  if (manifest.registry)
+    return manifest.registry.startsWith("/") ? manifest.registry : `${projectDirectory}/${manifest.registry}`
+
+  return `${Deno.env.get("HOME") ?? "."}/.scrap/registry`
+}
+
+export function createRegistryResolved(name: string, version: string): string {
+  return `${REGISTRY_PREFIX}${name}@${version}`
+}
+
+/**
+ * Parses a git dependency: `git+<repository>#<ref>`. The ref can be a branch, a tag or a commit, `HEAD` if it is omitted
+ *
+ * A ref starting with '-' is rejected, since git would read it as an option
+ */
+export function parseGitSpecifier(specifier: string): { repository: string, ref: string } {
+  const [repository, ref] = specifier.slice(GIT_PREFIX.length).split("#")
+
+  if (!repository)
+    throw new PackageError(`Missing the repository of the git dependency '${specifier}'`)
+
+  if (ref?.startsWith("-"))
+    throw new PackageError(`The ref '${ref}' of the git dependency '${specifier}' can not start with '-'`)
+
+  return { repository, ref: ref || "HEAD" }
+}
+
+function runGit(args: string[]): string {
+  let output: Deno.CommandOutput
+
+  try {
+    output = new Deno.Command("git", { args, stdout: "piped", stderr: "piped" }).outputSync()
+  } catch {
+    throw new PackageError("Can not run 'git', it is required to install git dependencies")
+  }
+
+  if (!output.success)
+    throw new PackageError(`git ${args[0]} failed: ${new TextDecoder().decode(output.stderr).trim()}`)
+
+  return new TextDecoder().decode(output.stdout).trim()
+}
+
+/**
+ * Gets packages from the local registry and from git repositories, without using the network unless a repository is remote
+ *
+ * The local registry is a directory which contains a directory for each version of each package, e.g: `<registry>/math/1.2.0/scrap.json`
+ */
+export class PackageFetcher {
+  private projectDirectory: string
+  private registryDirectory: string
+  private clonedRepositories: Map<string, PackageSource>
+  private temporalDirectories: string[]
+
+  public constructor(projectDirectory: string, registryDirectory: string) {
+    this.projectDirectory = projectDirectory
+    this.registryDirectory = registryDirectory
+    this.clonedRepositories = new Map()
+    this.temporalDirectories = []
+  }
+
+  /**
+   * Gets the versions of a package published in the registry, sorted from the lowest to the greatest
+   */
+  public getVersions(name: string): Version[] {
+    const versions: Version[] = []
+
+    try {
+      for (const entry of Deno.readDirSync(`${this.registryDirectory}/${name}`)) {
+        const version = entry.isDirectory ? parseVersion(entry.name) : null
+
+        if (version)
+          versions.push(version)
+      }
+    } catch {
+      throw new PackageError(`The package '${name}' does not exist in the registry '${this.registryDirectory}'`)
+    }
+
+    return versions.toSorted(compareVersions)
+  }
+
+  public fromRegistry(name: string, version: Version): PackageSource {
+    const formattedVersion = formatVersion(version)
+    const directory = `${this.registryDirectory}/${name}/${formattedVersion}`
+    const manifest = readManifest(directory)
+
+    if (manifest.name !== name || manifest.version !== formattedVersion)
+      throw new PackageError(`The registry directory '${directory}' contains '${manifest.name}@${manifest.version}' instead of '${name}@${formattedVersion}'`)
+
+    return { manifest, directory, resolved: createRegistryResolved(name, formattedVersion) }
+  }
+
+  /**
+   * Clones a git repository, checking out the ref of the specifier. A relative repository path is relative to the project directory
+   */
+  public fromGit(specifier: string): PackageSource {
+    const cloned = this.clonedRepositories.get(specifier)
+
+    if (cloned)
+      return cloned
+
+    const { repository, ref } = parseGitSpecifier(specifier)
+    const isLocal = !repository.includes(":") && !repository.startsWith("/")
+    const repositoryPath = isLocal ? `${this.projectDirectory}/${repository}` : repository
+
+    const directory = Deno.makeTempDirSync({ prefix: "scrap-git-" })
+    this.temporalDirectories.push(directory)
+
+    // '--' stops the options, so a repository starting with '-' is not read as an option of git
+    runGit(["clone", "--quiet", "--", repositoryPath, directory])
+    runGit(["-C", directory, "checkout", "--quiet", ref])
+
+    const commit = runGit(["-C", directory, "rev-parse", "HEAD"])
+    const source = { manifest: readManifest(directory), directory, resolved: `${GIT_PREFIX}${repository}#${commit}` }
+
+    this.clonedRepositories.set(specifier, source)
+    return source
+  }
+
+  /**
+   * Removes the cloned repositories
+   */
+  public dispose() {
+    for (const directory of this.temporalDirectories)
+      Deno.removeSync(directory, { recursive: true })
+
+    this.temporalDirectories = []
+    this.clonedRepositories.clear()
+  }
+}
\ No newline at end of file
@@ -0,0 +1,206 @@
+import type { Nullable } from "@typings"
+
+/**
+ * A version following the semantic versioning specification, e.g: `1.4.2` or `2.0.0-beta.1`
+ */
+export interface Version {
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: string[]
+}
+
+type Operator = "<" | "<=" | ">" | ">=" | "="
+
+interface Comparator {
+  operator: Operator,
+  version: Version
+}
+
+/**
+ * A range is satisfied when every comparator of any of its sets is satisfied. An empty set matches any version
+ */
+type Range = Comparator[][]
+
+const VERSION_REGEX = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+const PARTIAL_REGEX = /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/
+
+export function parseVersion(text: string): Nullable<Version> {
+  const match = VERSION_REGEX.exec(text.trim())
+
+  if (!match)
+    return null
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : []
+  }
+}
+
+export function formatVersion(version: Version): string {
+  const prerelease = version.prerelease.length > 0 ? `-${version.prerelease.join(".")}` : ""
+
+  return `${version.major}.${version.minor}.${version.patch}${prerelease}`
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // a version without prerelease is greater than the same version with prerelease
+  if (a.length === 0 || b.length === 0)
+    return b.length - a.length
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const isNumericA = /^\d+$/.test(a[i])
+    const isNumericB = /^\d+$/.test(b[i])
+
+    if (isNumericA && isNumericB && Number(a[i]) !== Number(b[i]))
+      return Number(a[i]) - Number(b[i])
+
+    // numeric identifiers are lower than alphanumeric identifiers
+    if (isNumericA !== isNumericB)
+      return isNumericA ? -1 : 1
+
+    if (a[i] !== b[i])
+      return a[i] < b[i] ? -1 : 1
+  }
+
+  return a.length - b.length
+}
+
+/**
+ * @returns A negative number if `a` is lower than `b`, a positive number if `a` is greater than `b`, 0 if both are equal
+ */
+export function compareVersions(a: Version, b: Version): number {
+  return (a.major - b.major) || (a.minor - b.minor) || (a.patch - b.patch) || comparePrerelease(a.prerelease, b.prerelease)
+}
+
+function createVersion(major: number, minor: number, patch: number, prerelease: string[] = []): Version {
+  return { major, minor, patch, prerelease }
+}
+
+function isWildcard(part: string | undefined): boolean {
+  return part === undefined || part === "x" || part === "X" || part === "*"
+}
+
+/**
+ * Converts a partial version with an optional operator into comparators. The omitted parts and `x` are wildcards
+ *
+ * @example
+ * ^1.2.3 // >=1.2.3 <2.0.0
+ * ~1.2.3 // >=1.2.3 <1.3.0
+ * 1.2    // >=1.2.0 <1.3.0
+ * >1.2   // >=1.3.0
+ */
+function parseComparators(text: string): Nullable<Comparator[]> {
+  const match = PARTIAL_REGEX.exec(text)
+
+  if (!match)
+    return null
+
+  const operator = match[1] ?? "="
+  const prerelease = match[5] ? match[5].split(".") : []
+
+  if (isWildcard(match[2]))
+    return operator === "<" || operator === ">" ? [{ operator: "<", version: createVersion(0, 0, 0) }] : []
+
+  const major = Number(match[2])
+  const minor = isWildcard(match[3]) ? null : Number(match[3])
+  const patch = isWildcard(match[4]) ? null : Number(match[4])
+
+  const lower = createVersion(major, minor ?? 0, patch ?? 0, prerelease)
+  const atLeast = (version: Version): Comparator => ({ operator: ">=", version })
+  const below = (version: Version): Comparator => ({ operator: "<", version })
+
+  // the first version which is not included by the wildcards, e.g: `1.2` includes every `1.2.x`, so it is `1.3.0`
+  const nextByWildcard = minor === null ? createVersion(major + 1, 0, 0) : createVersion(major, minor + 1, 0)
+
+  switch (operator) {
+    case "^": {
+      if (major > 0 || minor === null)
+        return [atLeast(lower), below(createVersion(major + 1, 0, 0))]
+
+      if (minor > 0 || patch === null)
+        return [atLeast(lower), below(createVersion(0, minor + 1, 0))]
+
+      return [atLeast(lower), below(createVersion(0, 0, patch + 1))]
+    }
+    case "~": return [atLeast(lower), below(minor === null ? createVersion(major + 1, 0, 0) : createVersion(major, minor + 1, 0))]
+    case ">": return patch === null ? [atLeast(nextByWildcard)] : [{ operator: ">", version: lower }]
+    case "<=": return patch === null ? [below(nextByWildcard)] : [{ operator: "<=", version: lower }]
+    case ">=": return [atLeast(lower)]
+    case "<": return [below(lower)]
+    default: return patch === null ? [atLeast(lower), below(nextByWildcard)] : [{ operator: "=", version: lower }]
+  }
+}
+
+/**
+ * Parses a range of versions. Sets of comparators are separated by `||`, and the comparators of a set are separated by spaces
+ *
+ * @example
+ * parseRange("^1.2.0")
+ * parseRange(">=1.0.0 <1.5.0 || 2.x")
+ * parseRange("1.0.0 - 1.4.0")
+ * parseRange("*")
+ *
+ * @returns The parsed range, null if the range is not valid
+ */
+export function parseRange(text: string): Nullable<Range> {
+  const range: Range = []
+
+  for (const set of text.split("||").map(set => set.trim())) {
+    const hyphenMatch = /^(\S+)\s+-\s+(\S+)$/.exec(set)
+    const parts = hyphenMatch ? [`>=${hyphenMatch[1]}`, `<=${hyphenMatch[2]}`] : set.split(/\s+/).filter(part => part !== "")
+    const comparators: Comparator[] = []
+
+    for (const part of parts) {
+      const parsed = part === "latest" ? [] : parseComparators(part)
+
+      if (parsed === null)
+        return null
+
+      comparators.push(...parsed)
+    }
+
+    range.push(comparators)
+  }
+
+  return range
+}
+
+function testComparator(version: Version, comparator: Comparator): boolean {
+  const comparison = compareVersions(version, comparator.version)
+
+  switch (comparator.operator) {
+    case "<": return comparison < 0
+    case "<=": return comparison <= 0
+    case ">": return comparison > 0
+    case ">=": return comparison >= 0
+    case "=": return comparison === 0
+  }
+}
+
+/**
+ * A prerelease version is only included by a set which explicitly mentions a prerelease of the same version, e.g: `^1.2.0-beta.1`
+ */
+function allowsPrerelease(version: Version, comparators: Comparator[]): boolean {
+  return version.prerelease.length === 0 || comparators.some(({ version: other }) =>
+    other.prerelease.length > 0 && other.major === version.major && other.minor === version.minor && other.patch === version.patch
+  )
+}
+
+export function satisfies(version: Version, range: Range): boolean {
+  return range.some(comparators =>
+    allowsPrerelease(version, comparators) && comparators.every(comparator => testComparator(version, comparator))
+  )
+}
+
+/**
+ * Gets the greatest version which satisfies a range
+ * @returns The greatest version, null if none of the versions satisfies the range
+ */
+export function maxSatisfying(versions: Version[], range: Range): Nullable<Version> {
+  return versions
+    .filter(version => satisfies(version, range))
+    .reduce<Nullable<Version>>((max, version) => max === null || compareVersions(version, max) > 0 ? version : max, null)
+}
\ No newline at end of file
@@ -1,95 +1,293 @@
 import Parser from "@parser/parser.ts"
 import { Keywords, Tokens } from "@lexer/lexer.ts"
 import { parseAsync } from "@parser/components/functions.ts"
-import { AccessorModifiers, ScrapClassEntityProps } from "@typings"
+import { parseDataType } from "@parser/type-parser.ts"
+import { SCRAP_OBJECT_CLASS } from "@lang/api/native/std.ts"
+import { AccessorModifiers, Nullable, ScrapClassEntityProps } from "@typings"
 
 import { Scope } from "@lang/scope.ts"
-import { DefinedFunction } from "@lang/elements/commons.ts"
-import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { DefinedFunction, ScrapObject, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapNew, ScrapSuper } from "@lang/elements/values/instance.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapVariable, ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
+
+/**
+ * Searchs the class whose method contains the code placed in `scope`
+ * @returns The class, or null if the code is not placed inside a method
+ */
+export function getEnclosingClass(scope: Scope): Nullable<ScrapClass> {
+  let currentScope: Nullable<Scope> = scope
+
+  while (currentScope !== null) {
+    // the scope where methods are declared contains the class itself
+    const owner = currentScope.getScopedEntities.get(currentScope.getOwner)
+
+    if (owner instanceof ScrapClass)
+      return owner
+
+    currentScope = currentScope.getParentScope
+  }
+
+  return null
+}
+
+/**
+ * Searchs the name of the method which contains the code placed in `scope`
+ * @returns The method name, or null if the code is not placed inside a method
+ */
+function getEnclosingMethodName(scope: Scope): Nullable<string> {
+  let currentScope: Nullable<Scope> = scope
+
+  while (currentScope !== null) {
+    const parentScope: Nullable<Scope> = currentScope.getParentScope
+
+    // the scope of a method is a child of the scope where the class methods are declared
+    if (parentScope?.getScopedEntities.get(parentScope.getOwner) instanceof ScrapClass)
+      return currentScope.getOwner
+
+    currentScope = parentScope
+  }
+
+  return null
+}
+
+/**
+ * Parses `super`, which can be used inside the methods of a class which extends other class.
+ * The parent constructor can only be called inside a constructor
+ * 
+ * @example
+ * super(name)
+ * super.describe()
+ */
+export function parseSuper(parser: Parser, scope: Scope): ScrapSuper {
+  const superTok = parser.cursor.currentTok
+  const parentClass = getEnclosingClass(scope)?.getParent
+  const thisVar = scope.getReference(Keywords.THIS)
+
+  if (!parentClass || !(thisVar instanceof ScrapVariable))
+    parser.scrapParseError("'super' can only be used inside the methods of a class which extends other class")
+
+  const accessTok = parser.nextToken() // eat 'super'
+
+  if (accessTok.content === Tokens.LPAREN && getEnclosingMethodName(scope) !== Keywords.CONSTRUCTOR)
+    parser.scrapParseError("The parent constructor can only be called inside a constructor")
+
+  if (accessTok.content !== Tokens.LPAREN && accessTok.content !== Tokens.DOT)
+    parser.scrapParseError("Expected a call to the parent constructor or an access to a parent member after 'super'")
+
+  return new ScrapSuper(parentClass, new ScrapVariableAccess(thisVar, superTok))
+}
+
+/**
+ * Tries to know the class of an object while parsing. It is known for new objects, constants which stores a new object and `super`
+ * @returns The class of the object, or null if it can only be known at runtime
+ */
+export function inferObjectClass(object: ScrapValue): Nullable<ScrapClass> {
+  if (object instanceof ScrapNew)
+    return object.getInstantiatedClass
+
+  if (object instanceof ScrapSuper)
+    return object.getParentClass
+
+  if (!(object instanceof ScrapVariableAccess))
+    return null
+
+  const variable = object.getAccessedVariable
+
+  if (variable.getVariableType === "constant" && variable.getAssignedValue instanceof ScrapNew)
+    return variable.getAssignedValue.getInstantiatedClass
+
+  return null
+}
+
+/**
+ * Parses a property declared without `var`, which must have a data type and optionally an initial value
+ * 
+ * @example
+ * name: String
+ * age: u8 = 18
+ */
+function parseClassProperty(parser: Parser, scope: Scope): ScrapVariable {
+  const nameToken = parser.cursor.currentTok
+  let value: ScrapValue = new ScrapUndefined()
+
+  parser.nextToken() // eat property name
+  const dataType = parseDataType(parser, "Expected data type")
+
+  if (parser.nextToken().content === Tokens.EQUAL) {
+    parser.nextToken() // eat '='
+    value = parser.parseExpr(scope)
+  }
+
+  return new ScrapVariable("variable", nameToken.content, value, dataType, nameToken)
+}
 
 function parseClassEntity(parser: Parser, isStatic: boolean, scope: Scope): ScrapVariable | DefinedFunction {
-  switch (parser.cursor.currentTok.content) {
+  const entityTok = parser.cursor.currentTok
+
+  switch (entityTok.content) {
     case Keywords.ASYNC: return parseAsync(parser, true, isStatic, scope)
     case Keywords.FN: return parser.parseFunction(false, true, isStatic, scope)
     case Keywords.CONST:
     case Keywords.VAR: return parser.parseVar(scope)
   }
 
+  if (entityTok.type === "IdentifierName") {
+    // methods can be declared without `fn`, e.g: `iter() {}`
+    if (parser.cursor.next().content === Tokens.LPAREN)
+      return parser.parseFunctionDeclaration(entityTok.content, false, true, isStatic && entityTok.content !== Keywords.CONSTRUCTOR, scope)
+
+    if (parser.cursor.next().content === Tokens.COLON)
+      return parseClassProperty(parser, scope)
+  }
+
   parser.scrapParseError("Unknown class entity")
 }
 
-function canStaticOrOverride(parser: Parser): { isStatic: boolean, canOverride: boolean } {
-  parser.nextToken() // eat 'static'
-  const isStatic = true
-  let canOverride = false
+/**
+ * Parses the creation of an object of a class. The class can be exported by a module
+ * 
+ * `new Object()` is the same as the literal `{}`, so the created object can receive any property
+ * 
+ * @example
+ * new Person("Juan", 30)
+ * new PersonsTypes.Albanil(20)
+ */
+export function parseNew(parser: Parser, scope: Scope): ScrapNew | ScrapObject {
+  const newTok = parser.cursor.currentTok
+  let classNameTok = parser.expectsType("IdentifierName", "Expected a class name after 'new'")
+  let instantiatedClass = scope.getReference(classNameTok.content)
+
+  while (instantiatedClass instanceof ScrapModule && (parser.cursor.next().content === Tokens.DOT || parser.cursor.next().content === Tokens.MODULE_ACCESSOR)) {
+    const accessedModule: ScrapModule = instantiatedClass
+
+    parser.nextToken() // eat the module name
+    classNameTok = parser.expectsType("IdentifierName", `Expected a class name after '${accessedModule.name}'`)
+    instantiatedClass = accessedModule.getScope.getScopedEntities.get(classNameTok.content)
+
+    if (instantiatedClass && !accessedModule.isExported(instantiatedClass.name))
+      parser.scrapParseError(`Module entity '${classNameTok.content}' exists but is not exported by '${accessedModule.name}'`)
+  }
+
+  if (!instantiatedClass)
+    parser.scrapReferenceError(classNameTok)
+
+  if (!(instantiatedClass instanceof ScrapClass))
+    parser.scrapParseError(`'${classNameTok.content}' is not a class`)
+
+  if (parser.nextToken().content !== Tokens.LPAREN)
+    parser.scrapParseError("Missing argument list after the class name")
+
+  const args = parser.parseCallArgs(scope)
+
+  if (instantiatedClass === SCRAP_OBJECT_CLASS) {
+    if (args.length > 0)
+      parser.scrapParseError("'Object' does not receive arguments, it creates an empty object")
 
-  // @ts-ignore: parser.nextToken() has already advanced the position of the cursor
-  // so the comparation is correct
-  if (parser.cursor.currentTok.content === Keywords.OVERRIDE) {
-    parser.nextToken() // eat 'override'
-    canOverride = true
+    return new ScrapObject(null, new Map())
   }
 
-  return { isStatic, canOverride }
+  return new ScrapNew(instantiatedClass, args, newTok)
 }
 
-function canOverrideF(parser: Parser): boolean {
-  parser.nextToken() // place currentTok to 'override'
-  const canOverride = true
+/**
+ * Checks if the current token starts an accessor section, which sets the accessor of the entities declared after it
+ * 
+ * @example
+ * private:
+ *  name: String
+ *  age: u8
+ */
+function isAccessorSection(parser: Parser): boolean {
+  const accessors: string[] = [Keywords.PUBLIC, Keywords.PRIVATE, Keywords.PROTECTED]
+  return accessors.includes(parser.cursor.currentTok.content) && parser.cursor.next().content === Tokens.COLON
+}
+
+/**
+ * Parses the modifiers placed before a class entity, which can be placed in any order
+ * 
+ * A class entity without accessor modifier uses the accessor of its section, which is `private` by default
+ * 
+ * @example
+ * public static fn create() {}
+ * protected override fn describe() {}
+ */
+function parseEntityModifiers(parser: Parser, defaultAccessor: AccessorModifiers): Omit<ScrapClassEntityProps, "entitiyType"> {
+  let accessor = defaultAccessor
+  let isStatic = false
+  let canOverride = false
 
-  const nextToken = parser.cursor.next()
+  while (true) {
+    switch (parser.cursor.currentTok.content) {
+      case Keywords.PUBLIC:
+      case Keywords.PRIVATE:
+      case Keywords.PROTECTED: accessor = parser.cursor.currentTok.content; break
+      case Keywords.STATIC: isStatic = true; break
+      case Keywords.OVERRIDE: canOverride = true; break
+      default: return { accessor, isStatic, canOverride }
+    }
 
-  switch (nextToken.content) {
-    case Keywords.FN:
-    case Keywords.CONST:
-    case Keywords.VAR: break
-    default: parser.scrapParseError("'override' keyword must be preceeded only by a function or variable declaration")   
-    
+    parser.nextToken() // eat the modifier
   }
+}
 
-  return canOverride
+/**
+ * Checks that an entity which overrides a member inherited from the parent classes is declared using `override`,
+ * and that an entity declared using `override` has an inherited member to override.
+ * 
+ * Private members of the parent classes are not inherited, so they can not be overridden.
+ * A member described by an implemented interface can be declared using `override`, but it is not required
+ */
+function checkOverride(parser: Parser, entityProps: ScrapClassEntityProps, ownerClass: Nullable<ScrapClass>) {
+  const entityName = entityProps.entitiyType.name
+
+  if (entityName === Keywords.CONSTRUCTOR)
+    return
+
+  const inherited = ownerClass?.getParent?.findEntity(entityName)
+  const isInherited = inherited !== undefined && inherited.entity.accessor !== "private"
+  const isDescribed = ownerClass?.getInterfaces.some(implemented => implemented.getMembers.some(member => member.name === entityName)) ?? false
+
+  if (isInherited && !entityProps.canOverride)
+    parser.scrapParseError(`'${entityName}' overrides a member of the class '${inherited.owner.name}', so it must be declared using 'override'`)
+
+  if (!isInherited && !isDescribed && entityProps.canOverride)
+    parser.scrapParseError(`'${entityName}' is declared using 'override', but there is not an inherited member '${entityName}' to override`)
 }
 
 /**
  * Same as `parseBody`, but since there are specific keywords inside a class body
  * like: public, private, protected or static. Parsing the content is different
+ * 
+ * @param scope Scope where the class entities are registered
+ * @param methodsScope Scope where the class entities are parsed, which is the parent scope of the methods
  */
 export function parseClassBody(
-    parser: Parser, classEntities: ScrapClassEntityProps[], scope: Scope
+    parser: Parser, classEntities: ScrapClassEntityProps[], scope: Scope, methodsScope: Scope
   ): ScrapClassEntityProps[] {
     parser.nextToken() // eat '{'
-    let accessor: AccessorModifiers = "private"
-    let isStatic = false
-    let canOverride = false
+    const ownerClass = getEnclosingClass(methodsScope)
+    let sectionAccessor: AccessorModifiers = "private"
 
     while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
-      switch (parser.cursor.currentTok.content) {
-        case Keywords.PUBLIC:
-        case Keywords.PRIVATE:
-        case Keywords.PROTECTED: {
-          accessor = parser.cursor.currentTok.content
-          
-          parser.nextToken() // eat accessor modifier
-        } break
-
-        case Keywords.STATIC: {
-          const entityProps = canStaticOrOverride(parser)
-          isStatic = entityProps.isStatic
-          canOverride = entityProps.canOverride
-        } break
-  
-        case Keywords.OVERRIDE: {
-          canOverride = canOverrideF(parser)
-        } break
+      if (isAccessorSection(parser)) {
+        sectionAccessor = parser.cursor.currentTok.content as AccessorModifiers
+        parser.nextToken() // eat the accessor
+        parser.nextToken() // eat ':'
+        continue
       }
 
-      const parsedClassScrapEntity = parseClassEntity(parser, isStatic, scope)
-      classEntities.push({ accessor, isStatic, canOverride, entitiyType: parsedClassScrapEntity })
+      const modifiers = parseEntityModifiers(parser, sectionAccessor)
+
+      const parsedClassScrapEntity = parseClassEntity(parser, modifiers.isStatic, methodsScope)
+      const entityProps = { ...modifiers, entitiyType: parsedClassScrapEntity }
+
+      checkOverride(parser, entityProps, ownerClass)
+      classEntities.push(entityProps)
   
       parser.addToScope(scope, parsedClassScrapEntity.name, parsedClassScrapEntity)
-      
-      isStatic = false
-      canOverride = false
     }
 
 
@@ -0,0 +1,114 @@
+import type { ScrapEnumVariant, ScrapParam } from "@typings"
+
+import { Tokens } from "@lexer/lexer.ts"
+import Parser from "@parser/parser.ts"
+import { parseParamList } from "@parser/components/functions.ts"
+
+import { Scope } from "@lang/scope.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+import { ScrapVariantAccess } from "@lang/elements/values/enum.ts"
+
+/**
+ * Parses a variant of an enum. The associated values of the variant are declared like function parameters
+ *
+ * @example
+ * Red
+ * Custom(r: u8, g: u8, b: u8)
+ */
+function parseEnumVariant(parser: Parser): ScrapEnumVariant {
+  const variantTok = parser.cursor.currentTok
+
+  if (variantTok.type !== "IdentifierName")
+    parser.scrapParseError("Expected a variant name")
+
+  let params: ScrapParam[] = []
+
+  if (parser.cursor.next().content === Tokens.LPAREN) {
+    parser.nextToken() // eat the variant name
+
+    const areParameters = parser.cursor.next().content !== Tokens.RPAREN
+    params = areParameters ? parseParamList(parser) : []
+
+    if (!areParameters)
+      parser.nextToken() // eat '(' if there are not associated values
+  }
+
+  return { name: variantTok.content, params }
+}
+
+/**
+ * Parses an enum declaration, whose variants are separated using ','
+ *
+ * @example
+ * enum Color {
+ *  Red,
+ *  Green,
+ *  Custom(r: u8, g: u8, b: u8)
+ * }
+ */
+export function parseEnum(parser: Parser): ScrapEnum {
+  const enumName = parser.expectsType("IdentifierName", "Expected an enum name").content
+  parser.expectsContent(Tokens.LBRACE, "Missing enum body opening '{'")
+  parser.nextToken() // eat '{'
+
+  const variants: ScrapEnumVariant[] = []
+
+  while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
+    const variant = parseEnumVariant(parser)
+
+    if (variants.some(declared => declared.name === variant.name))
+      parser.scrapParseError(`Duplicate variant '${variant.name}' in the enum '${enumName}'`)
+
+    variants.push(variant)
+
+    const separator = parser.nextToken() // eat the variant name or ')'
+
+    if (separator.content === Tokens.COMMA)
+      parser.nextToken() // eat ','
+    else if (separator.content !== Tokens.RBRACE)
+      parser.scrapParseError("Expected ',' or '}' after an enum variant")
+  }
+
+  parser.nextToken() // eat '}'
+
+  return new ScrapEnum(enumName, variants)
+}
+
+/**
+ * Parses the access to a variant of an enum. The current token must be the '::' placed after the enum name
+ *
+ * A variant with associated values must receive all of them, like a function call
+ *
+ * @example
+ * Color::Red
+ * Color::Custom(255, 0, 0)
+ */
+export function parseVariantAccess(parser: Parser, accessedEnum: ScrapEnum, scope: Scope): ScrapVariantAccess {
+  const variantTok = parser.expectsType("IdentifierName", "Expected a variant name after '::'")
+  const variant = accessedEnum.getVariant(variantTok.content)
+
+  if (!variant)
+    parser.scrapParseError(`'${variantTok.content}' is not a variant of the enum '${accessedEnum.name}'`)
+
+  const variantName = `${accessedEnum.name}::${variant.name}`
+  const hasArgs = parser.cursor.next()?.content === Tokens.LPAREN
+
+  if (variant.params.length === 0) {
+    if (hasArgs)
+      parser.scrapParseError(`'${variantName}' does not have associated values`)
+
+    parser.nextToken() // eat the variant name
+    return new ScrapVariantAccess(accessedEnum, variant.name, [])
+  }
+
+  if (!hasArgs)
+    parser.scrapParseError(`'${variantName}' must be created with its associated values`)
+
+  parser.nextToken() // eat the variant name
+  const args = parser.parseCallArgs(scope)
+
+  if (args.length !== variant.params.length)
+    parser.scrapParseError(`'${variantName}' expects ${variant.params.length} associated values, but ${args.length} were received`)
+
+  return new ScrapVariantAccess(accessedEnum, variant.name, args)
+}
\ No newline at end of file
@@ -1,14 +1,18 @@
 
-import { ScrapParam, AllowedBlockEntities } from "@typings"
+import { ScrapParam, AllowedBlockEntities, Nullable } from "@typings"
 
-import { Scope } from "@lang/scope.ts"
+import { Scope, createEmptyScope } from "@lang/scope.ts"
 
 import Parser from "@parser/parser.ts"
 import { Keywords, Tokens } from "@lexer/lexer.ts"
+import { parseBlockBody } from "@parser/components/statements.ts"
+import { parseDataType } from "@parser/type-parser.ts"
 
+import { DefinedFunction } from "@lang/elements/commons.ts"
+import { ScrapLambda } from "@lang/elements/values/lambda.ts"
+import { ScrapReturn } from "@lang/elements/control/jumps.ts"
 import { ScrapUndefined } from "@lang/elements/values/absence.ts"
 import { ScrapVariable } from "@lang/elements/entities/variable.ts"
-import { DefinedFunction, ScrapValue } from "@lang/elements/commons.ts"
 
 export function parseAsync(parser: Parser, isMethod: boolean, isStatic: boolean, scope: Scope): DefinedFunction {
   parser.expectsContent(Keywords.FN, "'async' keywords is only applicable to functions")
@@ -19,7 +23,7 @@ export function parseAsync(parser: Parser, isMethod: boolean, isStatic: boolean,
 function parseParameter(parser: Parser): ScrapParam {
   const pName = parser.expectsType("IdentifierName", "Missing parameter name").content
   parser.nextToken() // eats ':' token
-  const pType = parser.expectsType("IdentifierName", "Missing parameter data type").content
+  const pType = parseDataType(parser, "Missing parameter data type")
 
   return { pName, pType }
 }
@@ -33,76 +37,123 @@ export function parseParamList(parser: Parser) {
   while (parser.cursor.currentTok.content !== Tokens.RPAREN) {
     params.push(parseParameter(parser))
 
-    if (parser.nextToken().content === Tokens.COMMA) {
-      parser.nextToken()
-    }
+    const separator = parser.nextToken().content
+
+    // the comma is not consumed, since `parseParameter` expects the name of the parameter as the next token
+    if (separator !== Tokens.COMMA && separator !== Tokens.RPAREN)
+      parser.scrapParseError("Expected ',' or ')' after a parameter")
   }
 
   return params
 }
 
 /**
- * Parses a function entity, which is any element which is allowed to be placed inside a function body (between '{' and '}')
- *
- * @param parser Parser used to _parse_ the function body
- * @param scope scope where variabled are saved and references are searched
- * @returns An allowed element inside a function body: they can be: other `DefinedFunctions`, `ScrapVariables` or `ScrapCalls` to any function
+ * Parses the data type that a function returns, placed after the parameter list. The current token must be the ')' of the parameter list
+ * 
+ * @example
+ * fn double(x: i32): i32 { return x * 2 }
+ * 
+ * @returns The name of the data type, null if the function does not declare it
  */
-function parseFunctionEntity(parser: Parser, scope: Scope): AllowedBlockEntities {
-  const toBeParsedTok = parser.cursor.currentTok
+export function parseReturnType(parser: Parser): Nullable<string> {
+  if (parser.cursor.next().content !== Tokens.COLON)
+    return null
 
-  if (toBeParsedTok.type === "IdentifierName") {
-    const parsedId = parser.parseIdentifier(scope)
+  parser.nextToken() // eat ')'
 
-    return parsedId as AllowedBlockEntities //! temporal casting technique, will be removed in the future
-  } else {
-    switch (toBeParsedTok.content) {
-      case Keywords.FN:
-      case Keywords.VAR:
-      case Keywords.CONST: return parser.parseStatement(scope) as AllowedBlockEntities
-
-      default: parser.scrapParseError("Only 'fn', 'var', 'const', function calls and assignments are allowed inside a function body")
-    }
-  }
+  return parseDataType(parser, "Expected the return data type after ':'")
 }
 
 /**
  * Parse the block of code that correspond with a function. Which is represented by contain code between '{' and a '}'
- * @param isMethod
  * @param scope `Scope` where the function can registry variables that has been declared inside his body
  */
-export function parseFunctionBody(parser: Parser, isMethod: boolean, scope: Scope): { body: AllowedBlockEntities[], return: ScrapValue } {  
-  const body: AllowedBlockEntities[] = []
-  let parsedVal: AllowedBlockEntities
-
-  while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
-    if (parser.cursor.currentTok.content === Keywords.RETURN) {
-      if (isMethod)
-        parser.scrapParseError("A constructor can not have a return statement")
-      
-      return { body, return: parseReturn(parser, scope) }
-    } else {
-      parsedVal = parseFunctionEntity(parser, scope)
-      if ((parsedVal instanceof DefinedFunction) || (parsedVal instanceof ScrapVariable))
-        parser.addToScope(scope, parsedVal.name, parsedVal)
-
-      body.push(parsedVal)
-    }
+export function parseFunctionBody(parser: Parser, scope: Scope): AllowedBlockEntities[] {
+  return parseBlockBody(parser, scope)
+}
+
+/**
+ * Checks if the parentheses which start at the current token are the parameter list of an arrow lambda, e.g: `(x: i32) -> x * 2`,
+ * instead of an expression placed between parentheses
+ */
+export function isArrowLambda(parser: Parser): boolean {
+  const tokens = parser.cursor.source
+  let depth = 0
+
+  for (let i = parser.cursor.pos - 1; i < tokens.length; i++) {
+    if (tokens[i].type !== "Token")
+      continue
+
+    if (tokens[i].content === Tokens.LPAREN)
+      depth++
+    else if (tokens[i].content === Tokens.RPAREN && --depth === 0)
+      return tokens[i + 1]?.content === Tokens.ARROW
   }
 
-  return { body, return: new ScrapUndefined() }
+  return false
+}
+
+/**
+ * Parses the parameter list and the body of a lambda. The current token must be the '(' of the parameter list
+ * @param isArrowLambda If true, the lambda is written without `fn`, so the '->' is required and it can be followed by a block of code
+ */
+function parseLambdaDefinition(parser: Parser, scope: Scope, isArrowLambda: boolean): ScrapLambda {
+  const areParameters = parser.cursor.next().content !== Tokens.RPAREN
+  const params: ScrapParam[] = areParameters ? parseParamList(parser) : []
+
+  if (!areParameters)
+    parser.nextToken() // eat '(' if there are not parameters
+
+  const lambdaScope = createEmptyScope(scope, "lambda")
+  params.forEach(param => parser.addToScope(lambdaScope, param.pName, new ScrapVariable("variable", param.pName, new ScrapUndefined(), param.pType)))
+
+  // the body starts after the ')'
+  if (parser.nextToken().content === Tokens.ARROW) {
+    parser.nextToken() // eat '->'
+
+    if (!isArrowLambda || parser.cursor.currentTok.content !== Tokens.LBRACE) {
+      const returnTok = parser.cursor.currentTok
+      return new ScrapLambda(params, [new ScrapReturn(parser.parseExpr(lambdaScope), returnTok)], lambdaScope)
+    }
+  } else if (isArrowLambda || parser.cursor.currentTok.content !== Tokens.LBRACE)
+    parser.scrapParseError("Expected '->' or '{' after the lambda parameter list")
+
+  parser.nextToken() // eat '{'
+
+  const body = parseFunctionBody(parser, lambdaScope)
+
+  parser.nextToken() // eat '}'
+
+  return new ScrapLambda(params, body, lambdaScope)
+}
+
+/**
+ * Parses an anonymous function. Its body can be a block of code, or a single expression placed after an arrow `->` which is returned
+ * 
+ * @example
+ * fn (x: i32) -> x * 2
+ * 
+ * fn (name: string) {
+ *  console.log("Hello " + name)
+ * }
+ */
+export function parseLambda(parser: Parser, scope: Scope): ScrapLambda {
+  parser.expectsContent(Tokens.LPAREN, "Missing parameter list")
+
+  return parseLambdaDefinition(parser, scope, false)
 }
 
 /**
- * Parses a return statement
- * @explain
- * - A `return` statement is used only inside a function body to indicate that the execution of that variable must stop
- *
- * - The `return` statement can be used to return an `Expression` from the function where `return` keyword was placed too.
- *
- * @returns An `Expression`
+ * Parses an anonymous function written without `fn`. The current token must be the '(' of the parameter list.
+ * The arrow is followed by a single expression which is returned, or by a block of code
+ * 
+ * @example
+ * (x: i32) -> x * 2
+ * 
+ * (name: string) -> {
+ *  console.log("Hello " + name)
+ * }
  */
-export function parseReturn(parser: Parser, scope: Scope): ScrapValue {
-  parser.nextToken() // eat 'return' keyword
-  return parser.parseExpr(scope)
+export function parseArrowLambda(parser: Parser, scope: Scope): ScrapLambda {
+  return parseLambdaDefinition(parser, scope, true)
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import type { Nameable } from "@typings"
+
+import { Keywords, Token, Tokens } from "@lexer/lexer.ts"
+import Parser from "@parser/parser.ts"
+
+import { Scope } from "@lang/scope.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+import { ScrapImport, ScrapModule } from "@lang/elements/entities/modules.ts"
+
+/**
+ * An entity listed between '{' and '}' in an `import` statement
+ */
+interface ImportedEntity {
+  nameTok: Token,
+  alias: string,
+  isType: boolean
+}
+
+/**
+ * Parses the module placed at the end of an `import` statement, which can be a name or a string. The current token must be the module
+ */
+function parseModuleSpecifier(parser: Parser): string {
+  const specifierTok = parser.cursor.currentTok
+
+  if (specifierTok?.type !== "IdentifierName" && specifierTok?.type !== "StringLiteral")
+    parser.scrapParseError("Expected a module name or a string with the module path")
+
+  return specifierTok.content
+}
+
+/**
+ * Parses the entities listed between '{' and '}'. An entity can be renamed using `as`, and `type` marks that the entity is only used as a type
+ *
+ * @example
+ * { Albanil as al, type Iterable, fetch }
+ */
+function parseImportedEntities(parser: Parser): ImportedEntity[] {
+  const entities: ImportedEntity[] = []
+
+  do {
+    let nameTok = parser.nextToken() // eat '{' or ','
+    const isType = nameTok.content === Keywords.TYPE
+
+    if (isType)
+      nameTok = parser.nextToken() // eat 'type'
+
+    if (nameTok.type !== "IdentifierName")
+      parser.scrapParseError("Expected the name of an imported entity")
+
+    let alias = nameTok.content
+
+    if (parser.nextToken().content === Keywords.AS) { // eat the entity name
+      alias = parser.expectsType("IdentifierName", "Expected a name after 'as'").content
+      parser.nextToken() // eat the alias
+    }
+
+    entities.push({ nameTok, alias, isType })
+  } while (parser.cursor.currentTok.content === Tokens.COMMA)
+
+  if (parser.cursor.currentTok.content !== Tokens.RBRACE)
+    parser.scrapParseError("Missing '}' after the imported entities")
+
+  return entities
+}
+
+function isTypeEntity(entity: Nameable): boolean {
+  return entity instanceof ScrapClass || entity instanceof ScrapInterface || entity instanceof ScrapEnum
+}
+
+/**
+ * Adds to the importer scope an entity exported by the imported module
+ */
+function importEntity(parser: Parser, importedModule: ScrapModule, imported: ImportedEntity, scope: Scope) {
+  const entityName = imported.nameTok.content
+  const entity = importedModule.getScope.getScopedEntities.get(entityName)
+
+  if (!entity)
+    parser.scrapParseError(`The module '${importedModule.name}' does not declare '${entityName}'`)
+
+  if (!importedModule.isExported(entity.name))
+    parser.scrapParseError(`Module entity '${entityName}' exists but is not exported by '${importedModule.name}'`)
+
+  if (imported.isType && !isTypeEntity(entity))
+    parser.scrapParseError(`'${entityName}' is imported as a type, but it is not a class, an interface or an enum`)
+
+  parser.addToScope(scope, imported.alias, entity)
+}
+
+/**
+ * Parses an `import` statement, which can import the whole module, the whole module using another name, or some entities of the module
+ *
+ * @example
+ * import os
+ * import * as system from os
+ * import { shutdown } from os
+ * import { fetch } from "scrap:net"
+ * import { Albanil as al } from "./instanceof"
+ */
+export function parseImport(parser: Parser, scope: Scope): ScrapImport {
+  const importTok = parser.nextToken() // eat 'import' keyword
+
+  if (importTok.content === Tokens.LBRACE) {
+    const entities = parseImportedEntities(parser)
+
+    parser.expectsContent(Keywords.FROM, "Expected 'from' after the imported entities")
+    parser.nextToken() // eat 'from'
+
+    const importedModule = parser.resolver.resolve(parser, parseModuleSpecifier(parser))
+    entities.forEach(imported => importEntity(parser, importedModule, imported, scope))
+
+    parser.nextToken() // eat the module
+    return new ScrapImport(importedModule)
+  }
+
+  let alias: string | undefined
+
+  if (importTok.content === Tokens.STAR) {
+    parser.expectsContent(Keywords.AS, "Expected 'as' after '*'")
+    alias = parser.expectsType("IdentifierName", "Expected the name of the imported module after 'as'").content
+    parser.expectsContent(Keywords.FROM, "Expected 'from' after the name of the imported module")
+    parser.nextToken() // eat 'from'
+  }
+
+  const importedModule = parser.resolver.resolve(parser, parseModuleSpecifier(parser))
+  const moduleName = alias ?? importedModule.name
+
+  // a module which is already accessible using the same name (e.g: `import std`) is not added again
+  if (scope.getReference(moduleName) !== importedModule)
+    parser.addToScope(scope, moduleName, importedModule)
+
+  parser.nextToken() // eat the module
+  return new ScrapImport(importedModule)
+}
+
+/**
+ * Parses a list of entities, already declared in the file, which are exported
+ *
+ * @example
+ * export { Albanil, Medico }
+ */
+export function parseExportList(parser: Parser, exportingModule: ScrapModule) {
+  do {
+    const nameTok = parser.expectsType("IdentifierName", "Expected the name of an exported entity")
+    const entity = exportingModule.getScope.getScopedEntities.get(nameTok.content)
+
+    if (!entity)
+      parser.scrapReferenceError(nameTok)
+
+    exportingModule.export(entity.name)
+  } while (parser.nextToken().content === Tokens.COMMA)
+
+  if (parser.cursor.currentTok.content !== Tokens.RBRACE)
+    parser.scrapParseError("Missing '}' after the exported entities")
+
+  parser.nextToken() // eat '}'
+}
\ No newline at end of file
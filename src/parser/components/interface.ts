@@ -0,0 +1,174 @@
+import type { Nullable, ScrapInterfaceMember, ScrapParam } from "@typings"
+
+import { Keywords, Tokens } from "@lexer/lexer.ts"
+import Parser from "@parser/parser.ts"
+import { parseParamList, parseReturnType } from "@parser/components/functions.ts"
+import { parseDataType } from "@parser/type-parser.ts"
+
+import { Scope } from "@lang/scope.ts"
+import { DefinedFunction } from "@lang/elements/commons.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+
+/**
+ * Parses a member of an interface, which can be a method signature or a property with its data type.
+ * Members can be separated using ';'
+ *
+ * @example
+ * fn area(): f64;
+ * name: String
+ */
+function parseInterfaceMember(parser: Parser): ScrapInterfaceMember {
+  const memberTok = parser.cursor.currentTok
+  let member: ScrapInterfaceMember
+
+  if (memberTok.content === Keywords.FN) {
+    const name = parser.expectsType("IdentifierName", "Missing method name").content
+    parser.expectsContent(Tokens.LPAREN, "Missing parameter list")
+
+    const areParameters = parser.cursor.next().content !== Tokens.RPAREN
+    const params: ScrapParam[] = areParameters ? parseParamList(parser) : []
+
+    if (!areParameters)
+      parser.nextToken() // eat '(' if there are not parameters
+
+    member = { name, kind: "method", params, dataType: parseReturnType(parser) }
+  } else if (memberTok.type === "IdentifierName" && parser.cursor.next().content === Tokens.COLON) {
+    parser.nextToken() // eat property name
+    const dataType = parseDataType(parser, "Expected data type")
+
+    member = { name: memberTok.content, kind: "property", params: [], dataType }
+  } else
+    parser.scrapParseError("Expected a method signature or a property inside the interface body")
+
+  if (parser.nextToken().content === Tokens.SEMICOLON)
+    parser.nextToken() // eat ';'
+
+  return member
+}
+
+/**
+ * Parses an interface declaration. An interface only contains the signatures of its members, without implementing them
+ *
+ * @example
+ * interface Shape {
+ *  fn area(): f64;
+ *  fn scale(factor: f64): Shape;
+ *  name: String
+ * }
+ */
+export function parseInterface(parser: Parser): ScrapInterface {
+  const interfaceName = parser.expectsType("IdentifierName", "Expected an interface name").content
+  parser.expectsContent(Tokens.LBRACE, "Missing interface body opening '{'")
+  parser.nextToken() // eat '{'
+
+  const members: ScrapInterfaceMember[] = []
+
+  while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
+    const member = parseInterfaceMember(parser)
+
+    if (members.some(declared => declared.name === member.name))
+      parser.scrapParseError(`Duplicate member '${member.name}' in the interface '${interfaceName}'`)
+
+    members.push(member)
+  }
+
+  parser.nextToken() // eat '}'
+
+  return new ScrapInterface(interfaceName, members)
+}
+
+/**
+ * Parses the comma separated list of interfaces placed after `implements`. The current token must be `implements`
+ *
+ * @example
+ * class Square implements Shape, Printable {}
+ */
+export function parseImplementedInterfaces(parser: Parser, scope: Scope): ScrapInterface[] {
+  const interfaces: ScrapInterface[] = []
+
+  do {
+    const interfaceTok = parser.expectsType("IdentifierName", "Expected an interface name after 'implements'")
+    const implemented = scope.getReference(interfaceTok.content)
+
+    if (!implemented)
+      parser.scrapReferenceError(interfaceTok)
+
+    if (!(implemented instanceof ScrapInterface))
+      parser.scrapParseError(`'${interfaceTok.content}' is not an interface`)
+
+    if (interfaces.includes(implemented))
+      parser.scrapParseError(`The interface '${implemented.name}' is implemented more than once`)
+
+    interfaces.push(implemented)
+  } while (parser.nextToken().content === Tokens.COMMA)
+
+  return interfaces
+}
+
+function describeMember(member: ScrapInterfaceMember): string {
+  if (member.kind === "property")
+    return `${member.name}: ${member.dataType}`
+
+  const params = member.params.map(param => `${param.pName}: ${param.pType}`).join(", ")
+  const returnType = member.dataType ? `: ${member.dataType}` : ""
+
+  return `fn ${member.name}(${params})${returnType}`
+}
+
+/**
+ * Describes a member of a class using the same shape as the interfaces members, so both can be compared
+ */
+function toInterfaceMember(entity: ScrapVariable | DefinedFunction): ScrapInterfaceMember {
+  if (entity instanceof DefinedFunction)
+    return { name: entity.name, kind: "method", params: entity.getParams, dataType: entity.getDeclaredReturnType }
+
+  return { name: entity.name, kind: "property", params: [], dataType: entity.getDataType }
+}
+
+/**
+ * Checks if a class conforms to a member of an interface. The member can be declared in the class or inherited from its parent classes
+ *
+ * A method of the interface without return data type accepts any return data type
+ *
+ * @returns A message which explains why the class does not conform to the member, null if it conforms
+ */
+function getConformanceProblem(implementingClass: ScrapClass, member: ScrapInterfaceMember): Nullable<string> {
+  const found = implementingClass.findEntity(member.name)
+
+  if (!found || found.entity.isStatic)
+    return `missing ${member.kind} '${describeMember(member)}'`
+
+  if (found.entity.accessor !== "public")
+    return `'${member.name}' must be public`
+
+  const declared = toInterfaceMember(found.entity.entitiyType)
+
+  const matchesParams = declared.params.length === member.params.length &&
+    declared.params.every((param, i) => param.pType === member.params[i].pType)
+
+  const matchesType = member.dataType === null || declared.dataType === member.dataType
+
+  if (declared.kind !== member.kind || !matchesParams || !matchesType)
+    return `'${describeMember(declared)}' does not match '${describeMember(member)}'`
+
+  return null
+}
+
+/**
+ * Checks that a class declares every member of the interfaces it implements, reporting all the missing or mismatched members at once
+ */
+export function checkImplementedInterfaces(parser: Parser, implementingClass: ScrapClass) {
+  for (const implemented of implementingClass.getInterfaces) {
+    const problems = implemented.getMembers
+      .map(member => getConformanceProblem(implementingClass, member))
+      .filter(problem => problem !== null)
+
+    if (problems.length > 0)
+      parser.scrapParseError(
+        `The class '${implementingClass.name}' does not implement the interface '${implemented.name}':\n` +
+        problems.map(problem => `  - ${problem}`).join("\n")
+      )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,303 @@
+import type { AllowedBlockEntities, Nullable } from "@typings"
+import { inArray } from "@utils"
+
+import { Keywords, Token, Tokens } from "@lexer/lexer.ts"
+import Parser from "@parser/parser.ts"
+import { parseBlock, parseBlockEntity } from "@parser/components/statements.ts"
+
+import { Scope, createEmptyScope } from "@lang/scope.ts"
+import { ScrapPrimitive, ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+import { ScrapRange } from "@lang/elements/values/range.ts"
+import { UnaryExpression } from "@lang/elements/values/unary.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapFloat, ScrapInteger } from "@lang/elements/values/numerics.ts"
+import { ScrapVariable, ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
+import {
+  ScrapLiteralPattern, ScrapMatch, ScrapMatchArm, ScrapPattern,
+  ScrapRangePattern, ScrapVariantPattern, ScrapWildcardPattern
+} from "@lang/elements/control/match.ts"
+
+const WILDCARD = "_"
+
+/**
+ * Checks if a parsed expression can be used as a literal pattern. Negative numbers and constants which stores a literal are also literals
+ */
+function isLiteral(value: ScrapValue): boolean {
+  if (value instanceof UnaryExpression)
+    return value.getOperator === Tokens.MINUS && (value.getOperand instanceof ScrapInteger || value.getOperand instanceof ScrapFloat)
+
+  if (value instanceof ScrapVariableAccess) {
+    const accessedVariable = value.getAccessedVariable
+
+    return accessedVariable.getVariableType === "constant" && accessedVariable.getAssignedValue instanceof ScrapPrimitive
+  }
+
+  return value instanceof ScrapPrimitive
+}
+
+/**
+ * Parses a pattern which matches a variant of an enum. The current token must be the enum name
+ *
+ * The names placed between parenthesis are bound to the associated values inside the arm, `_` ignores an associated value.
+ * If the parenthesis are omitted, the pattern matches the variant without binding its associated values
+ *
+ * @example
+ * Color::Red
+ * Color::Custom(r, _, b)
+ */
+function parseVariantPattern(parser: Parser, matchedEnum: ScrapEnum, armScope: Scope): ScrapVariantPattern {
+  if (parser.nextToken().content !== Tokens.MODULE_ACCESSOR)
+    parser.scrapParseError(`Expected '::' after the enum '${matchedEnum.name}'`)
+
+  const variantTok = parser.expectsType("IdentifierName", "Expected a variant name after '::'")
+  const variant = matchedEnum.getVariant(variantTok.content)
+
+  if (!variant)
+    parser.scrapParseError(`'${variantTok.content}' is not a variant of the enum '${matchedEnum.name}'`)
+
+  const bindings: Nullable<ScrapVariable>[] = []
+
+  if (parser.nextToken().content !== Tokens.LPAREN) // eat the variant name
+    return new ScrapVariantPattern(matchedEnum, variant.name, bindings)
+
+  do {
+    const bindingName = parser.expectsType("IdentifierName", "Expected a name to bind the associated value").content
+
+    if (bindingName === WILDCARD) {
+      bindings.push(null)
+      continue
+    }
+
+    const binding = new ScrapVariable("constant", bindingName, new ScrapUndefined())
+    parser.addToScope(armScope, bindingName, binding)
+    bindings.push(binding)
+  } while (parser.nextToken().content === Tokens.COMMA)
+
+  if (parser.cursor.currentTok.content !== Tokens.RPAREN)
+    parser.scrapParseError("Missing ')' after the bound associated values")
+
+  parser.nextToken() // eat ')'
+
+  if (bindings.length !== variant.params.length)
+    parser.scrapParseError(`'${matchedEnum.name}::${variant.name}' has ${variant.params.length} associated values, but ${bindings.length} were bound`)
+
+  return new ScrapVariantPattern(matchedEnum, variant.name, bindings)
+}
+
+/**
+ * Parses a pattern of a `match` arm or a `switch` case
+ *
+ * @example
+ * Color::Custom(r, g, b)
+ * 10
+ * 0..9
+ * _
+ */
+function parsePattern(parser: Parser, armScope: Scope): ScrapPattern {
+  const patternTok = parser.cursor.currentTok
+
+  if (patternTok.type === "IdentifierName") {
+    if (patternTok.content === WILDCARD) {
+      parser.nextToken() // eat '_'
+      return new ScrapWildcardPattern()
+    }
+
+    const reference = armScope.getReference(patternTok.content)
+
+    if (reference instanceof ScrapEnum)
+      return parseVariantPattern(parser, reference, armScope)
+  }
+
+  const pattern = parser.parseExpr(armScope)
+
+  if (pattern instanceof ScrapRange)
+    return new ScrapRangePattern(pattern)
+
+  if (!isLiteral(pattern))
+    parser.scrapParseError("Expected a pattern: an enum variant, a literal, a range or '_'")
+
+  return new ScrapLiteralPattern(pattern)
+}
+
+/**
+ * Checks that a pattern can be placed after the previous arms. The patterns of enum variants can not be mixed with literals or ranges,
+ * nor with variants of other enums
+ *
+ * A warning is generated when the arm will never be executed
+ */
+function checkPattern(parser: Parser, previousArms: ScrapMatchArm[], pattern: ScrapPattern, patternTok: Token, keyword: string) {
+  const previousPatterns = previousArms.map(arm => arm.getPattern)
+  const isValuePattern = (previous: ScrapPattern) => previous instanceof ScrapLiteralPattern || previous instanceof ScrapRangePattern
+  const unreachableWarn = (reason: string) =>
+    parser.scrapGenerateWarn(`Unreachable '${keyword}' arm at ${patternTok.line}:${patternTok.pos}, ${reason}`)
+
+  if (previousPatterns.some(previous => previous instanceof ScrapWildcardPattern))
+    unreachableWarn("it is placed after an arm which matches any value")
+
+  if (pattern instanceof ScrapVariantPattern) {
+    if (previousPatterns.some(isValuePattern))
+      parser.scrapParseError(`The variants of an enum can not be mixed with literals or ranges in a '${keyword}'`)
+
+    for (const previous of previousPatterns) {
+      if (!(previous instanceof ScrapVariantPattern))
+        continue
+
+      if (previous.getEnum !== pattern.getEnum)
+        parser.scrapParseError(`The variants of the enums '${previous.getEnum.name}' and '${pattern.getEnum.name}' can not be mixed in a '${keyword}'`)
+
+      if (previous.getVariantName === pattern.getVariantName)
+        unreachableWarn(`the variant '${pattern.getEnum.name}::${pattern.getVariantName}' is already matched`)
+    }
+  } else if (isValuePattern(pattern) && previousPatterns.some(previous => previous instanceof ScrapVariantPattern))
+    parser.scrapParseError(`The variants of an enum can not be mixed with literals or ranges in a '${keyword}'`)
+}
+
+/**
+ * Checks that a `match` over an enum handles every variant of the enum. A `match` which has a `_` arm is always exhaustive
+ *
+ * Literals and ranges can not be checked while parsing, so a value which is not matched by any arm causes a runtime error
+ */
+function checkExhaustive(parser: Parser, arms: ScrapMatchArm[], keyword: string) {
+  const patterns = arms.map(arm => arm.getPattern)
+
+  if (patterns.some(pattern => pattern instanceof ScrapWildcardPattern))
+    return
+
+  const variantPatterns = patterns.filter(pattern => pattern instanceof ScrapVariantPattern)
+
+  if (variantPatterns.length === 0)
+    return
+
+  const matchedEnum = variantPatterns[0].getEnum
+  const missingVariants = matchedEnum.getVariants
+    .filter(variant => !variantPatterns.some(pattern => pattern.getVariantName === variant.name))
+    .map(variant => `'${matchedEnum.name}::${variant.name}'`)
+
+  if (missingVariants.length > 0) {
+    const fallback = keyword === Keywords.SWITCH ? "a 'default' case" : "a '_' arm"
+
+    parser.scrapParseError(
+      `Non-exhaustive '${keyword}' over the enum '${matchedEnum.name}', missing variants: ${missingVariants.join(", ")}. Handle them or add ${fallback}`
+    )
+  }
+}
+
+/**
+ * Parses the value which is matched and the opening '{' of the body of a `match` or a `switch`
+ */
+function parseMatched(parser: Parser, scope: Scope, keyword: string): ScrapValue {
+  parser.nextToken() // eat 'match' or 'switch' keyword
+
+  const matched = parser.parseExpr(scope)
+
+  if (parser.cursor.currentTok.content !== Tokens.LBRACE)
+    parser.scrapParseError(`Missing '${keyword}' body opening '{'`)
+
+  parser.nextToken() // eat '{'
+
+  return matched
+}
+
+/**
+ * Parses a `match` expression. Each arm is compounded by a pattern and an expression or a block of code placed after '->'.
+ * Arms can be separated using ','
+ *
+ * @example
+ * const name = match color {
+ *  Color::Red -> "red"
+ *  Color::Custom(r, g, b) -> {
+ *    console.log(r, g, b)
+ *  }
+ *  _ -> "other"
+ * }
+ */
+export function parseMatch(parser: Parser, scope: Scope): ScrapMatch {
+  const matched = parseMatched(parser, scope, Keywords.MATCH)
+  const arms: ScrapMatchArm[] = []
+
+  while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
+    const armScope = createEmptyScope(scope, Keywords.MATCH)
+    const patternTok = parser.cursor.currentTok
+    const pattern = parsePattern(parser, armScope)
+
+    checkPattern(parser, arms, pattern, patternTok, Keywords.MATCH)
+
+    if (parser.cursor.currentTok.content !== Tokens.ARROW)
+      parser.scrapParseError("Expected '->' after the pattern of the arm")
+
+    const bodyTok = parser.nextToken() // eat '->'
+
+    const body = bodyTok.content === Tokens.LBRACE
+      ? parseBlock(parser, armScope)
+      : parser.parseExpr(armScope)
+
+    arms.push(new ScrapMatchArm(pattern, body, armScope))
+
+    const separatorTok: Token = parser.cursor.currentTok
+
+    if (separatorTok.content === Tokens.COMMA)
+      parser.nextToken() // eat ','
+  }
+
+  parser.nextToken() // eat '}'
+
+  checkExhaustive(parser, arms, Keywords.MATCH)
+
+  return new ScrapMatch(matched, arms, false)
+}
+
+/**
+ * Parses a `switch` statement, which is represented as a `match` whose arms are blocks of code. The `default` case is a `_` arm
+ *
+ * There is not fall through between cases, and a `break` finishes the `switch`
+ *
+ * @example
+ * switch num {
+ *  case 0:
+ *    console.log("zero")
+ *  case 1..9:
+ *    console.log("digit")
+ *  default:
+ *    console.log("other")
+ * }
+ */
+export function parseSwitch(parser: Parser, scope: Scope): ScrapMatch {
+  const matched = parseMatched(parser, scope, Keywords.SWITCH)
+  const arms: ScrapMatchArm[] = []
+
+  while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
+    const caseTok = parser.cursor.currentTok
+    const armScope = createEmptyScope(scope, Keywords.SWITCH)
+    let pattern: ScrapPattern
+
+    if (caseTok.content === Keywords.DEFAULT) {
+      parser.nextToken() // eat 'default'
+      pattern = new ScrapWildcardPattern()
+    } else if (caseTok.content === Keywords.CASE) {
+      parser.nextToken() // eat 'case'
+      pattern = parsePattern(parser, armScope)
+    } else
+      parser.scrapParseError("Expected 'case' or 'default' inside the 'switch' body")
+
+    checkPattern(parser, arms, pattern, caseTok, Keywords.SWITCH)
+
+    if (parser.cursor.currentTok.content !== Tokens.COLON)
+      parser.scrapParseError(`Expected ':' after '${caseTok.content}'`)
+
+    parser.nextToken() // eat ':'
+
+    const body: AllowedBlockEntities[] = []
+
+    while (!inArray(parser.cursor.currentTok.content, [Keywords.CASE, Keywords.DEFAULT, Tokens.RBRACE]))
+      body.push(parseBlockEntity(parser, armScope))
+
+    arms.push(new ScrapMatchArm(pattern, body, armScope))
+  }
+
+  parser.nextToken() // eat '}'
+
+  checkExhaustive(parser, arms, Keywords.SWITCH)
+
+  return new ScrapMatch(matched, arms, true)
+}
\ No newline at end of file
@@ -0,0 +1,505 @@
+import { inArray } from "@utils"
+import { AllowedBlockEntities, Nullable } from "@typings"
+
+import Parser from "@parser/parser.ts"
+import { Keywords, Tokens } from "@lexer/lexer.ts"
+
+import { Scope, createEmptyScope } from "@lang/scope.ts"
+
+import { ScrapIf } from "@lang/elements/control/if.ts"
+import { ScrapFor, ScrapForIn } from "@lang/elements/control/for.ts"
+import { ScrapDoWhile, ScrapWhile } from "@lang/elements/control/while.ts"
+import { ScrapBreak, ScrapJump, ScrapReturn, ScrapSkip, ScrapThrow } from "@lang/elements/control/jumps.ts"
+import { ScrapCatch, ScrapTry } from "@lang/elements/control/try.ts"
+import { DefinedFunction, ScrapPrimitive } from "@lang/elements/commons.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapTrue } from "@lang/elements/values/booleans.ts"
+import { ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { parseMatch, parseSwitch } from "@parser/components/match.ts"
+import { inferObjectClass } from "@parser/components/class.ts"
+import { SCRAP_ERROR_CLASS, isErrorClass } from "@lang/api/native/std.ts"
+
+/**
+ * Owners of the scopes created by blocks of code which are not functions, classes or modules
+ */
+const BLOCK_SCOPE_OWNERS: string[] = [
+  Keywords.IF, Keywords.ELSE, Keywords.WHILE, Keywords.DO, Keywords.FOR,
+  Keywords.MATCH, Keywords.SWITCH, Keywords.TRY, Keywords.CATCH, Keywords.FINALLY
+]
+
+/**
+ * Owners of the scopes created by loops
+ */
+const LOOP_SCOPE_OWNERS: string[] = [Keywords.WHILE, Keywords.DO, Keywords.FOR]
+
+/**
+ * Owners of the scopes which can be finished using `break`
+ */
+const BREAKABLE_SCOPE_OWNERS: string[] = [...LOOP_SCOPE_OWNERS, Keywords.SWITCH]
+
+/**
+ * Checks if a scope belongs to a block of code owned by one of `owners`, or to a block of code placed inside it.
+ * 
+ * The search stops when reachs a scope which does not belong to a block, like a function scope. So a function declared inside a loop is not inside the loop
+ */
+function isInsideBlockOf(scope: Scope, owners: string[]): boolean {
+  let currentScope: Nullable<Scope> = scope
+
+  while (currentScope !== null && inArray(currentScope.getOwner, BLOCK_SCOPE_OWNERS)) {
+    if (inArray(currentScope.getOwner, owners))
+      return true
+
+    currentScope = currentScope.getParentScope
+  }
+
+  return false
+}
+
+/**
+ * Checks if the current token is an inline `if`, which is an `if` placed in the same line after a statement
+ */
+function isInlineIf(parser: Parser): boolean {
+  const currentTok = parser.cursor.currentTok
+
+  return (
+    currentTok !== undefined &&
+    currentTok.type === "Statement" &&
+    currentTok.content === Keywords.IF &&
+    currentTok.line === parser.cursor.previous().line
+  )
+}
+
+/**
+ * Parses an inline `if`, which guards a statement that will be executed only if the condition is considered true
+ * 
+ * It is the same as an `if` whose body is only the guarded statement
+ * 
+ * @example
+ * font.edad = 30 if font not null
+ * 
+ * // same as
+ * if (font not null) {
+ *  font.edad = 30
+ * }
+ * 
+ * @param guarded Already parsed statement which precedes the `if`
+ */
+function parseInlineIf(parser: Parser, guarded: AllowedBlockEntities, scope: Scope): ScrapIf {
+  if (guarded instanceof ScrapVariable || guarded instanceof DefinedFunction)
+    parser.scrapParseError("A declaration can not be guarded by an inline 'if'")
+
+  parser.nextToken() // eat 'if' keyword
+
+  const condition = parser.parseExpr(scope)
+
+  return new ScrapIf(condition, [guarded], createEmptyScope(scope, Keywords.IF), null)
+}
+
+/**
+ * Parses a block entity, which is any element which is allowed to be placed inside a block of code, like function bodies or control blocks
+ *
+ * @param parser Parser used to _parse_ the block entity
+ * @param scope scope where variabled are saved and references are searched
+ * @returns An allowed element inside a block: they can be: other `DefinedFunctions`, `ScrapVariables`, `ScrapCalls` to any function or control blocks
+ */
+export function parseBlockEntity(parser: Parser, scope: Scope): AllowedBlockEntities {
+  const blockEntity = parseBlockStatement(parser, scope)
+
+  if (isInlineIf(parser))
+    return parseInlineIf(parser, blockEntity, scope)
+
+  return blockEntity
+}
+
+function parseBlockStatement(parser: Parser, scope: Scope): AllowedBlockEntities {
+  const toBeParsedTok = parser.cursor.currentTok
+
+  if (toBeParsedTok.type === "IdentifierName") {
+    const parsedId = parser.parsePostfix(parser.parseIdentifier(scope), scope)
+
+    return parsedId as AllowedBlockEntities //! temporal casting technique, will be removed in the future
+  } else {
+    switch (toBeParsedTok.content) {
+      case Keywords.FN:
+      case Keywords.VAR:
+      case Keywords.CONST: {
+        const parsedDeclaration = parser.parseStatement(scope) as DefinedFunction | ScrapVariable
+        parser.addToScope(scope, parsedDeclaration.name, parsedDeclaration)
+
+        return parsedDeclaration
+      }
+
+      case Keywords.IF: return parseIf(parser, scope)
+      case Keywords.WHILE: return parseWhile(parser, scope)
+      case Keywords.DO: return parseDoWhile(parser, scope)
+      case Keywords.FOR: return parseFor(parser, scope)
+      case Keywords.BREAK:
+      case Keywords.SKIP: return parseLoopJump(parser, scope)
+      case Keywords.RETURN: return parseReturn(parser, scope)
+      case Keywords.MATCH: return parseMatch(parser, scope)
+      case Keywords.SWITCH: return parseSwitch(parser, scope)
+      case Keywords.THROW: return parseThrow(parser, scope)
+      case Keywords.TRY: return parseTry(parser, scope)
+
+      default: parser.scrapParseError("Only 'fn', 'var', 'const', 'if', 'while', 'do', 'for', 'match', 'switch', 'try', 'break', 'skip', 'return', 'throw', function calls and assignments are allowed inside a block")
+    }
+  }
+}
+
+/**
+ * Parses a block of code, which is represented by contain code between '{' and a '}'
+ * 
+ * If the block does not start with '{', then only a single block entity is parsed as the block body
+ * 
+ * @example
+ * if (num == 10) {
+ *  std::log("ten")
+ * }
+ * 
+ * if num == 10
+ *  std::log("ten")
+ * 
+ * @param scope `Scope` where the block can registry variables that has been declared inside his body
+ */
+export function parseBlock(parser: Parser, scope: Scope): AllowedBlockEntities[] {
+  const isSingleEntity = parser.cursor.currentTok.content !== Tokens.LBRACE
+
+  if (isSingleEntity)
+    return [parseBlockEntity(parser, scope)]
+
+  parser.nextToken() // eat '{'
+
+  const body = parseBlockBody(parser, scope)
+
+  parser.nextToken() // eat '}'
+
+  return body
+}
+
+/**
+ * Parses the block entities placed before the closing '}' of a block, which is not consumed
+ * 
+ * A warning is generated when there is code after a `return` or a `throw` statement, since it will never be executed
+ */
+export function parseBlockBody(parser: Parser, scope: Scope): AllowedBlockEntities[] {
+  const body: AllowedBlockEntities[] = []
+
+  while (parser.cursor.currentTok.content !== Tokens.RBRACE) {
+    const lastEntity = body.at(-1)
+
+    if (lastEntity instanceof ScrapReturn || lastEntity instanceof ScrapThrow) {
+      const { line, pos } = parser.cursor.currentTok
+      const statement = lastEntity instanceof ScrapReturn ? Keywords.RETURN : Keywords.THROW
+      parser.scrapGenerateWarn(`Unreachable code detected at ${line}:${pos}, it is placed after a '${statement}' statement`)
+    }
+
+    body.push(parseBlockEntity(parser, scope))
+  }
+
+  return body
+}
+
+/**
+ * Parses a conditional statement, and its `elif` and `else` branches if they exists
+ * 
+ * Each branch has its own scope, so the variables declared inside a branch are not accessible outside it
+ * 
+ * @returns A `ScrapIf` where the `elif` and `else` branches are chained
+ */
+export function parseIf(parser: Parser, scope: Scope): ScrapIf {
+  parser.nextToken() // eat 'if' or 'elif' keyword
+
+  const condition = parser.parseExpr(scope)
+  const ifScope = createEmptyScope(scope, Keywords.IF)
+  const body = parseBlock(parser, ifScope)
+
+  let elseBranch: Nullable<ScrapIf> = null
+
+  switch (parser.cursor.currentTok?.content) {
+    case Keywords.ELIF: elseBranch = parseIf(parser, scope); break
+    case Keywords.ELSE: {
+      parser.nextToken() // eat 'else' keyword
+
+      const elseScope = createEmptyScope(scope, Keywords.ELSE)
+      elseBranch = new ScrapIf(new ScrapTrue(), parseBlock(parser, elseScope), elseScope, null)
+    } break
+  }
+
+  return new ScrapIf(condition, body, ifScope, elseBranch)
+}
+
+
+/**
+ * Parses a `while` loop, whose body is executed while the condition is considered true
+ */
+export function parseWhile(parser: Parser, scope: Scope): ScrapWhile {
+  parser.nextToken() // eat 'while' keyword
+
+  const condition = parser.parseExpr(scope)
+  const whileScope = createEmptyScope(scope, Keywords.WHILE)
+  const body = parseBlock(parser, whileScope)
+
+  return new ScrapWhile(condition, body, whileScope)
+}
+
+/**
+ * Parses a `do-while` loop, whose body is executed at least once, since the condition is checked after each iteration
+ * 
+ * @example
+ * do {
+ *  num++
+ * } while (num < 10)
+ */
+export function parseDoWhile(parser: Parser, scope: Scope): ScrapDoWhile {
+  parser.nextToken() // eat 'do' keyword
+
+  const doScope = createEmptyScope(scope, Keywords.DO)
+  const body = parseBlock(parser, doScope)
+
+  if (parser.cursor.currentTok?.content !== Keywords.WHILE)
+    parser.scrapParseError("Missing 'while' condition after 'do' body")
+
+  parser.nextToken() // eat 'while' keyword
+
+  const condition = parser.parseExpr(scope)
+
+  return new ScrapDoWhile(condition, body, doScope)
+}
+
+/**
+ * Checks that the current token, which has not been consumed yet, has the expected content
+ */
+function expectsCurrent(parser: Parser, shouldBeLike: string, message: string) {
+  if (parser.cursor.currentTok.content !== shouldBeLike)
+    parser.scrapParseError(message)
+}
+
+/**
+ * Parses a `return` statement, which can be placed anywhere inside a function body
+ * 
+ * A `return` without expression is placed at the end of a block, before an inline `if`, or followed by code in other line
+ * 
+ * @example
+ * return
+ * return if num == 0
+ * return num * 2
+ */
+export function parseReturn(parser: Parser, scope: Scope): ScrapReturn {
+  const returnTok = parser.cursor.currentTok
+  const nextTok = parser.nextToken() // eat 'return' keyword
+
+  const isBareReturn = nextTok.content === Tokens.RBRACE || nextTok.content === Keywords.IF || nextTok.line !== returnTok.line
+
+  return new ScrapReturn(isBareReturn ? new ScrapUndefined() : parser.parseExpr(scope), returnTok)
+}
+
+/**
+ * Parses the header of a C-style `for` loop, which is compounded by a variable declaration, a condition and a modifier of the variable
+ * 
+ * @example
+ * for (var i = 0; i < 5; i++) {}
+ */
+function parseCStyleFor(parser: Parser, forScope: Scope): ScrapFor {
+  parser.nextToken() // eat '('
+
+  const varDeclaration = parser.parseVar(forScope)
+  parser.addToScope(forScope, varDeclaration.name, varDeclaration)
+
+  expectsCurrent(parser, Tokens.SEMICOLON, "Missing ';' after the 'for' variable declaration")
+  parser.nextToken() // eat ';'
+
+  const condition = parser.parseExpr(forScope)
+
+  expectsCurrent(parser, Tokens.SEMICOLON, "Missing ';' after the 'for' condition")
+  parser.nextToken() // eat ';'
+
+  const valueModifier = parser.parseIdentifier(forScope)
+
+  expectsCurrent(parser, Tokens.RPAREN, "Missing ')' after the 'for' header")
+  parser.nextToken() // eat ')'
+
+  const body = parseBlock(parser, forScope)
+
+  return new ScrapFor(varDeclaration, condition, valueModifier, body, forScope)
+}
+
+/**
+ * Parses a `for` loop which iterates over the values of an iterable. `in` and `of` can be used interchangeably
+ * 
+ * The header can be optionally placed between parenthesis
+ * 
+ * @example
+ * for i in 0..5 {}
+ * for (element of arr) {}
+ */
+function parseForIn(parser: Parser, forScope: Scope): ScrapForIn {
+  const hasParenthesis = parser.cursor.currentTok.content === Tokens.LPAREN
+
+  if (hasParenthesis)
+    parser.nextToken() // eat '('
+
+  const iterationVarName = parser.cursor.currentTok
+
+  if (iterationVarName.type !== "IdentifierName")
+    parser.scrapParseError("Expected the name of the iteration variable")
+
+  const iterationVar = new ScrapVariable("constant", iterationVarName.content, new ScrapUndefined())
+  parser.addToScope(forScope, iterationVar.name, iterationVar)
+
+  const iterationKeyword = parser.nextToken() // eat the iteration variable name
+
+  if (iterationKeyword.content !== Keywords.IN && iterationKeyword.content !== Keywords.OF)
+    parser.scrapParseError("Expected 'in' or 'of' after the iteration variable")
+
+  parser.nextToken() // eat 'in' or 'of'
+
+  const iterable = parser.parseExpr(forScope)
+
+  if (hasParenthesis) {
+    if (parser.cursor.currentTok.content !== Tokens.RPAREN)
+      parser.scrapParseError("Missing ')' after the 'for' header")
+
+    parser.nextToken() // eat ')'
+  }
+
+  const body = parseBlock(parser, forScope)
+
+  return new ScrapForIn(iterationVar, iterable, body, forScope)
+}
+
+/**
+ * Parses a `for` loop, which can be a C-style `for` or a `for` which iterates over an iterable
+ */
+export function parseFor(parser: Parser, scope: Scope): ScrapFor | ScrapForIn {
+  parser.nextToken() // eat 'for' keyword
+
+  const forScope = createEmptyScope(scope, Keywords.FOR)
+  const isCStyle = parser.cursor.currentTok.content === Tokens.LPAREN && parser.cursor.next().content === Keywords.VAR
+
+  if (isCStyle)
+    return parseCStyleFor(parser, forScope)
+
+  return parseForIn(parser, forScope)
+}
+
+/**
+ * Parses a `break` or a `skip` statement, which are only allowed inside loops. A `break` is also allowed inside a `switch`
+ */
+export function parseLoopJump(parser: Parser, scope: Scope): ScrapJump {
+  const jumpKeyword = parser.cursor.currentTok.content
+
+  if (jumpKeyword === Keywords.BREAK && !isInsideBlockOf(scope, BREAKABLE_SCOPE_OWNERS))
+    parser.scrapParseError("'break' is only allowed inside a loop or a 'switch'")
+
+  if (jumpKeyword === Keywords.SKIP && !isInsideBlockOf(scope, LOOP_SCOPE_OWNERS))
+    parser.scrapParseError("'skip' is only allowed inside a loop")
+
+  parser.nextToken() // eat 'break' or 'skip' keyword
+
+  return jumpKeyword === Keywords.BREAK ? new ScrapBreak() : new ScrapSkip()
+}
+
+/**
+ * Parses a `throw` statement. When the class of the thrown value is known while parsing, it must be `Error` or one of its subclasses
+ * 
+ * @example
+ * throw new RangeError("Index out of bounds")
+ */
+export function parseThrow(parser: Parser, scope: Scope): ScrapThrow {
+  const throwTok = parser.cursor.currentTok
+  parser.nextToken() // eat 'throw' keyword
+
+  const thrownValue = parser.parseExpr(scope)
+  const thrownClass = inferObjectClass(thrownValue)
+
+  if (thrownValue instanceof ScrapPrimitive || (thrownClass && !isErrorClass(thrownClass)))
+    parser.scrapParseError("Only objects of 'Error' or its subclasses can be thrown")
+
+  return new ScrapThrow(thrownValue, throwTok)
+}
+
+/**
+ * Parses the `catch` of a `try`. The caught error can be restricted to the objects of a subclass of `Error`, which is `Error` by default
+ * 
+ * The header can be optionally placed between parenthesis
+ * 
+ * @example
+ * catch (err) {}
+ * catch err: RangeError {}
+ */
+function parseCatch(parser: Parser, scope: Scope): ScrapCatch {
+  const hasParenthesis = parser.nextToken().content === Tokens.LPAREN // eat 'catch' keyword
+
+  if (hasParenthesis)
+    parser.nextToken() // eat '('
+
+  const errorVarName = parser.cursor.currentTok
+
+  if (errorVarName.type !== "IdentifierName")
+    parser.scrapParseError("Expected the name of the caught error")
+
+  const catchScope = createEmptyScope(scope, Keywords.CATCH)
+  const errorVar = new ScrapVariable("constant", errorVarName.content, new ScrapUndefined())
+  parser.addToScope(catchScope, errorVar.name, errorVar)
+
+  let caughtClass = SCRAP_ERROR_CLASS
+
+  if (parser.nextToken().content === Tokens.COLON) { // eat the error variable name
+    const classNameTok = parser.expectsType("IdentifierName", "Expected the class of the caught errors")
+    const referencedClass = scope.getReference(classNameTok.content)
+
+    if (!referencedClass)
+      parser.scrapReferenceError(classNameTok)
+
+    if (!(referencedClass instanceof ScrapClass) || !isErrorClass(referencedClass))
+      parser.scrapParseError(`'${classNameTok.content}' is not 'Error' or one of its subclasses`)
+
+    caughtClass = referencedClass
+    parser.nextToken() // eat the class name
+  }
+
+  if (hasParenthesis) {
+    expectsCurrent(parser, Tokens.RPAREN, "Missing ')' after the caught error")
+    parser.nextToken() // eat ')'
+  }
+
+  return new ScrapCatch(errorVar, caughtClass, parseBlock(parser, catchScope), catchScope)
+}
+
+/**
+ * Parses a `try` statement, which must be followed by a `catch`, a `finally` or both
+ * 
+ * @example
+ * try {
+ *  connect(server)
+ * } catch (err) {
+ *  console.log(err.message)
+ * } finally {
+ *  close(server)
+ * }
+ */
+export function parseTry(parser: Parser, scope: Scope): ScrapTry {
+  parser.nextToken() // eat 'try' keyword
+
+  const tryScope = createEmptyScope(scope, Keywords.TRY)
+  const body = parseBlock(parser, tryScope)
+
+  let catchClause: Nullable<ScrapCatch> = null
+  let finallyBody: Nullable<AllowedBlockEntities[]> = null
+
+  if (parser.cursor.currentTok?.content === Keywords.CATCH)
+    catchClause = parseCatch(parser, scope)
+
+  const finallyTok = parser.cursor.currentTok
+
+  if (finallyTok?.content === Keywords.FINALLY) {
+    parser.nextToken() // eat 'finally' keyword
+    finallyBody = parseBlock(parser, createEmptyScope(scope, Keywords.FINALLY))
+  }
+
+  if (!catchClause && !finallyBody)
+    parser.scrapParseError("Missing 'catch' or 'finally' after the 'try' body")
+
+  return new ScrapTry(body, tryScope, catchClause, finallyBody)
+}
\ No newline at end of file
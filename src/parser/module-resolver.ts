@@ -0,0 +1,212 @@
+import type { Nameable } from "@typings"
+
+import Lexer from "@lexer/lexer.ts"
+import Parser from "@parser/parser.ts"
+
+import stdModule from "@lang/api/native/std.ts"
+import netModule from "@lang/api/native/net.ts"
+import streamModule from "@lang/api/native/stream.ts"
+import fsModule from "@lang/api/native/fs.ts"
+import envModule from "@lang/api/native/env.ts"
+import processModule from "@lang/api/native/process.ts"
+import testingModule from "@lang/api/native/testing.ts"
+import regexModule from "@lang/api/native/regex.ts"
+import iterModule from "@lang/api/native/iter.ts"
+import { DefinedModule, ScrapModule } from "@lang/elements/entities/modules.ts"
+
+import PackageError from "@package-manager/package-error.ts"
+import { readManifest } from "@package-manager/manifest.ts"
+import { MODULES_DIRECTORY } from "@package-manager/lockfile.ts"
+
+const NATIVE_PREFIX = "scrap:"
+const SCRAP_EXTENSION = ".scrap"
+
+/**
+ * Modules created using the language API, which are imported using the `scrap:` prefix, e.g: `import { fetch } from "scrap:net"`
+ */
+const NATIVE_MODULES: Map<string, ScrapModule> = new Map([
+  [stdModule.name, stdModule],
+  [netModule.name, netModule],
+  [streamModule.name, streamModule],
+  [fsModule.name, fsModule],
+  [envModule.name, envModule],
+  [processModule.name, processModule],
+  [testingModule.name, testingModule],
+  [regexModule.name, regexModule],
+  [iterModule.name, iterModule]
+])
+
+function isRelativePath(specifier: string): boolean {
+  return specifier.startsWith("./") || specifier.startsWith("../")
+}
+
+/**
+ * Gets the absolute path of a file, following the symbolic links, so the same file is always identified by the same path.
+ * A path which does not exist (e.g: the REPL) is placed in the current working directory
+ */
+function toAbsolutePath(path: string): string {
+  try {
+    return Deno.realPathSync(path)
+  } catch {
+    return path.startsWith("/") ? path : `${Deno.cwd()}/${path}`
+  }
+}
+
+/**
+ * Gets the name of a module declared in a file, which is the file name without extension
+ *
+ * @example
+ * getFileModuleName("/home/scrap/utils/math.scrap") // "math"
+ */
+function getFileModuleName(path: string): string {
+  const fileName = path.slice(path.lastIndexOf("/") + 1)
+
+  return fileName.endsWith(SCRAP_EXTENSION) ? fileName.slice(0, -SCRAP_EXTENSION.length) : fileName
+}
+
+function withExtension(path: string): string {
+  return path.endsWith(SCRAP_EXTENSION) ? path : path + SCRAP_EXTENSION
+}
+
+function existsDirectory(path: string): boolean {
+  try {
+    return Deno.statSync(path).isDirectory
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Finds the modules imported by a program. Each file is parsed only once, even if it is imported from several files
+ *
+ * A module can be imported using:
+ *  * `scrap:` followed by the name of a native module, e.g: `"scrap:net"`
+ *  * A path relative to the importer file. The `.scrap` extension can be omitted, e.g: `"./utils/math"`
+ *  * The name of a native module, an installed package, or a file placed in the same directory than the importer, e.g: `os`
+ *  * The name of an installed package followed by the path of one of its files, e.g: `math/vectors`
+ *
+ * Installed packages are searched in the `scrap_modules` directory placed in the importer directory or its parent directories
+ */
+export default class ModuleResolver {
+  private loadedModules: Map<string, DefinedModule>
+
+  /**
+   * Files which are being parsed, from the entry file to the last imported file. A file which imports one of them causes a cyclic import
+   */
+  private loadingFiles: string[]
+
+  public constructor(entryFile: string) {
+    this.loadedModules = new Map()
+    this.loadingFiles = [toAbsolutePath(entryFile)]
+  }
+
+  /**
+   * Gets the module referenced by an `import` statement
+   *
+   * @param importer Parser of the file where the `import` statement is placed
+   * @param specifier Where the module is placed
+   */
+  public resolve(importer: Parser, specifier: string): ScrapModule {
+    if (specifier.startsWith(NATIVE_PREFIX)) {
+      const nativeModule = NATIVE_MODULES.get(specifier.slice(NATIVE_PREFIX.length))
+
+      if (!nativeModule)
+        importer.scrapParseError(`There is not a native module called '${specifier}'`)
+
+      return nativeModule
+    }
+
+    if (!isRelativePath(specifier) && NATIVE_MODULES.has(specifier))
+      return NATIVE_MODULES.get(specifier)!
+
+    if (!isRelativePath(specifier)) {
+      const packageFile = this.findPackageFile(importer, specifier)
+
+      if (packageFile)
+        return this.resolveFile(importer, packageFile.path, packageFile.moduleName)
+    }
+
+    return this.resolveFile(importer, this.toFilePath(importer, specifier))
+  }
+
+  /**
+   * Searchs the file of an installed package. A package imported by its name is represented by its entry file
+   * @returns The path of the file and the name of the module, null if the package is not installed
+   */
+  private findPackageFile(importer: Parser, specifier: string): { path: string, moduleName: string } | null {
+    const [packageName, ...filePath] = specifier.split("/")
+    const importerPath = toAbsolutePath(importer.lexer.fileName)
+    let directory = importerPath.slice(0, importerPath.lastIndexOf("/"))
+
+    while (true) {
+      const packageDirectory = `${directory}/${MODULES_DIRECTORY}/${packageName}`
+
+      if (existsDirectory(packageDirectory)) {
+        if (filePath.length > 0)
+          return { path: withExtension(`${packageDirectory}/${filePath.join("/")}`), moduleName: getFileModuleName(filePath.at(-1)!) }
+
+        try {
+          return { path: `${packageDirectory}/${readManifest(packageDirectory).entry}`, moduleName: packageName }
+        } catch (error) {
+          if (error instanceof PackageError)
+            importer.scrapParseError(`Can not import the package '${packageName}': ${error.message}`)
+
+          throw error
+        }
+      }
+
+      if (directory === "")
+        return null
+
+      directory = directory.slice(0, directory.lastIndexOf("/"))
+    }
+  }
+
+  private toFilePath(importer: Parser, specifier: string): string {
+    const relativePath = isRelativePath(specifier) ? specifier : `./${specifier}`
+    const importerPath = toAbsolutePath(importer.lexer.fileName)
+    const filePath = decodeURIComponent(new URL(relativePath, `file://${importerPath}`).pathname)
+
+    return withExtension(filePath)
+  }
+
+  /**
+   * Parses the file where a module is declared, using its own `Parser`. The imported files are parsed before the importer continues
+   */
+  private resolveFile(importer: Parser, filePath: string, moduleName = getFileModuleName(filePath)): DefinedModule {
+    const absolutePath = toAbsolutePath(filePath)
+
+    if (this.loadingFiles.includes(absolutePath)) {
+      const cycle = [...this.loadingFiles.slice(this.loadingFiles.indexOf(absolutePath)), absolutePath]
+      importer.scrapParseError(`Cyclic import detected: ${cycle.join(" -> ")}`)
+    }
+
+    const loadedModule = this.loadedModules.get(absolutePath)
+
+    if (loadedModule)
+      return loadedModule
+
+    let source: string
+
+    try {
+      source = Deno.readTextFileSync(absolutePath)
+    } catch {
+      importer.scrapParseError(`Can not find the module '${filePath}'`)
+    }
+
+    this.loadingFiles.push(absolutePath)
+
+    const parser = new Parser(new Lexer(source, absolutePath), this).build()
+    const mainModule = parser.mainModule
+    const body = parser.ast.getProgram.map(node => node.getNodeValue as Nameable) // only root entities are placed in the AST
+
+    this.loadingFiles.pop()
+
+    importer.warnings.push(...parser.warnings.map(warning => `${absolutePath}: ${warning}`))
+
+    const fileModule = new DefinedModule(moduleName, body, mainModule.getScope, mainModule.getExports)
+    this.loadedModules.set(absolutePath, fileModule)
+
+    return fileModule
+  }
+}
\ No newline at end of file
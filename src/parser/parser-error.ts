@@ -1,10 +1,10 @@
 import { Token } from "@lexer/lexer.ts"
 
 export default class ParsingError extends Error {
-    public constructor(reason: string, wrongToken: Token) {
+    public constructor(reason: string, wrongToken: Token, fileName: string) {
         super(
             `
-            Error parsing at line ${wrongToken.line}, character position ${wrongToken.pos}:
+            Error parsing the file ${fileName} at line ${wrongToken.line}, character position ${wrongToken.pos}:
             ${reason}
             `
         )
@@ -1,6 +1,11 @@
 import Parser from "@parser/parser.ts"
-import { ScrapChar, ScrapString } from "@lang/elements/values/textuals.ts"
+import ParsingError from "@parser/parser-error.ts"
+import { RegexSyntaxError, parseRegex } from "@parser/regex-parser.ts"
+import { Scope } from "@lang/scope.ts"
+import { ScrapValue } from "@lang/elements/commons.ts"
+import { ScrapChar, ScrapString, ScrapTemplate } from "@lang/elements/values/textuals.ts"
 import { ScrapFloat, ScrapInteger } from "@lang/elements/values/numerics.ts"
+import { ScrapRegExp } from "@lang/elements/values/regexp.ts"
 
 
 export function parseString(this: Parser) {
@@ -10,8 +15,75 @@ export function parseString(this: Parser) {
     return stringExpr
 }
 
+/**
+ * Parses a template string. The lexer places the tokens of each embedded expression between the chunks of text of the template
+ * 
+ * @example
+ * `Hello ${user.name}, you are ${age + 1}` // TemplateHead, user.name, TemplateMiddle, age + 1, TemplateTail
+ * 
+ * @returns A `ScrapString` if the template does not embed expressions, a `ScrapTemplate` otherwise
+ */
+export function parseTemplateString(this: Parser, scope: Scope): ScrapString | ScrapTemplate {
+    const firstChunk = this.cursor.currentTok
+
+    if (firstChunk.type === "TemplateString")
+        return parseString.call(this)
+
+    const chunks = [firstChunk.content]
+    const expressions: ScrapValue[] = []
+    let isTemplateEnd = false
+
+    while (!isTemplateEnd) {
+        this.nextToken() // eat the chunk which opens the embedded expression
+        expressions.push(this.parseExpr(scope))
+
+        const closingChunk = this.cursor.currentTok
+
+        if (closingChunk?.type !== "TemplateMiddle" && closingChunk?.type !== "TemplateTail")
+            this.scrapParseError("Expected '}' to close the embedded expression of the template string")
+
+        chunks.push(closingChunk.content)
+        isTemplateEnd = closingChunk.type === "TemplateTail"
+    }
+
+    this.nextToken() // eat the last chunk
+    return new ScrapTemplate(chunks, expressions)
+}
+
+/**
+ * Parses a regular expression literal, e.g: `/(?<year>\d{4})-(?<month>\d{2})/u`.
+ * A wrong pattern is reported at the position of the wrong char, like other syntax errors
+ */
+export function parseRegexLiteral(this: Parser): ScrapRegExp {
+    const regexToken = this.cursor.currentTok
+    const patternEnd = regexToken.content.lastIndexOf("/")
+    const pattern = regexToken.content.substring(1, patternEnd)
+    const flags = regexToken.content.substring(patternEnd + 1)
+
+    try {
+        parseRegex(pattern, flags)
+    } catch (error) {
+        if (!(error instanceof RegexSyntaxError))
+            throw error
+
+        const wrongToken = { ...regexToken, pos: regexToken.pos + 1 + error.offset }
+        throw new ParsingError(`Invalid regular expression ${regexToken.content}: ${error.message}`, wrongToken, this.lexer.fileName)
+    }
+
+    this.nextToken()
+    return new ScrapRegExp(pattern, flags)
+}
+
+/**
+ * Parses a char literal, which contains a single Unicode code point, e.g: 'a', '\n' or '😀'
+ */
 export function parseChar(this: Parser) {
-    if (this.cursor.currentTok.content.length > 1)
+    const charsCount = [...this.cursor.currentTok.content].length
+
+    if (charsCount === 0)
+      this.scrapParseError("Empty character literal, a character is required")
+
+    if (charsCount > 1)
       this.scrapParseError("Character content overflows the size of this type, only a character allowed")
 
     const charExpr = new ScrapChar(this.cursor.currentTok.content)
@@ -7,7 +7,7 @@
  * this results on an error, since the const keyword represents a declaration instruction and cant be assigned.
  */
 
-import type { Ajustable, Nameable, ScrapClassEntityProps, ScrapParam } from "@typings"
+import type { Nameable, Nullable, ScrapClassEntityProps, ScrapParam } from "@typings"
 
 import { AST } from "@ast"
 import { inArray } from "@utils"
@@ -19,27 +19,43 @@ import { Keywords, Token, Tokens } from "@lexer/lexer.ts"
 import * as pUtils from "@parser/parser-utils.ts"
 import ParsingError from "@parser/parser-error.ts"
 import ParserCursor from "@parser/parser-cursor.ts"
+import ModuleResolver from "@parser/module-resolver.ts"
+import { parseDataType } from "@parser/type-parser.ts"
 
-import { parseClassBody } from "@parser/components/class.ts"
+import { getEnclosingClass, inferObjectClass, parseClassBody, parseNew, parseSuper } from "@parser/components/class.ts"
 import { parseModuleBody } from "@parser/components/module.ts"
-import { parseAsync, parseFunctionBody, parseParamList } from "@parser/components/functions.ts"
-
+import { checkImplementedInterfaces, parseImplementedInterfaces, parseInterface } from "@parser/components/interface.ts"
+import { parseEnum, parseVariantAccess } from "@parser/components/enum.ts"
+import { parseMatch } from "@parser/components/match.ts"
+import { parseExportList, parseImport } from "@parser/components/import.ts"
+import {
+  isArrowLambda, parseArrowLambda, parseAsync, parseFunctionBody,
+  parseLambda, parseParamList, parseReturnType
+} from "@parser/components/functions.ts"
+
+import stdModule from "@lang/api/native/std.ts"
 import { UndefinedReferenceError, Scope, createEmptyScope } from "@lang/scope.ts"
 
 // Elements of ScrapLang
 import { ScrapCall } from "@lang/elements/values/call.ts"
+import { ScrapRange } from "@lang/elements/values/range.ts"
 import { ScrapFunction } from "@lang/elements/commons.ts"
 import { DefinedFunction } from "@lang/elements/commons.ts"
 import { ScrapClass } from "@lang/elements/entities/class.ts"
-import { ScrapString } from "@lang/elements/values/textuals.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+import { MemberAssignment, ScrapMemberAccess } from "@lang/elements/values/member.ts"
 import { ScrapInteger } from "@lang/elements/values/numerics.ts"
 import { ScrapUndefined } from "@lang/elements/values/absence.ts"
 import { ScrapNative, ScrapValue } from "@lang/elements/commons.ts"
-import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { UnaryExpression } from "@lang/elements/values/unary.ts"
+import { BinaryExpression } from "@lang/elements/values/binary.ts"
 import { ScrapReference } from "@lang/elements/values/reference.ts"
+import { ReassignmentExpression } from "@lang/elements/values/reassignment.ts"
 import { BINARY_OPERATORS_PRECEDENCE } from "@lang/elements/commons.ts"
 import { ScrapArray, ScrapArrayAccess } from "@lang/elements/values/array.ts"
 import { DefinedModule, ScrapModule } from "@lang/elements/entities/modules.ts"
+import { ScrapVariable, ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
 import { ScrapEntity, ScrapObject } from "@lang/elements/commons.ts"
 
 
@@ -85,13 +101,19 @@ export default class Parser {
   functions: ScrapFunction[]
   mainModule: ScrapModule
   ast: AST
+  resolver: ModuleResolver
 
-  public constructor(lexer: Lexer) {
+  /**
+   * @param resolver Finds the imported modules. The files imported by other file share the resolver of the entry file
+   */
+  public constructor(lexer: Lexer, resolver?: ModuleResolver) {
     this.lexer = lexer
     this.cursor = new ParserCursor(lexer)
     this.warnings = []
     this.functions = []
-    this.mainModule = new ScrapModule("MainModule", createEmptyScope(null, "MainModule"))
+    this.resolver = resolver ?? new ModuleResolver(lexer.fileName)
+    this.mainModule = new ScrapModule("MainModule", createEmptyScope(stdModule.getScope, "MainModule"))
+    this.mainModule.insert(stdModule.name, stdModule)
     this.ast = new AST()
 
     this.cursor.currentTok = this.cursor.consume() // gives an initial value to the parser
@@ -110,14 +132,14 @@ export default class Parser {
    * @param message Error message
    */
   public scrapParseError(message: string): never {
-    throw new ParsingError(message, this.cursor.currentTok)
+    throw new ParsingError(message, this.cursor.currentTok, this.lexer.fileName)
   }
 
   /**
    * Adds a warning message to `warnings`
    * @param message Warning message
    */
-  private scrapGenerateWarn(message: string): void {
+  public scrapGenerateWarn(message: string): void {
     this.warnings.push(message)
   }
 
@@ -125,7 +147,7 @@ export default class Parser {
    * Causes the program stop by a undefined referenced
    * @param undefinedVariable Token which is a undefined reference
    */
-  private scrapReferenceError(undefinedVariable: Token): never {
+  public scrapReferenceError(undefinedVariable: Token): never {
     throw new UndefinedReferenceError(undefinedVariable)
   }
 
@@ -137,7 +159,9 @@ export default class Parser {
   public build(): this {
     while (!this.cursor.isEOF()) {
       const parsedRootEntity = this.parseRoot(this.mainModule.getScope)
-      this.ast.pushNode(parsedRootEntity)
+
+      if (parsedRootEntity)
+        this.ast.pushNode(parsedRootEntity)
     }
 
     return this
@@ -175,12 +199,18 @@ export default class Parser {
   }
 
   /**
-   * # Still is an incompleted method
+   * Gets the precedence of the current token if it is a binary operator
+   * @returns The precedence of the operator, -1 if the current token is not a binary operator
    */
   private getTokPrecedence() {
-    const tokPrec = BINARY_OPERATORS_PRECEDENCE[this.cursor.currentTok.content as keyof typeof BINARY_OPERATORS_PRECEDENCE]
+    const tok = this.cursor.currentTok
 
-    if (tokPrec <= 0)
+    if (!tok || (tok.type !== "Operator" && tok.type !== "Statement"))
+      return -1
+
+    const tokPrec = BINARY_OPERATORS_PRECEDENCE[tok.content as keyof typeof BINARY_OPERATORS_PRECEDENCE]
+
+    if (!tokPrec || tokPrec <= 0)
       return -1;
     
     return tokPrec;
@@ -264,7 +294,9 @@ export default class Parser {
     while (this.cursor.currentTok.content !== Tokens.RSQRBR) {
       elements.push(this.parseExpr(scope))
       if (this.cursor.currentTok.content !== Tokens.RSQRBR) {
-        this.expectsContent(Tokens.COMMA, "Expected comma after item")
+        if (this.cursor.currentTok.content !== Tokens.COMMA)
+          this.scrapParseError("Expected comma after item")
+
         this.nextToken() // consume the comma
       }
     }
@@ -285,9 +317,18 @@ export default class Parser {
    * 
    * @returns A new function statement
    */
-  public parseFunction(_mustAwait: boolean, isMethod: boolean, _isStatic: boolean, scope: Scope): DefinedFunction {
+  public parseFunction(mustAwait: boolean, isMethod: boolean, isStatic: boolean, scope: Scope): DefinedFunction {
     const fName = this.expectsType("IdentifierName", "Missing function name").content
 
+    return this.parseFunctionDeclaration(fName, mustAwait, isMethod, isStatic, scope)
+  }
+
+  /**
+   * Parses the parameter list and the body of a function whose name is the current token
+   * 
+   * It is used directly for constructors and methods, which can be declared without the `fn` keyword, e.g: `public constructor() {}`
+   */
+  public parseFunctionDeclaration(fName: string, _mustAwait: boolean, isMethod: boolean, isStatic: boolean, scope: Scope): DefinedFunction {
     this.expectsContent(Tokens.LPAREN, "Missing parameter list")
 
     const areParameters = this.cursor.next().content !== Tokens.RPAREN
@@ -297,20 +338,28 @@ export default class Parser {
       this.nextToken() // eat '(' if there are not parameters
     }
     
+    const returnType = parseReturnType(this)
     
     this.expectsContent(Tokens.LBRACE, "Missing function body open")
 
     const fScope = createEmptyScope(scope, fName)
-    //params.forEach(param => fScope.addEntry(param.pName, new ScrapUndefined()))
+    const newFunction = new DefinedFunction(fName, params, [], fScope, new ScrapUndefined())
+    newFunction.setDeclaredReturnType = returnType
+
+    // the function is visible inside its own body, so it can be called recursively
+    this.addToScope(fScope, fName, newFunction)
+
+    // `this` is bound to the object which calls the method when the method is called
+    if (isMethod && !isStatic)
+      this.addToScope(fScope, Keywords.THIS, new ScrapVariable("constant", Keywords.THIS, new ScrapUndefined()))
+    params.forEach(param => this.addToScope(fScope, param.pName, new ScrapVariable("variable", param.pName, new ScrapUndefined(), param.pType)))
 
     this.nextToken() // eat '{' (function body beings)
 
-    const { body, return: returnExpression } = parseFunctionBody(this, isMethod, fScope)
+    newFunction.body = parseFunctionBody(this, fScope)
 
     this.nextToken() // eat '}' (function body ends)
 
-    const newFunction = new DefinedFunction(fName, params, body, fScope, returnExpression)
-
     this.functions.push(newFunction)
     return newFunction
   }
@@ -323,8 +372,6 @@ export default class Parser {
    * @returns A Module declaration for the AST
    */
   private parseModule(scope: Scope): ScrapModule {
-    this.nextToken() // eat 'module' keyword
-
     const moduleName = this.expectsType("IdentifierName", "Missing module name").content
 
     if (this.nextToken().content !== Tokens.LBRACE)
@@ -337,15 +384,12 @@ export default class Parser {
 
     this.nextToken() // eat '}'
 
-    const newModule = new DefinedModule(moduleName, body, mScope, exports)
-
-    this.ast.pushNode(newModule)
-    return newModule
+    return new DefinedModule(moduleName, body, mScope, exports)
   }
 
   private parseClass(scope: Scope): ScrapClass {
     const classEntities: ScrapClassEntityProps[] = []
-    const options: { inherits?: ScrapClass, implements?: string } = {}
+    const options: { inherits?: ScrapClass, implements?: ScrapInterface[] } = {}
 
     const className = this.expectsType("IdentifierName", "Expected a class name").content
     const relationalKW = this.nextToken() // eat class name (identifier)
@@ -360,20 +404,20 @@ export default class Parser {
 
         options.inherits = inheritedClass
 
-        if (this.nextToken().content === Keywords.IMPLEMENTS) {
-          const implemetedInterface = this.expectsType("IdentifierName", "Identifier expected")
-          options.implements = implemetedInterface.content
-          this.nextToken() // eat the interface identifier
-        }
+        if (this.nextToken().content === Keywords.IMPLEMENTS)
+          options.implements = parseImplementedInterfaces(this, scope)
 
-      } else if (relationalKW.content === Keywords.IMPLEMENTS) {
-        const implementedInterface = this.expectsType("IdentifierName", "Identifier expected")
-        options.implements = implementedInterface.content
-        this.nextToken() // eat the interface identifier
-      }
+      } else if (relationalKW.content === Keywords.IMPLEMENTS)
+        options.implements = parseImplementedInterfaces(this, scope)
     }
 
     const cScope = createEmptyScope(scope, className)
+    const newClass = new ScrapClass(className, classEntities, options, cScope, false)
+
+    // members are only accessible through `this` inside the methods, so the methods scope does not contain them.
+    // The class itself is accessible, allowing to create new objects of the class inside its methods
+    const methodsScope = createEmptyScope(scope, className)
+    this.addToScope(methodsScope, className, newClass)
 
     const checkEmptyBody = this.cursor.next().content === Tokens.RBRACE
     if (this.cursor.currentTok.content === Tokens.LBRACE) {
@@ -381,7 +425,7 @@ export default class Parser {
         const tokenForWarning = this.nextToken() // eats '}' if the body is empty
         this.scrapGenerateWarn("Empty class body at line: " + tokenForWarning.line + ", pos: " + tokenForWarning.pos)
       }else
-        parseClassBody(this, classEntities, cScope)
+        parseClassBody(this, classEntities, cScope, methodsScope)
     }
 
 
@@ -389,12 +433,12 @@ export default class Parser {
       this.nextToken() // eats '}'
 
     
-    const constructor = cScope.getReference("constructor")
+    newClass.setHasConstructor = cScope.getScopedEntities.has(Keywords.CONSTRUCTOR)
 
-    if (constructor)
-      (constructor as DefinedFunction).setReturnType = new ScrapString(className)
+    // the members are known once the body is parsed, so the class can be checked against the interfaces it implements
+    checkImplementedInterfaces(this, newClass)
 
-    return new ScrapClass(className, classEntities, options, cScope, constructor !== undefined)
+    return newClass
   }
 
   /**
@@ -426,25 +470,32 @@ export default class Parser {
       case Tokens.LBRACE: this.parseLiteralObject(scope); break
     }
 
-    const name = this.cursor.currentTok.content
+    const nameToken = this.cursor.currentTok
+    const name = nameToken.content
+    let dataType: Nullable<string> = null
+
     if (inArray(name, RESERVERD_VAR_NAMES))
       this.scrapParseError(`'${name}' is not allowed as a variable declaration name.`)
 
     if (this.cursor.next().content === Tokens.COLON) {
       this.nextToken()
-      this.expectsType("IdentifierName", "Expected data type")
+      dataType = parseDataType(this, "Expected data type")
     }
 
     if (isConst)
       this.expectsContent(Tokens.EQUAL, "A constant must have a assigned value")
     else if (this.cursor.next().content === Tokens.EQUAL)
       this.nextToken() // eats data type or name in case variable is not constant
+    else {
+      this.nextToken() // eats data type or name, the variable is declared without value
+      return new ScrapVariable("variable", name, value, dataType, nameToken)
+    }
     
     this.nextToken() // eat '='
     
     value = this.parseExpr(scope)
 
-    return new ScrapVariable(isConst ? "constant" : "variable", name, value)
+    return new ScrapVariable(isConst ? "constant" : "variable", name, value, dataType, nameToken)
   }
 
   private parseReassignment(target: ScrapVariable, scope: Scope): ScrapValue {
@@ -454,17 +505,13 @@ export default class Parser {
     if (target.getVariableType === "constant")
       this.scrapParseError("A constant can not change the value which points")
 
+    const assignmentToken = this.cursor.currentTok
     this.nextToken() // eat '='
 
     const newValue = this.parseExpr(scope)
-    //const assignment = new ReassignmentExpression(target, newValue)
-
-    if (target.getAssignedValue instanceof ScrapReference)
-      target.getAssignedValue.getReferencedVar.setAssignedValue = newValue
-
-    target.setAssignedValue = newValue
 
-    return newValue
+    // the value is changed by the interpreter when the assignment is reached
+    return new ReassignmentExpression(target, newValue, assignmentToken)
   }
 
   /**
@@ -488,27 +535,24 @@ export default class Parser {
     return new ScrapReference(target)
   }
 
-  private parseArrayAccessor(accessedArray: ScrapArray<ScrapValue>, scope: Scope): ScrapArrayAccess {
+  private parseArrayAccessor(accessedArray: ScrapValue, scope: Scope): ScrapArrayAccess {
     this.nextToken() // eat '['
 
     const position = this.parseExpr(scope)
 
-    if (!(position instanceof ScrapInteger))
-      this.scrapParseError("Numeric value expected")
+    if (this.cursor.currentTok.content !== Tokens.RSQRBR)
+      this.scrapParseError("Missing ']' after the accessed position")
 
     this.nextToken() // eat ']'
 
     return new ScrapArrayAccess(accessedArray, position)
   }
 
-  private parseCall(scope: Scope, moduleScope?: Scope) {
-    const functionName = this.cursor.currentTok
-    const calledFunction = moduleScope ? moduleScope.getReference(functionName.content) : scope.getReference(functionName.content)
-
-    if (!calledFunction)
-      this.scrapReferenceError(functionName)
-
-    this.nextToken() // eat the function name
+  /**
+   * Parses the arguments of a call, placed between parenthesis
+   * @returns The parsed arguments
+   */
+  public parseCallArgs(scope: Scope): ScrapValue[] {
     this.nextToken() // eat '('
 
     const args: ScrapValue[] = []
@@ -521,27 +565,118 @@ export default class Parser {
       } while (this.cursor.currentTok.content !== Tokens.RPAREN)
     }
 
+    this.nextToken() // eat ')'
+
+    return args
+  }
+
+  private parseCall(scope: Scope, moduleScope?: Scope) {
+    const functionName = this.cursor.currentTok
+    const calledFunction = moduleScope ? moduleScope.getReference(functionName.content) : scope.getReference(functionName.content)
+
+    if (!calledFunction)
+      this.scrapReferenceError(functionName)
+
+    this.nextToken() // eat the function name
+
+    const args = this.parseCallArgs(scope)
+
     if (calledFunction instanceof ScrapNative) {
       if (calledFunction.getArgsCount !== true && calledFunction.getArgsCount !== args.length)
         this.scrapParseError(`'${calledFunction.name}' expects ${calledFunction.getArgsCount} arguments, but has received ${args.length}`)
     }
 
-    this.nextToken() // eat ')'
+    // a variable can store a function, which is known when the variable is read at runtime
+    const called = calledFunction instanceof ScrapVariable
+      ? new ScrapVariableAccess(calledFunction, functionName)
+      : calledFunction as ScrapFunction
 
-    return new ScrapCall(
-      scope.getOwner,
-      calledFunction as ScrapFunction,
-      args
-    )
+    return new ScrapCall(scope.getOwner, called, args, functionName)
   }
 
-  private resolveArrayAccessor(array: ScrapArray<ScrapValue>, scope: Scope) {
-    if (!(array instanceof ScrapArray))
-      this.scrapParseError("Can not apply an accessor expression to a value which is not an Array nor and Object")
+  /**
+   * Parses the access to a member (a property or a method) of an object
+   * 
+   * @example
+   * person.name
+   * person.greet()
+   */
+  private parseMemberAccess(object: ScrapValue, scope: Scope): ScrapMemberAccess {
+    const memberName = this.nextToken()
+
+    // keywords are valid member names, since a member can not be confused with a statement, e.g: `pattern.match(text)`
+    if (memberName.type !== "IdentifierName" && memberName.type !== "Statement")
+      this.scrapParseError("Expected a member name after '.'")
+
+    const accessingClass = getEnclosingClass(scope)
+
+    // when the class of the object is known while parsing, the access modifiers are checked here instead of at runtime.
+    // Accesses inside the same class are checked at runtime, since the class members may not be completely parsed yet
+    const objectClass = inferObjectClass(object)
+
+    if (objectClass && objectClass !== accessingClass) {
+      const accessError = objectClass.getAccessError(memberName.content, accessingClass)
+
+      if (accessError)
+        this.scrapParseError(accessError)
+    }
 
-    const newArrayAccessor = this.parseArrayAccessor(array, scope)
+    this.nextToken() // eat the member name
 
-    return newArrayAccessor
+    return new ScrapMemberAccess(object, memberName, accessingClass)
+  }
+
+  /**
+   * Parses the assignment of a value to a member of an object or to an element of an array.
+   * Compound assignments are also allowed, e.g: `this.count += 1`
+   */
+  private parseMemberAssignment(target: ScrapMemberAccess | ScrapArrayAccess, scope: Scope): MemberAssignment {
+    const operator = this.cursor.currentTok.content
+    this.nextToken() // eat the assignment operator
+
+    const assignedValue = this.parseExpr(scope)
+
+    if (operator === Tokens.EQUAL)
+      return new MemberAssignment(target, assignedValue)
+
+    return new MemberAssignment(target, assignedValue, operator.charAt(0))
+  }
+
+  /**
+   * Parses the operations placed after an already parsed value, which can be chained: calls to the value, accesses to array elements and accesses to members.
+   * The operation must start in the same line than the previous token, otherwise it is the start of other statement
+   * 
+   * @example
+   * handlers[0](event)
+   * makeAdder(1)(2)
+   * 
+   * @param operand Value where the operations are applied
+   */
+  public parsePostfix(operand: ScrapValue, scope: Scope): ScrapValue {
+    let result = operand
+
+    while (this.cursor.currentTok?.line === this.cursor.previous().line) {
+      switch (this.cursor.currentTok.content) {
+        case Tokens.LPAREN: {
+          const callToken = this.cursor.currentTok
+          result = new ScrapCall(scope.getOwner, result, this.parseCallArgs(scope), callToken)
+        } break
+        case Tokens.LSQRBR: result = this.parseArrayAccessor(result, scope); break
+        case Tokens.DOT: result = this.parseMemberAccess(result, scope); break
+        case Tokens.EQUAL:
+        case Tokens.ADD_ASSIGN:
+        case Tokens.MINUS_ASSIGN:
+        case Tokens.MULT_ASSIGN:
+        case Tokens.DIV_ASSIGN:
+          if (result instanceof ScrapMemberAccess || result instanceof ScrapArrayAccess)
+            return this.parseMemberAssignment(result, scope)
+
+          return result
+        default: return result
+      }
+    }
+
+    return result
   }
 
   private parseModuleAccessor(accessedModule: ScrapModule, scope: Scope): ScrapValue {
@@ -567,18 +702,28 @@ export default class Parser {
 
     switch (accessor.content) {
       case Tokens.EQUAL: return this.parseReassignment(ref as ScrapVariable, scope)
-      case Tokens.MODULE_ACCESSOR: return this.parseModuleAccessor(ref as ScrapModule, scope)
-    }
-
-    if (ref instanceof ScrapVariable) {
-      const varValue = ref.getAssignedValue
+      case Tokens.MODULE_ACCESSOR: {
+        if (ref instanceof ScrapEnum)
+          return parseVariantAccess(this, ref, scope)
 
-      if (varValue instanceof ScrapObject)
-        return varValue
-      
-      return new ScrapValue(varValue.getValue)
+        return this.parseModuleAccessor(ref as ScrapModule, scope)
+      }
+      case Tokens.INCREMENT:
+      case Tokens.DECREMENT: return this.parseOperator(ref as ScrapVariable, scope)
+      case Tokens.ADD_ASSIGN:
+      case Tokens.MINUS_ASSIGN:
+      case Tokens.MULT_ASSIGN:
+      case Tokens.DIV_ASSIGN: return this.parseCompoundAssignment(ref as ScrapVariable, scope)
+      case Tokens.DOT: {
+        // modules can also be accessed using a dot, e.g: `console.log()`
+        if (ref instanceof ScrapModule)
+          return this.parseModuleAccessor(ref, scope)
+      }
     }
 
+    if (ref instanceof ScrapVariable)
+      return new ScrapVariableAccess(ref, refName)
+
     return ref as ScrapFunction
   }
 
@@ -589,14 +734,37 @@ export default class Parser {
    * @returns must be still resolved
    */
   public parseIdentifier(scope: Scope, moduleScope?: Scope): ScrapValue {
+    if (this.cursor.currentTok.content === Keywords.SUPER)
+      return parseSuper(this, scope)
+
     if (this.cursor.next().content === Tokens.LPAREN)
       return this.parseCall(scope, moduleScope)
 
     return this.parseVariableRef(scope, moduleScope)
   }
 
+  /**
+   * Parses an expression between parenthesis, which is used to group expressions altering the precedence of the operators
+   * 
+   * @example
+   * (1 + 2) * 3 // the result is 9 instead of 7
+   */
+  private parseParenthesizedExpr(scope: Scope): ScrapValue {
+    this.nextToken() // eat '('
+
+    const expression = this.parseExpr(scope)
+
+    if (this.cursor.currentTok.content !== Tokens.RPAREN)
+      this.scrapParseError("Missing closing parenthesis ')'")
+
+    this.nextToken() // eat ')'
+
+    return expression
+  }
+
   private parseToken(scope: Scope): ScrapValue {
     switch (this.cursor.currentTok.content) {
+      case Tokens.LPAREN: return isArrowLambda(this) ? parseArrowLambda(this, scope) : this.parseParenthesizedExpr(scope)
       case Tokens.LBRACE: return this.parseLiteralObject(scope)
       case Tokens.LSQRBR: return this.parseLiteralArray(scope)
       case Tokens.AMPER: return this.parseReference(scope)
@@ -604,24 +772,83 @@ export default class Parser {
     }
   }
 
-  private parseOperator(operableVal: Ajustable, _scope: Scope) {
+  /**
+   * Parses an assignment which operates the current variable value with other value
+   * 
+   * @example
+   * num += 10 // same as: num = num + 10
+   * 
+   * @param target Variable whose value is operated
+   * @returns A `ReassignmentExpression` which assigns the result of the operation to `target`
+   */
+  private parseCompoundAssignment(target: ScrapVariable, scope: Scope): ReassignmentExpression {
     const operator = this.cursor.currentTok
-    switch (operator.content) {
-      case Tokens.INCREMENT: return operableVal.increment()
-      case Tokens.DECREMENT: return operableVal.decrement()
 
-      default: this.scrapParseError("Token not implemented yet")
-    }
+    if (!(target instanceof ScrapVariable))
+      this.scrapParseError(`Operator '${operator.content}' can only be applied to a variable`)
+
+    if (target.getVariableType === "constant")
+      this.scrapParseError("A constant can not change the value which points")
+
+    this.nextToken() // eat the compound assignment operator
+
+    const newValue = new BinaryExpression(
+      new ScrapVariableAccess(target, operator),
+      this.parseExpr(scope),
+      operator.content.charAt(0) // the operator without the '='
+    )
+
+    return new ReassignmentExpression(target, newValue, operator)
   }
 
   /**
-   * Parse the different type of expressions of ScrapLang
-   * @param scope Scope where the parsed expression or declaration belongs to
-   * @returns A parsed expression
+   * Parses an increment or a decrement of a variable value
+   * 
+   * @example
+   * num++ // same as: num = num + 1
+   * num-- // same as: num = num - 1
+   * 
+   * @param target Variable whose value is incremented or decremented
+   * @returns A `ReassignmentExpression` which assigns the new value to `target`
    */
-  public parseExpr(scope: Scope): ScrapValue {
-    if (this.cursor.currentTok.type === "Statement" && this.cursor.currentTok.content === Keywords.FN)
+  private parseOperator(target: ScrapVariable, _scope: Scope): ReassignmentExpression {
+    const operator = this.cursor.currentTok
+
+    if (!(target instanceof ScrapVariable))
+      this.scrapParseError(`Operator '${operator.content}' can only be applied to a variable`)
+
+    if (target.getVariableType === "constant")
+      this.scrapParseError("A constant can not change the value which points")
+
+    this.nextToken() // eat '++' or '--'
+
+    const newValue = new BinaryExpression(
+      new ScrapVariableAccess(target, operator),
+      new ScrapInteger(1),
+      operator.content === Tokens.INCREMENT ? Tokens.PLUS : Tokens.MINUS
+    )
+
+    return new ReassignmentExpression(target, newValue, operator)
+  }
+
+  /**
+   * Parses the expressions that can be operands of a binary expression, like literals, calls or variable references
+   * @param scope Scope where the parsed expression belongs to
+   * @returns A parsed operand
+   */
+  private parsePrimary(scope: Scope): ScrapValue {
+    if (this.cursor.currentTok.type === "Statement" && this.cursor.currentTok.content === Keywords.FN) {
+      if (this.cursor.next().content === Tokens.LPAREN)
+        return parseLambda(this, scope)
+
       return this.parseFunction(false, false, false, scope)
+    }
+
+    if (this.cursor.currentTok.type === "Statement" && this.cursor.currentTok.content === Keywords.NEW)
+      return parseNew(this, scope)
+
+    if (this.cursor.currentTok.type === "Statement" && this.cursor.currentTok.content === Keywords.MATCH)
+      return parseMatch(this, scope)
 
     if (this.cursor.currentTok.content === Keywords.ASYNC) {
       this.expectsContent(Keywords.FN, "'async' keywords is only applicable to functions")
@@ -637,13 +864,155 @@ export default class Parser {
       case "FloatLiteral":   return pUtils.parseFloatNumber.call(this)
       case "CharLiteral":    return pUtils.parseChar.call(this)
       case "StringLiteral":  return pUtils.parseString.call(this)
+      case "TemplateString":
+      case "TemplateHead":   return pUtils.parseTemplateString.call(this, scope)
+      case "RegexLiteral":   return pUtils.parseRegexLiteral.call(this)
       case "Token":          return this.parseToken(scope)
-      //case "TemplateString": return pUtils.parseString.call(this) // TODO: Make a parseTemplateString function
 
       default: this.scrapParseError("Expected expression")
     }
   }
 
+  /**
+   * Parses an operand which can be preceded by an unary operator, like `-` or `not`
+   *
+   * `-` only applies to the operand placed after it, while `not` applies to the comparisons placed after it,
+   * since it binds looser than them but tighter than `and` and `or`
+   *
+   * @example
+   * not a == b and c // parsed as: (not (a == b)) and c
+   *
+   * @param scope Scope where the parsed expression belongs to
+   * @returns An `UnaryExpression` if an unary operator was found, the parsed operand otherwise
+   */
+  private parseUnary(scope: Scope): ScrapValue {
+    const operator = this.cursor.currentTok
+
+    if (operator.type === "Statement" && operator.content === Keywords.NOT) {
+      this.nextToken() // eat 'not'
+      const operand = this.parseBinaryRhs(BINARY_OPERATORS_PRECEDENCE["=="], this.parseUnary(scope), scope)
+
+      return new UnaryExpression(operand, operator.content)
+    }
+
+    if (operator.type === "Operator" && operator.content === Tokens.MINUS) {
+      this.nextToken() // eat '-'
+      return new UnaryExpression(this.parseUnary(scope), operator.content)
+    }
+
+    return this.parsePostfix(this.parsePrimary(scope), scope)
+  }
+
+  /**
+   * Parses the predicates that checks if a value is absent (`null` or `undefined`).
+   * These predicates are placed after the checked value, like a binary operator whose right side is always `null`
+   * 
+   * @example
+   * font is null
+   * font is not null
+   * font not null // same as `font is not null`
+   * 
+   * @param checked Already parsed value which is checked
+   * @param operator Operator which was placed after the checked value, `is` or `not`
+   * @returns An `UnaryExpression` that checks the absence of `checked`
+   */
+  private parseNullPredicate(checked: ScrapValue, operator: string): UnaryExpression {
+    let isNegated = operator === Keywords.NOT
+
+    if (operator === Keywords.IS && this.cursor.currentTok.content === Keywords.NOT) {
+      this.nextToken() // eat 'not'
+      isNegated = true
+    }
+
+    if (this.cursor.currentTok?.content !== "null")
+      this.scrapParseError(`Expected 'null' after '${isNegated ? "not" : "is"}'`)
+
+    this.nextToken() // eat 'null'
+
+    return new UnaryExpression(checked, isNegated ? "not null" : "is null")
+  }
+
+  /**
+   * Parses the right side of a binary expression using operator precedence climbing.
+   * 
+   * While the current token is a binary operator which binds at least as tight as `exprPrec`, the operator and his right operand are consumed.
+   * If the next operator binds tighter than the consumed one, the right operand is the left side of that operation.
+   * In this way, operators with the same precedence are associated from left to right.
+   * 
+   * @example
+   * 1 + 2 * 3 - 4 // parsed as: (1 + (2 * 3)) - 4
+   * 
+   * @param exprPrec Minimal precedence that an operator needs to be consumed
+   * @param lhs Already parsed left side of the expression
+   * @returns The parsed binary expression, or `lhs` if there is not operator to apply
+   */
+  private parseBinaryRhs(exprPrec: number, lhs: ScrapValue, scope: Scope): ScrapValue {
+    while (true) {
+      const tokPrec = this.getTokPrecedence()
+
+      if (tokPrec < exprPrec)
+        return lhs
+
+      const operator = this.cursor.currentTok.content
+      this.nextToken() // eat the binary operator
+
+      if (operator === Keywords.IS || operator === Keywords.NOT) {
+        lhs = this.parseNullPredicate(lhs, operator)
+        continue
+      }
+
+      let rhs = this.parseUnary(scope)
+
+      if (tokPrec < this.getTokPrecedence())
+        rhs = this.parseBinaryRhs(tokPrec + 1, rhs, scope)
+
+      lhs = new BinaryExpression(lhs, rhs, operator)
+    }
+  }
+
+  /**
+   * Parse the different type of expressions of ScrapLang
+   * @param scope Scope where the parsed expression or declaration belongs to
+   * @returns A parsed expression
+   */
+  public parseExpr(scope: Scope): ScrapValue {
+    const lhs = this.parseUnary(scope)
+    const expression = this.parseBinaryRhs(1, lhs, scope)
+
+    switch (this.cursor.currentTok?.content) {
+      case "..":
+      case "...": return this.parseRange(expression, scope)
+    }
+
+    return expression
+  }
+
+  /**
+   * Parses a range of integers. A range can optionally specify the jump between his values using `step`
+   * 
+   * @example
+   * 0..5 // 0, 1, 2, 3, 4, 5
+   * 0...5 // 0, 1, 2, 3, 4
+   * 0..10 step 2 // 0, 2, 4, 6, 8, 10
+   * 
+   * @param start Already parsed start of the range
+   * @returns A new `ScrapRange`
+   */
+  private parseRange(start: ScrapValue, scope: Scope): ScrapRange {
+    const isInclusive = this.cursor.currentTok.content === ".."
+    this.nextToken() // eat '..' or '...'
+
+    const end = this.parseBinaryRhs(1, this.parseUnary(scope), scope)
+    let step: Nullable<ScrapValue> = null
+
+    if (this.cursor.currentTok?.type === "IdentifierName" && this.cursor.currentTok.content === "step") {
+      this.nextToken() // eat 'step'
+      step = this.parseBinaryRhs(1, this.parseUnary(scope), scope)
+    }
+
+    return new ScrapRange(start, end, step, isInclusive)
+  }
+
   public parseStatement(scope: Scope): Nameable {
     switch (this.cursor.currentTok.content) {
       case Keywords.VAR:    return this.parseVar(scope)
@@ -653,23 +1022,56 @@ export default class Parser {
       case Keywords.CONST:  return this.parseVar(scope)
       case Keywords.CLASS:  return this.parseClass(scope)
       case Keywords.MODULE: return this.parseModule(scope)
+      case Keywords.INTERFACE: return parseInterface(this)
+      case Keywords.ENUM:   return parseEnum(this)
 
       default: this.scrapParseError(`The ${this.cursor.currentTok.type} '${this.cursor.currentTok.content}' is not allowed in '${scope.getOwner}'`)
     }
   }
 
+  /**
+   * Parses an `export` statement placed at the file root. A declaration can be exported where it is declared,
+   * or a list of already declared entities can be exported
+   * 
+   * @example
+   * export fn shutdown() {}
+   * export { Albanil, Medico }
+   * 
+   * @returns The exported declaration, null if a list of entities was exported
+   */
+  private parseExport(scope: Scope): Nullable<ScrapFunction | ScrapEntity> {
+    const exportedTok = this.nextToken() // eat 'export' keyword
+
+    if (exportedTok.content === Tokens.LBRACE) {
+      parseExportList(this, this.mainModule)
+      return null
+    }
+
+    if (exportedTok.content === Keywords.IMPORT || exportedTok.content === Keywords.EXPORT)
+      this.scrapParseError(`Expected a declaration or a list of entities after 'export'`)
+
+    const exportedEntity = this.parseRoot(scope)!
+    this.mainModule.export(exportedEntity.name)
+
+    return exportedEntity
+  }
+
   /**
    * `parseRoot` calls the methods which parses entities allowed the be declared at the file root or modules.
    * 
    * * Not parsed example: A function declared inside another function wont be parsed since `parseRoot` is not invoked inside function body's.
    * * Parsed example: `main` function, since it is not declared inside another entity, `parseRoot` will call a method who resolve the function that parses the statament
    */
-  public parseRoot(scope: Scope): ScrapFunction | ScrapEntity {
+  public parseRoot(scope: Scope): Nullable<ScrapFunction | ScrapEntity> {
     switch (this.cursor.currentTok.content) {
+      case Keywords.IMPORT: return parseImport(this, scope)
+      case Keywords.EXPORT: return this.parseExport(scope)
       case Keywords.ASYNC:
       case Keywords.FN:
       case Keywords.CONST:
       case Keywords.CLASS:
+      case Keywords.INTERFACE:
+      case Keywords.ENUM:
       case Keywords.MODULE: {
         const parsedStatement = this.parseStatement(scope)
         this.addToScope(scope, parsedStatement.name, parsedStatement)
@@ -2,8 +2,488 @@
  * Regular expressions are a common way in programming and related fields,
  * which can be used to match strings based on a given pattern.
  *
- * These patterns are parsed on on different way due to the different syntax.
+ * These patterns are parsed on a different way due to their different syntax.
  *
- * That syntax is similar to other languages, with the goal of follow a "standar",
- * and is designed
- */
\ No newline at end of file
+ * That syntax is similar to other languages, with the goal of follow a standard, so it is the syntax of the regular expressions of JavaScript.
+ * Patterns are checked while the program is parsed, so a wrong pattern is reported as any other syntax error
+ *
+ * @example
+ * const date = /(?<year>\d{4})-(?<month>\d{2})/
+ */
+
+const VALID_FLAGS = "dgimsuy"
+const SYNTAX_CHARS = "^$\\.*+?()[]{}|/-"
+const CLASS_ESCAPES = "dDwWsS"
+const CONTROL_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", f: "\f", v: "\v", 0: "\0" }
+
+export type RegexGroupType = "capturing" | "non-capturing" | "lookahead" | "negative-lookahead" | "lookbehind" | "negative-lookbehind"
+
+/**
+ * A char of a character class, or a range of chars, e.g: `a-z`. Class escapes like `\d` are kept by their name
+ */
+export type RegexClassItem = { from: number, to: number } | { escape: string }
+
+export type RegexNode =
+  | { kind: "alternation", alternatives: RegexNode[] }
+  | { kind: "sequence", terms: RegexNode[] }
+  | { kind: "char", value: string }
+  | { kind: "any" }
+  | { kind: "escape", name: string }
+  | { kind: "assertion", name: string }
+  | { kind: "class", isNegated: boolean, items: RegexClassItem[] }
+  | { kind: "group", type: RegexGroupType, name?: string, body: RegexNode }
+  | { kind: "backreference", group: number | string }
+  | { kind: "quantifier", min: number, max: number, isLazy: boolean, body: RegexNode }
+
+export interface RegexPattern {
+  root: RegexNode
+  flags: string
+  groupCount: number
+  groupNames: string[]
+}
+
+/**
+ * Thrown when a pattern is not valid
+ * @param offset Position of the wrong char inside the pattern. The flags are placed after the pattern and its closing slash
+ */
+export class RegexSyntaxError extends Error {
+  offset: number
+
+  public constructor(message: string, offset: number) {
+    super(message)
+    this.name = "RegexSyntaxError"
+    this.offset = offset
+  }
+}
+
+class RegexParser {
+  private pattern: string
+  private pos: number
+  private groupCount: number
+  private groupNames: string[]
+  private backreferences: { group: number | string, offset: number }[]
+
+  public constructor(pattern: string) {
+    this.pattern = pattern
+    this.pos = 0
+    this.groupCount = 0
+    this.groupNames = []
+    this.backreferences = []
+  }
+
+  private error(message: string, offset = this.pos): never {
+    throw new RegexSyntaxError(message, offset)
+  }
+
+  private current(): string | undefined { return this.pattern[this.pos] }
+
+  private isEnd(): boolean { return this.pos >= this.pattern.length }
+
+  private eat(expected: string): boolean {
+    if (!this.pattern.startsWith(expected, this.pos))
+      return false
+
+    this.pos += expected.length
+    return true
+  }
+
+  public parse(flags: string): RegexPattern {
+    const root = this.parseAlternation()
+
+    if (!this.isEnd())
+      this.error("Unmatched ')'")
+
+    for (const { group, offset } of this.backreferences) {
+      if (typeof group === "number" ? group > this.groupCount : !this.groupNames.includes(group))
+        this.error(`There is not a group '${group}' to reference`, offset)
+    }
+
+    return { root, flags, groupCount: this.groupCount, groupNames: this.groupNames }
+  }
+
+  private parseAlternation(): RegexNode {
+    const alternatives = [this.parseSequence()]
+
+    while (this.eat("|"))
+      alternatives.push(this.parseSequence())
+
+    return alternatives.length === 1 ? alternatives[0] : { kind: "alternation", alternatives }
+  }
+
+  private parseSequence(): RegexNode {
+    const terms: RegexNode[] = []
+
+    while (!this.isEnd() && this.current() !== "|" && this.current() !== ")")
+      terms.push(this.parseTerm())
+
+    return { kind: "sequence", terms }
+  }
+
+  /**
+   * Parses an atom and the quantifier which repeats it, if any
+   */
+  private parseTerm(): RegexNode {
+    const termStart = this.pos
+    const atom = this.parseAtom()
+    const quantifierStart = this.pos
+    const quantifier = this.parseQuantifier()
+
+    if (!quantifier)
+      return atom
+
+    const isRepeatable = atom.kind !== "assertion" && !(atom.kind === "group" && atom.type !== "capturing" && atom.type !== "non-capturing")
+
+    if (!isRepeatable)
+      this.error(`Nothing to repeat, '${this.pattern.substring(termStart, quantifierStart)}' is not repeatable`, quantifierStart)
+
+    if (quantifier.min > quantifier.max)
+      this.error("Numbers out of order in {} quantifier", quantifierStart)
+
+    return { kind: "quantifier", ...quantifier, body: atom }
+  }
+
+  private parseNumber(): number | undefined {
+    const digits = /^\d+/.exec(this.pattern.substring(this.pos))?.[0]
+
+    if (digits === undefined)
+      return undefined
+
+    this.pos += digits.length
+    return Number(digits)
+  }
+
+  private parseQuantifier(): { min: number, max: number, isLazy: boolean } | null {
+    let min: number, max: number
+
+    switch (this.current()) {
+      case "*": min = 0; max = Infinity; this.pos++; break
+      case "+": min = 1; max = Infinity; this.pos++; break
+      case "?": min = 0; max = 1; this.pos++; break
+      case "{": {
+        const braceStart = this.pos++
+        const lower = this.parseNumber()
+
+        if (lower === undefined)
+          this.error("Incomplete quantifier, a number is expected after '{'", braceStart)
+
+        min = max = lower
+
+        if (this.eat(","))
+          max = this.parseNumber() ?? Infinity
+
+        if (!this.eat("}"))
+          this.error("Incomplete quantifier, missing the closing '}'", braceStart)
+      } break
+
+      default: return null
+    }
+
+    return { min, max, isLazy: this.eat("?") }
+  }
+
+  private parseAtom(): RegexNode {
+    const atomStart = this.pos
+    const char = this.pattern[this.pos++]
+
+    switch (char) {
+      case "^":
+      case "$": return { kind: "assertion", name: char }
+      case ".": return { kind: "any" }
+      case "(": return this.parseGroup(atomStart)
+      case "[": return this.parseClass(atomStart)
+      case "\\": return this.parseEscape(atomStart)
+      case "*":
+      case "+":
+      case "?": this.error(`Nothing to repeat, '${char}' must be placed after the repeated pattern`, atomStart)
+      // falls through
+      case "{": this.error("Nothing to repeat, a {} quantifier must be placed after the repeated pattern", atomStart)
+      // falls through
+      case "}": this.error("Lone quantifier brackets, '}' must close a {} quantifier", atomStart)
+      // falls through
+      case "]": this.error("Lone ']', it must close a character class", atomStart)
+    }
+
+    return { kind: "char", value: char }
+  }
+
+  private parseGroupName(groupStart: number): string {
+    const name = /^[A-Za-z_$][\w$]*/.exec(this.pattern.substring(this.pos))?.[0]
+
+    if (name === undefined)
+      this.error("Invalid group name, it must be an identifier", this.pos)
+
+    this.pos += name.length
+
+    if (!this.eat(">"))
+      this.error("Invalid group name, missing the closing '>'", this.pos)
+
+    if (this.groupNames.includes(name))
+      this.error(`Duplicate group name '${name}'`, groupStart)
+
+    return name
+  }
+
+  /**
+   * Parses a group, e.g: `(a)`, `(?:a)`, `(?<name>a)` or a lookaround like `(?=a)`. The '(' is already consumed
+   */
+  private parseGroup(groupStart: number): RegexNode {
+    let type: RegexGroupType = "capturing"
+    let name: string | undefined
+
+    if (this.eat("?")) {
+      switch (true) {
+        case this.eat(":"): type = "non-capturing"; break
+        case this.eat("="): type = "lookahead"; break
+        case this.eat("!"): type = "negative-lookahead"; break
+        case this.eat("<="): type = "lookbehind"; break
+        case this.eat("<!"): type = "negative-lookbehind"; break
+        case this.eat("<"): name = this.parseGroupName(groupStart); break
+        default: this.error("Invalid group, '(?' must be followed by ':', '=', '!', '<=', '<!' or a group name", groupStart)
+      }
+    }
+
+    if (type === "capturing") {
+      this.groupCount++
+
+      if (name !== undefined)
+        this.groupNames.push(name)
+    }
+
+    const body = this.parseAlternation()
+
+    if (!this.eat(")"))
+      this.error("Unterminated group, missing the closing ')'", groupStart)
+
+    return name !== undefined ? { kind: "group", type, name, body } : { kind: "group", type, body }
+  }
+
+  /**
+   * Parses the hexadecimal digits of an escape which represents a char by its code point, e.g: `\x41` or `\u{1F600}`
+   */
+  private parseCodePoint(escapeStart: number, digitsCount?: number): number {
+    const digits = digitsCount !== undefined
+      ? this.pattern.substring(this.pos, this.pos + digitsCount)
+      : /^[0-9a-fA-F]*/.exec(this.pattern.substring(this.pos))![0]
+
+    if (!/^[0-9a-fA-F]+$/.test(digits) || (digitsCount !== undefined && digits.length !== digitsCount))
+      this.error("Invalid escape, expected an hexadecimal number", escapeStart)
+
+    this.pos += digits.length
+    const codePoint = Number.parseInt(digits, 16)
+
+    if (codePoint > 0x10FFFF)
+      this.error("Invalid escape, the code point is greater than 10FFFF", escapeStart)
+
+    return codePoint
+  }
+
+  /**
+   * Parses an escape which represents a single char, e.g: `\n`, `\x41`, `\u{1F600}` or `\.`
+   * @returns The code point of the escaped char, or undefined if the escape does not represent a single char
+   */
+  private parseCharEscape(escapeStart: number): number | undefined {
+    const char = this.pattern[this.pos++]
+
+    if (char in CONTROL_ESCAPES)
+      return CONTROL_ESCAPES[char].codePointAt(0)
+
+    if (SYNTAX_CHARS.includes(char))
+      return char.codePointAt(0)
+
+    switch (char) {
+      case "x": return this.parseCodePoint(escapeStart, 2)
+      case "u": {
+        if (!this.eat("{"))
+          return this.parseCodePoint(escapeStart, 4)
+
+        const codePoint = this.parseCodePoint(escapeStart)
+
+        if (!this.eat("}"))
+          this.error("Invalid escape, missing the '}' which closes '\\u{'", escapeStart)
+
+        return codePoint
+      }
+      case "c": {
+        const letter = this.pattern[this.pos++]
+
+        if (letter === undefined || !/[A-Za-z]/.test(letter))
+          this.error("Invalid escape, '\\c' must be followed by a letter", escapeStart)
+
+        return letter.toUpperCase().charCodeAt(0) % 32
+      }
+    }
+
+    this.pos-- // the escape is not a char escape, so it is parsed by the caller
+    return undefined
+  }
+
+  /**
+   * Parses an Unicode property escape, e.g: `\p{Letter}`. The name of the property is checked by the regular expressions engine
+   */
+  private parsePropertyEscape(escapeStart: number): string {
+    if (!this.eat("{"))
+      this.error("Invalid property escape, '\\p' must be followed by a property between braces", escapeStart)
+
+    const closingBrace = this.pattern.indexOf("}", this.pos)
+
+    if (closingBrace === -1)
+      this.error("Invalid property escape, missing the closing '}'", escapeStart)
+
+    const property = this.pattern.substring(this.pos, closingBrace)
+    this.pos = closingBrace + 1
+
+    return property
+  }
+
+  /**
+   * Parses an escape placed outside a character class. The '\' is already consumed
+   */
+  private parseEscape(escapeStart: number): RegexNode {
+    if (this.isEnd())
+      this.error("Incomplete escape, '\\' can not be placed at the end of the pattern", escapeStart)
+
+    const codePoint = this.parseCharEscape(escapeStart)
+
+    if (codePoint !== undefined)
+      return { kind: "char", value: String.fromCodePoint(codePoint) }
+
+    const char = this.pattern[this.pos++]
+
+    if (char === "b" || char === "B")
+      return { kind: "assertion", name: `\\${char}` }
+
+    if (CLASS_ESCAPES.includes(char))
+      return { kind: "escape", name: char }
+
+    if (char === "p" || char === "P")
+      return { kind: "escape", name: `${char}{${this.parsePropertyEscape(escapeStart)}}` }
+
+    if (/[1-9]/.test(char)) {
+      this.pos--
+      const group = this.parseNumber()!
+      this.backreferences.push({ group, offset: escapeStart })
+
+      return { kind: "backreference", group }
+    }
+
+    if (char === "k") {
+      if (!this.eat("<"))
+        this.error("Invalid named reference, '\\k' must be followed by a group name between '<' and '>'", escapeStart)
+
+      const closingBracket = this.pattern.indexOf(">", this.pos)
+
+      if (closingBracket === -1)
+        this.error("Invalid named reference, missing the closing '>'", escapeStart)
+
+      const group = this.pattern.substring(this.pos, closingBracket)
+      this.pos = closingBracket + 1
+      this.backreferences.push({ group, offset: escapeStart })
+
+      return { kind: "backreference", group }
+    }
+
+    this.error(`Invalid escape '\\${char}'`, escapeStart)
+  }
+
+  /**
+   * Parses a member of a character class, which can be the start or the end of a range
+   */
+  private parseClassAtom(): RegexClassItem {
+    const atomStart = this.pos
+    const char = this.pattern[this.pos++]
+
+    if (char !== "\\")
+      return { from: char.codePointAt(0)!, to: char.codePointAt(0)! }
+
+    if (this.isEnd())
+      this.error("Incomplete escape, '\\' can not be placed at the end of the pattern", atomStart)
+
+    if (this.eat("b")) // inside a class, `\b` is the backspace char
+      return { from: 8, to: 8 }
+
+    const codePoint = this.parseCharEscape(atomStart)
+
+    if (codePoint !== undefined)
+      return { from: codePoint, to: codePoint }
+
+    const escaped = this.pattern[this.pos++]
+
+    if (CLASS_ESCAPES.includes(escaped))
+      return { escape: escaped }
+
+    if (escaped === "p" || escaped === "P")
+      return { escape: `${escaped}{${this.parsePropertyEscape(atomStart)}}` }
+
+    this.error(`Invalid escape '\\${escaped}' in character class`, atomStart)
+  }
+
+  /**
+   * Parses a character class, e.g: `[a-z_]` or `[^\d]`. The '[' is already consumed
+   */
+  private parseClass(classStart: number): RegexNode {
+    const isNegated = this.eat("^")
+    const items: RegexClassItem[] = []
+
+    while (!this.eat("]")) {
+      if (this.isEnd())
+        this.error("Unterminated character class, missing the closing ']'", classStart)
+
+      const rangeStart = this.pos
+      const from = this.parseClassAtom()
+
+      // a '-' placed at the end of the class is not a range
+      if (this.current() !== "-" || this.pattern[this.pos + 1] === "]" || this.pos + 1 >= this.pattern.length) {
+        items.push(from)
+        continue
+      }
+
+      this.pos++ // eat '-'
+      const to = this.parseClassAtom()
+
+      if ("escape" in from || "escape" in to)
+        this.error("Invalid character class, a class escape like '\\d' can not be the limit of a range", rangeStart)
+
+      if (from.from > to.from)
+        this.error(`Range out of order in character class '${this.pattern.substring(rangeStart, this.pos)}'`, rangeStart)
+
+      items.push({ from: from.from, to: to.to })
+    }
+
+    return { kind: "class", isNegated, items }
+  }
+}
+
+/**
+ * Checks that the flags are supported and not repeated
+ * @param patternLength Length of the pattern, since the flags are placed after the pattern and its closing slash
+ */
+function checkFlags(flags: string, patternLength: number) {
+  [...flags].forEach((flag, i) => {
+    const offset = patternLength + 1 + i
+
+    if (!VALID_FLAGS.includes(flag))
+      throw new RegexSyntaxError(`Invalid flag '${flag}', the valid flags are: ${[...VALID_FLAGS].join(", ")}`, offset)
+
+    if (flags.indexOf(flag) !== i)
+      throw new RegexSyntaxError(`Duplicate flag '${flag}'`, offset)
+  })
+}
+
+/**
+ * Parses the pattern of a regular expression
+ * @param flags Flags which change how the pattern is matched, e.g: `i` (ignore case) or `g` (global)
+ * @throws {RegexSyntaxError} If the pattern or the flags are not valid
+ */
+export function parseRegex(pattern: string, flags: string): RegexPattern {
+  checkFlags(flags, pattern.length)
+  const parsedPattern = new RegexParser(pattern).parse(flags)
+
+  // the regular expressions engine is the final judge, e.g: for the names of the Unicode properties
+  try {
+    new RegExp(pattern, flags)
+  } catch (error) {
+    throw new RegexSyntaxError((error as Error).message.replace(/^Invalid regular expression: \/.*\/\w*: /, ""), 0)
+  }
+
+  return parsedPattern
+}
\ No newline at end of file
@@ -1,6 +1,163 @@
 /**
  * Scraplang type system parser, when the parser reachs a data type, calls the TypeParser
  * And checks his correct syntax
+ *
+ * A data type is written as a name, which can be:
+ * - A primitive type, like `u8`, `f64`, `char` or `boolean`
+ * - A built-in type, like `String`, `Array`, `Object`, `Function` or `RegExp`
+ * - A class, an interface or an enum visible from the declaration
+ *
+ * Or as a function type, which describes the parameters and the returned value of a function, e.g: `(name: String) -> void`
  */
 
-export class TypeParser {}
+import type { Nullable } from "@typings"
+import type Parser from "@parser/parser.ts"
+import { PrimitiveTypes } from "@parser/parser.ts"
+import { Tokens } from "@lexer/lexer.ts"
+
+import { Scope } from "@lang/scope.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+import { ScrapEnum } from "@lang/elements/entities/enum.ts"
+
+const BUILTIN_TYPES = ["String", "Array", "Object", "Function", "RegExp"]
+
+/**
+ * Other names of the built-in types, e.g: `string` is written by the programs which follow the TypeScript style
+ */
+const TYPE_ALIASES: Record<string, string> = { string: "String" }
+
+/**
+ * Data type of a value known before the program runs
+ *
+ * * `unknown` is the data type of the values which can not be known while parsing, e.g: the result of a native function,
+ *   so any value can be assigned to it and it can be assigned to anything
+ * * `absent` is the data type of `null` and `undefined`, which can be assigned to any data type
+ */
+export type ScrapType =
+  | { kind: "unknown" }
+  | { kind: "absent" }
+  | { kind: "integer", name: string }
+  | { kind: "float", name: string }
+  | { kind: "builtin", name: string }
+  | { kind: "class", scrapClass: ScrapClass }
+  | { kind: "interface", scrapInterface: ScrapInterface }
+  | { kind: "enum", scrapEnum: ScrapEnum }
+
+export const UNKNOWN_TYPE: ScrapType = { kind: "unknown" }
+export const ABSENT_TYPE: ScrapType = { kind: "absent" }
+
+export function typeToString(type: ScrapType): string {
+  switch (type.kind) {
+    case "unknown": return "unknown"
+    case "absent": return "null"
+    case "class": return type.scrapClass.name
+    case "interface": return type.scrapInterface.name
+    case "enum": return type.scrapEnum.name
+    default: return type.name
+  }
+}
+
+/**
+ * Gets the lowest and the greatest values of an integer type, e.g: `u8` stores values from 0 to 255
+ */
+export function getIntegerRange(typeName: string): [bigint, bigint] {
+  const bits = BigInt(typeName.substring(1))
+
+  if (typeName.startsWith("u"))
+    return [0n, 2n ** bits - 1n]
+
+  return [-(2n ** (bits - 1n)), 2n ** (bits - 1n) - 1n]
+}
+
+/**
+ * Parses a data type written in a declaration, which starts at the next token. The current token will be the last token of the data type
+ *
+ * A function type can be placed between parentheses, and the names of its parameters are optional, so it is written
+ * without them, e.g: `((name: String) -> void)` is written as `(String) -> void`
+ *
+ * @param message Error shown if a data type is not found
+ * @returns The written data type
+ */
+export function parseDataType(parser: Parser, message: string): string {
+  const typeToken = parser.nextToken()
+
+  if (typeToken.type === "IdentifierName")
+    return typeToken.content
+
+  if (typeToken.content !== Tokens.LPAREN)
+    parser.scrapParseError(message)
+
+  const paramTypes: string[] = []
+
+  while (parser.cursor.next().content !== Tokens.RPAREN) {
+    // the name of the parameter is skipped
+    if (parser.cursor.next().type === "IdentifierName" && parser.cursor.source[parser.cursor.pos + 1]?.content === Tokens.COLON) {
+      parser.nextToken() // eat '(' or ','
+      parser.nextToken() // eat the parameter name
+    }
+
+    paramTypes.push(parseDataType(parser, message))
+
+    if (parser.cursor.next().content === Tokens.COMMA)
+      parser.nextToken() // eat the data type of the parameter
+    else if (parser.cursor.next().content !== Tokens.RPAREN)
+      parser.scrapParseError("Expected ',' or ')' after the data type of a parameter")
+  }
+
+  parser.nextToken() // eat the data type of the last parameter, or '(' if there are not parameters
+
+  if (parser.cursor.next().content !== Tokens.ARROW) {
+    if (paramTypes.length !== 1)
+      parser.scrapParseError("Expected '->' and the returned data type after the parameters of a function type")
+
+    return paramTypes[0]
+  }
+
+  parser.nextToken() // eat ')'
+
+  return `(${paramTypes.join(", ")}) -> ${parseDataType(parser, "Expected the returned data type after '->'")}`
+}
+
+/**
+ * Checks if a data type is a function type, e.g: `(String) -> void`
+ */
+export function isFunctionType(typeName: string): boolean {
+  return typeName.includes(Tokens.ARROW)
+}
+
+export class TypeParser {
+  /**
+   * Resolves the name of a data type written in a declaration
+   * @param scope Scope where the declaration is placed, where the classes, interfaces and enums are searched
+   * @returns The data type, null if the name does not belong to any data type
+   */
+  public parse(typeName: string, scope: Scope): Nullable<ScrapType> {
+    if (isFunctionType(typeName))
+      return { kind: "builtin", name: "Function" }
+
+    const name = TYPE_ALIASES[typeName] ?? typeName
+
+    if (Object.values(PrimitiveTypes).includes(name as PrimitiveTypes)) {
+      switch (name.charAt(0)) {
+        case "u":
+        case "i": return { kind: "integer", name }
+        case "f": return { kind: "float", name }
+        default: return { kind: "builtin", name }
+      }
+    }
+
+    if (BUILTIN_TYPES.includes(name))
+      return { kind: "builtin", name }
+
+    const entity = scope.getReference(name)
+
+    switch (true) {
+      case entity instanceof ScrapClass: return { kind: "class", scrapClass: entity }
+      case entity instanceof ScrapInterface: return { kind: "interface", scrapInterface: entity }
+      case entity instanceof ScrapEnum: return { kind: "enum", scrapEnum: entity }
+    }
+
+    return null
+  }
+}
\ No newline at end of file
@@ -1,5 +1,7 @@
 import Lexer from "./lexer/lexer.ts"
 import Parser from "./parser/parser.ts"
+import { Interpreter } from "./interpreter.ts"
+import { PermissionSet, setHostPermissions } from "./lang/api/permissions.ts"
 
 /**
  * Prints the info about the ScrapLang REPL in the console
@@ -19,16 +21,29 @@ const REPL_COMMANDS = {
 }
 
 /**
- * Starts the REPL of ScrapLang
+ * Starts the REPL of ScrapLang. The declarations are computed as soon as they are typed
+ *
+ * When the REPL is used from a terminal, the user is asked to grant the capabilities which were not granted using flags
+ * @param permissions Capabilities granted using flags, e.g: `--allow-read`
  */
-export function repl() {
+export function repl(permissions: PermissionSet = new PermissionSet()) {
     printReplInfo()
     const lexer = new Lexer("", "repl")
     const parser = new Parser(lexer)
+    const interpreter = new Interpreter(parser)
     let input
 
+    if (Deno.stdin.isTerminal())
+        permissions.enablePrompt()
+
+    setHostPermissions(permissions)
+
     while (true) {
-        input = prompt(">>> ")!
+        input = prompt(">>> ")
+
+        if (input === null) // the input was closed
+            break
+
         if (input === ".exit")
             REPL_COMMANDS[input](Deno.exitCode)
         else if (input === ".help" || input === ".license")
@@ -37,7 +52,10 @@ export function repl() {
             lexer.alsoScan("repl", input)
             parser.restart()
             try {
-                console.log(parser.parseRoot(parser.mainModule.getScope))
+                const parsedEntity = parser.parseRoot(parser.mainModule.getScope)
+
+                if (parsedEntity)
+                    interpreter.evaluate(parsedEntity)
             } catch (error) {
                 console.error("error:\n %s", error)
             }
@@ -0,0 +1,764 @@
+/**
+ * Type checker of ScrapLang, which runs after the parser builds the AST and before the interpreter runs the program
+ *
+ * The data types written in the declarations are checked against the values which reach them:
+ * - The initial values and the reassigned values of the variables and the properties
+ * - The arguments of the calls to functions, methods and constructors
+ * - The values returned by the functions which declare a return type
+ *
+ * A declaration without data type gets the data type of its initial value, e.g: `var count = 0` is an `i32`. If the initial value
+ * is a number, a char, a string or a boolean, only the values of that data type can be assigned to it later, otherwise (e.g: a function)
+ * the variable can store values of other data types, so its data type is unknown after one of them is assigned to it.
+ * The modules imported from other files are checked the first time they are imported.
+ * The values whose data type can not be known before running (e.g: the result of a native function) are not checked
+ */
+
+import Parser from "@parser/parser.ts"
+import type { Token } from "@lexer/lexer.ts"
+import { Keywords } from "@lexer/lexer.ts"
+import {
+  ABSENT_TYPE, ScrapType, TypeParser, UNKNOWN_TYPE,
+  getIntegerRange, typeToString
+} from "@parser/type-parser.ts"
+
+import type { AllowedBlockEntities, Nullable, ScrapParam } from "@typings"
+import { Scope } from "@lang/scope.ts"
+import { TypeCheckError } from "@lang/lang-errors.ts"
+import { ScrapIf } from "@lang/elements/control/if.ts"
+import { ScrapFor, ScrapForIn } from "@lang/elements/control/for.ts"
+import { ScrapTry } from "@lang/elements/control/try.ts"
+import { ScrapMatch } from "@lang/elements/control/match.ts"
+import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
+import { ScrapJump, ScrapReturn, ScrapThrow } from "@lang/elements/control/jumps.ts"
+import { ScrapCall } from "@lang/elements/values/call.ts"
+import { ScrapLambda } from "@lang/elements/values/lambda.ts"
+import { ScrapRange } from "@lang/elements/values/range.ts"
+import { ScrapRegExp } from "@lang/elements/values/regexp.ts"
+import { ScrapNew } from "@lang/elements/values/instance.ts"
+import { ScrapReference } from "@lang/elements/values/reference.ts"
+import { UnaryExpression } from "@lang/elements/values/unary.ts"
+import { BinaryExpression } from "@lang/elements/values/binary.ts"
+import { ScrapArray, ScrapArrayAccess } from "@lang/elements/values/array.ts"
+import { ScrapEnumValue, ScrapVariantAccess } from "@lang/elements/values/enum.ts"
+import { ReassignmentExpression } from "@lang/elements/values/reassignment.ts"
+import { MemberAssignment, ScrapMemberAccess } from "@lang/elements/values/member.ts"
+import { ScrapChar, ScrapString, ScrapTemplate } from "@lang/elements/values/textuals.ts"
+import { ScrapFloat, ScrapInteger } from "@lang/elements/values/numerics.ts"
+import { ScrapFalse, ScrapTrue } from "@lang/elements/values/booleans.ts"
+import { ScrapNull, ScrapUndefined } from "@lang/elements/values/absence.ts"
+import { ScrapClass } from "@lang/elements/entities/class.ts"
+import { ScrapInterface } from "@lang/elements/entities/interface.ts"
+import { DefinedModule, ScrapImport } from "@lang/elements/entities/modules.ts"
+import { ScrapVariable, ScrapVariableAccess } from "@lang/elements/entities/variable.ts"
+import { DefinedFunction, ScrapEntity, ScrapFunction, ScrapObject, ScrapValue } from "@lang/elements/commons.ts"
+
+const BOOLEAN_TYPE: ScrapType = { kind: "builtin", name: "boolean" }
+const STRING_TYPE: ScrapType = { kind: "builtin", name: "String" }
+const FUNCTION_TYPE: ScrapType = { kind: "builtin", name: "Function" }
+
+function isNumericType(type: ScrapType): boolean {
+  return type.kind === "integer" || type.kind === "float"
+}
+
+function isTextualType(type: ScrapType): boolean {
+  return type.kind === "builtin" && (type.name === "String" || type.name === "char")
+}
+
+function isPrimitiveType(type: ScrapType): boolean {
+  return isNumericType(type) || isTextualType(type) || (type.kind === "builtin" && type.name === "boolean")
+}
+
+/**
+ * Checks if the objects of a class, or of its parent classes, implement an interface
+ */
+function implementsInterface(scrapClass: ScrapClass, scrapInterface: ScrapInterface): boolean {
+  return scrapClass.getInterfaces.includes(scrapInterface) || (scrapClass.getParent !== null && implementsInterface(scrapClass.getParent, scrapInterface))
+}
+
+/**
+ * Checks if a value of the data type `from` can be stored where a value of the data type `to` is expected
+ *
+ * * An integer can be stored in an integer type which holds all its values, e.g: `u8` in `i16` but not in `i8`, and in any float type
+ * * A float can only be stored in a float type
+ * * A char can be stored in `String`, as a string of one char
+ * * An object can be stored in its class, in the parent classes and in the interfaces which its class implements
+ * * Any value which is not a number, a char, a boolean or a string can be stored in `Object`
+ */
+function isAssignable(from: ScrapType, to: ScrapType): boolean {
+  if (from.kind === "unknown" || to.kind === "unknown" || from.kind === "absent")
+    return true
+
+  switch (to.kind) {
+    case "integer": {
+      if (from.kind !== "integer")
+        return false
+
+      const [fromMin, fromMax] = getIntegerRange(from.name)
+      const [toMin, toMax] = getIntegerRange(to.name)
+
+      return fromMin >= toMin && fromMax <= toMax
+    }
+    case "float": return isNumericType(from)
+    case "class": return from.kind === "class" && (from.scrapClass === to.scrapClass || from.scrapClass.inheritsFrom(to.scrapClass))
+    case "enum": return from.kind === "enum" && from.scrapEnum === to.scrapEnum
+    case "interface": {
+      if (from.kind === "class")
+        return implementsInterface(from.scrapClass, to.scrapInterface)
+
+      return from.kind === "interface" && from.scrapInterface === to.scrapInterface
+    }
+    case "builtin": {
+      if (to.name === "Object")
+        return !isNumericType(from) && !isTextualType(from) && !(from.kind === "builtin" && from.name === "boolean")
+
+      if (to.name === "String")
+        return isTextualType(from)
+
+      return from.kind === "builtin" && from.name === to.name
+    }
+  }
+
+  return true
+}
+
+/**
+ * Gets the value of an integer literal, including the negative literals, e.g: `-128`
+ * @returns The value of the literal, null if the value is not an integer literal
+ */
+function getIntegerLiteral(value: ScrapValue): Nullable<number> {
+  if (value instanceof ScrapInteger)
+    return value.getValue
+
+  if (value instanceof UnaryExpression && value.getOperator === "-" && value.getOperand instanceof ScrapInteger)
+    return -value.getOperand.getValue
+
+  return null
+}
+
+export class TypeChecker {
+  private parser: Parser
+  private typeParser: TypeParser
+  private errors: string[]
+
+  /**
+   * Data types of the variables, which are written in their declarations or inferred from their initial values
+   */
+  private variableTypes: Map<ScrapVariable, ScrapType>
+
+  /**
+   * Functions whose bodies are being checked, the last one is the innermost, whose return type is checked by `return`
+   */
+  private functions: DefinedFunction[]
+
+  /**
+   * Scopes where the checked code is placed, the last one is used to find the classes, interfaces and enums used as data types
+   */
+  private scopes: Scope[]
+
+  /**
+   * Modules of other files which are already checked, so a module imported from several files is checked once
+   */
+  private checkedModules: Set<DefinedModule>
+
+  /**
+   * If true, the expressions are only inspected to get their data types, so their errors are not reported and the code placed
+   * inside them (e.g: the body of a lambda) is not checked. They are checked when the checker reaches them
+   */
+  private isInspecting: boolean
+
+  public constructor(parser: Parser) {
+    this.parser = parser
+    this.typeParser = new TypeParser()
+    this.errors = []
+    this.variableTypes = new Map()
+    this.functions = []
+    this.scopes = [parser.mainModule.getScope]
+    this.checkedModules = new Set()
+    this.isInspecting = false
+  }
+
+  /**
+   * Checks the whole program
+   * @throws {TypeCheckError} With all the errors found, if any
+   */
+  public check() {
+    for (const node of this.parser.ast.getProgram)
+      this.checkStatement(node.getNodeValue)
+
+    if (this.errors.length > 0)
+      throw new TypeCheckError(this.errors)
+  }
+
+  private get currentScope() { return this.scopes.at(-1)! }
+
+  /**
+   * Adds an error, placing it in the program using the token where it was found or the function which contains it
+   */
+  private addError(message: string, token?: Nullable<Token>) {
+    if (this.isInspecting)
+      return
+
+    const currentFunction = this.functions.at(-1)
+
+    if (token)
+      this.errors.push(`${message} at ${token.line}:${token.pos}`)
+    else if (currentFunction && !(currentFunction instanceof ScrapLambda))
+      this.errors.push(`${message}, in the function '${currentFunction.name}'`)
+    else
+      this.errors.push(message)
+  }
+
+  /**
+   * Resolves a data type written in the program, reporting the names which do not belong to any data type
+   * @param owner Description of what the data type belongs to, used to explain the error
+   */
+  private parseType(typeName: string, owner: string, token?: Nullable<Token>): ScrapType {
+    const type = this.typeParser.parse(typeName, this.currentScope)
+
+    if (type === null) {
+      this.addError(`Unknown data type '${typeName}' of ${owner}`, token)
+      return UNKNOWN_TYPE
+    }
+
+    return type
+  }
+
+  /**
+   * Checks that a value can be stored where a value of the data type `expected` is expected.
+   * An integer literal can be stored in any integer type whose range contains its value
+   * @param target Description of where the value is stored, used to explain the error
+   */
+  private checkAssignment(value: ScrapValue, valueType: ScrapType, expected: ScrapType, target: string, token?: Nullable<Token>) {
+    const literal = getIntegerLiteral(value)
+
+    if (literal !== null && expected.kind === "integer") {
+      const [min, max] = getIntegerRange(expected.name)
+
+      if (BigInt(literal) < min || BigInt(literal) > max)
+        this.addError(`${literal} is out of the range of '${expected.name}' (${min} to ${max}), the data type of ${target}`, token)
+
+      return
+    }
+
+    if (!isAssignable(valueType, expected))
+      this.addError(`Type '${typeToString(valueType)}' is not assignable to '${typeToString(expected)}', the data type of ${target}`, token)
+  }
+
+  /**
+   * Gets the data type of a variable. The variables declared without data type take the data type of their initial value,
+   * unless it is `null` or `undefined`, since the variable can store any value later
+   */
+  private getVariableType(variable: ScrapVariable): ScrapType {
+    const knownType = this.variableTypes.get(variable)
+
+    if (knownType)
+      return knownType
+
+    // the type is saved before inferring it, so a variable whose initial value reads the variable does not loop forever
+    this.variableTypes.set(variable, UNKNOWN_TYPE)
+
+    const dataType = variable.getDataType
+    let type: ScrapType
+
+    if (dataType !== null)
+      type = this.typeParser.parse(dataType, this.currentScope) ?? UNKNOWN_TYPE
+    else {
+      type = this.inspectType(variable.getAssignedValue)
+      type = type.kind === "absent" ? UNKNOWN_TYPE : type
+    }
+
+    this.variableTypes.set(variable, type)
+    return type
+  }
+
+  private checkDeclaration(variable: ScrapVariable) {
+    const assignedValue = variable.getAssignedValue
+    const valueType = this.inferType(assignedValue)
+    const dataType = variable.getDataType
+
+    if (dataType === null) {
+      this.variableTypes.set(variable, valueType.kind === "absent" ? UNKNOWN_TYPE : valueType)
+      return
+    }
+
+    const declaredType = this.parseType(dataType, `'${variable.name}'`, variable.getDeclarationToken)
+    this.variableTypes.set(variable, declaredType)
+    this.checkAssignment(assignedValue, valueType, declaredType, `'${variable.name}'`, variable.getDeclarationToken)
+  }
+
+  /**
+   * Checks the body of a function, whose parameters get the data types written in the parameter list
+   * @param thisClass Class whose objects are `this` inside the function, if the function is a method
+   */
+  private checkFunction(fn: DefinedFunction, thisClass?: ScrapClass) {
+    const functionScope = fn.getScope
+    this.scopes.push(functionScope)
+    this.functions.push(fn)
+
+    // the errors found in a named function already say which function contains them
+    const ownerSuffix = fn instanceof ScrapLambda ? " of the lambda" : ""
+
+    for (const param of fn.getParams) {
+      const paramVar = functionScope.getScopedEntities.get(param.pName)
+
+      if (paramVar instanceof ScrapVariable)
+        this.variableTypes.set(paramVar, this.parseType(param.pType, `the parameter '${param.pName}'${ownerSuffix}`))
+    }
+
+    const thisVar = functionScope.getScopedEntities.get(Keywords.THIS)
+
+    if (thisClass && thisVar instanceof ScrapVariable)
+      this.variableTypes.set(thisVar, { kind: "class", scrapClass: thisClass })
+
+    const returnType = fn.getDeclaredReturnType
+
+    if (returnType !== null)
+      this.parseType(returnType, `the returned value${ownerSuffix}`)
+
+    this.checkBody(fn.body)
+
+    this.functions.pop()
+    this.scopes.pop()
+  }
+
+  private checkClass(scrapClass: ScrapClass) {
+    this.scopes.push(scrapClass.getScope)
+
+    for (const { entitiyType } of scrapClass.getEntities) {
+      if (entitiyType instanceof DefinedFunction)
+        this.checkFunction(entitiyType, scrapClass)
+      else
+        this.checkDeclaration(entitiyType)
+    }
+
+    this.scopes.pop()
+  }
+
+  private checkBody(body: AllowedBlockEntities[], scope?: Scope) {
+    if (scope)
+      this.scopes.push(scope)
+
+    for (const statement of body)
+      this.checkStatement(statement)
+
+    if (scope)
+      this.scopes.pop()
+  }
+
+  private checkReturn(value: ScrapReturn) {
+    const returnedValue = value.getReturnValue
+    const returnedType = this.inferType(returnedValue)
+    const currentFunction = this.functions.at(-1)
+    const declaredType = currentFunction?.getDeclaredReturnType ?? null
+
+    if (currentFunction === undefined || declaredType === null)
+      return
+
+    const expected = this.typeParser.parse(declaredType, currentFunction.getScope) ?? UNKNOWN_TYPE
+    this.checkAssignment(returnedValue, returnedType, expected, "the returned value", value.getReturnToken)
+  }
+
+  /**
+   * Checks the body of a module declared in other file. Its errors are placed in the module, since their positions
+   * belong to its file
+   */
+  private checkImport(value: ScrapImport) {
+    const importedModule = value.getImportedModule
+
+    if (!(importedModule instanceof DefinedModule) || this.checkedModules.has(importedModule))
+      return
+
+    this.checkedModules.add(importedModule)
+
+    const errorsCount = this.errors.length
+    const functions = this.functions
+
+    // the functions which contain the `import` do not contain the imported code
+    this.functions = []
+    this.scopes.push(importedModule.getScope)
+    importedModule.getBody.forEach(entity => this.checkStatement(entity as ScrapEntity))
+    this.scopes.pop()
+    this.functions = functions
+
+    for (let i = errorsCount; i < this.errors.length; i++)
+      this.errors[i] = `${this.errors[i]}, in the module '${importedModule.name}'`
+  }
+
+  private checkStatement(node: ScrapValue | ScrapEntity | AllowedBlockEntities) {
+    switch (true) {
+      case node instanceof ScrapVariable: this.checkDeclaration(node); break
+      case node instanceof ScrapLambda: this.inferType(node); break
+      case node instanceof DefinedFunction: this.checkFunction(node); break
+      case node instanceof ScrapClass: this.checkClass(node); break
+      case node instanceof ScrapImport: this.checkImport(node); break
+      case node instanceof DefinedModule: {
+        this.scopes.push(node.getScope)
+        node.getBody.forEach(entity => this.checkStatement(entity as ScrapEntity))
+        this.scopes.pop()
+      } break
+
+      case node instanceof ScrapIf: {
+        this.inferType(node.getExpression)
+        this.checkBody(node.getBody, node.getScope)
+
+        if (node.getElseBranch)
+          this.checkStatement(node.getElseBranch)
+      } break
+
+      case node instanceof ScrapFor: {
+        this.scopes.push(node.getScope)
+        this.checkDeclaration(node.getVarDeclaration)
+        this.inferType(node.getExpression)
+        this.inferType(node.getValueModifier)
+        this.checkBody(node.getBody)
+        this.scopes.pop()
+      } break
+
+      case node instanceof ScrapForIn: {
+        this.inferType(node.getExpression)
+        this.checkBody(node.getBody, node.getScope)
+      } break
+
+      case node instanceof ScrapTry: {
+        this.checkBody(node.getBody, node.getScope)
+        const catchClause = node.getCatch
+
+        if (catchClause) {
+          this.variableTypes.set(catchClause.getErrorVar, { kind: "class", scrapClass: catchClause.getCaughtClass })
+          this.checkBody(catchClause.getBody, catchClause.getScope)
+        }
+
+        if (node.getFinallyBody)
+          this.checkBody(node.getFinallyBody)
+      } break
+
+      case node instanceof ScrapControlBlock: {
+        this.inferType(node.getExpression)
+        this.checkBody(node.getBody, node.getScope)
+      } break
+
+      case node instanceof ScrapReturn: this.checkReturn(node); break
+      case node instanceof ScrapThrow: this.inferType(node.getThrownValue); break
+      case node instanceof ScrapJump: break
+      case node instanceof ScrapValue: this.inferType(node); break
+    }
+  }
+
+  /**
+   * Checks the arguments received by a function against the data types of its parameters
+   * @param fnName Name of the called function, used to explain the errors
+   */
+  private checkArgs(params: ScrapParam[], args: ScrapValue[], fnName: string, scope: Scope, token?: Nullable<Token>) {
+    const argTypes = args.map(arg => this.inferType(arg))
+
+    if (params.length !== args.length) {
+      this.addError(`'${fnName}' expects ${params.length} arguments, but has received ${args.length}`, token)
+      return
+    }
+
+    params.forEach((param, i) => {
+      const paramType = this.typeParser.parse(param.pType, scope) ?? UNKNOWN_TYPE
+      this.checkAssignment(args[i], argTypes[i], paramType, `the parameter '${param.pName}' of '${fnName}'`, token)
+    })
+  }
+
+  /**
+   * Finds the method called through a member access, if the class of the object is known
+   */
+  private findMethod(access: ScrapMemberAccess): Nullable<DefinedFunction> {
+    const objectType = this.inferType(access.getObject)
+
+    if (objectType.kind !== "class")
+      return null
+
+    const method = objectType.scrapClass.findEntity(access.getMemberName)?.entity.entitiyType
+    return method instanceof DefinedFunction ? method : null
+  }
+
+  private inferCall(value: ScrapCall): ScrapType {
+    const called = value.getCalled
+    const calledFunction = called instanceof ScrapMemberAccess ? this.findMethod(called) : called
+
+    if (!(calledFunction instanceof DefinedFunction) || calledFunction instanceof ScrapLambda) {
+      if (!(called instanceof ScrapMemberAccess || called instanceof ScrapFunction))
+        this.inferType(called)
+
+      value.getArgs.forEach(arg => this.inferType(arg))
+      return UNKNOWN_TYPE
+    }
+
+    this.checkArgs(calledFunction.getParams, value.getArgs, calledFunction.name, calledFunction.getScope, value.getCallToken)
+
+    const returnType = calledFunction.getDeclaredReturnType
+    return returnType !== null ? this.typeParser.parse(returnType, calledFunction.getScope) ?? UNKNOWN_TYPE : UNKNOWN_TYPE
+  }
+
+  private inferNew(value: ScrapNew): ScrapType {
+    const instantiatedClass = value.getInstantiatedClass
+    const constructor = instantiatedClass.findEntity(Keywords.CONSTRUCTOR)?.entity.entitiyType
+
+    if (constructor instanceof DefinedFunction)
+      this.checkArgs(constructor.getParams, value.getArgs, `${instantiatedClass.name}.constructor`, constructor.getScope, value.getNewToken)
+    else if (value.getArgs.length > 0)
+      this.addError(`Class '${instantiatedClass.name}' does not have a constructor, so it can not receive arguments`, value.getNewToken)
+
+    return { kind: "class", scrapClass: instantiatedClass }
+  }
+
+  /**
+   * Gets the data type of a member of an object whose class or interface is known
+   */
+  private inferMemberAccess(value: ScrapMemberAccess): ScrapType {
+    const objectType = this.inferType(value.getObject)
+    const memberName = value.getMemberName
+
+    if (objectType.kind === "class") {
+      const member = objectType.scrapClass.findEntity(memberName)?.entity.entitiyType
+
+      if (member instanceof ScrapVariable)
+        return this.getVariableType(member)
+
+      return member instanceof DefinedFunction ? FUNCTION_TYPE : UNKNOWN_TYPE
+    }
+
+    if (objectType.kind === "interface") {
+      const member = objectType.scrapInterface.getMembers.find(member => member.name === memberName)
+
+      if (member?.kind === "property" && member.dataType !== null)
+        return this.typeParser.parse(member.dataType, this.currentScope) ?? UNKNOWN_TYPE
+
+      return member?.kind === "method" ? FUNCTION_TYPE : UNKNOWN_TYPE
+    }
+
+    return UNKNOWN_TYPE
+  }
+
+  /**
+   * Checks the value assigned to a member. The value stored by a compound assignment is the result of its operator,
+   * which is applied to the current value of the member and the new value
+   */
+  private inferMemberAssignment(value: MemberAssignment): ScrapType {
+    const target = value.getTarget
+    const operator = value.getOperator
+    const targetType = this.inferType(target)
+    let newValue = value.getNewValue
+    let newType = this.inferType(newValue)
+
+    // the operation is only built to check it, its operands are already checked
+    if (operator !== null) {
+      newValue = new BinaryExpression(target, newValue, operator)
+      newType = this.inferOperation(newValue as BinaryExpression, targetType, newType)
+    }
+
+    if (target instanceof ScrapMemberAccess)
+      this.checkAssignment(newValue, newType, targetType, `'${target.getMemberName}'`, target.getMemberToken)
+
+    return newType
+  }
+
+  /**
+   * Checks the value assigned to a variable against its data type, which is written in its declaration or inferred from its initial value.
+   * A variable declared without data type whose initial value is not primitive can store values of other data types,
+   * so its data type is unknown after a value of other data type is assigned to it
+   */
+  private inferReassignment(value: ReassignmentExpression): ScrapType {
+    const target = value.getTarget
+    const newValue = value.getValue as ScrapValue
+    const newType = this.inferType(newValue)
+    const targetType = this.getVariableType(target)
+
+    if (target.getDataType !== null || isPrimitiveType(targetType))
+      this.checkAssignment(newValue, newType, targetType, `'${target.name}'`, value.getAssignmentToken)
+    else if (!this.isInspecting && !isAssignable(newType, targetType))
+      this.variableTypes.set(target, UNKNOWN_TYPE)
+
+    return newType
+  }
+
+  private inferBinary(value: BinaryExpression): ScrapType {
+    return this.inferOperation(value, this.inferType(value.getLhs), this.inferType(value.getRhs))
+  }
+
+  /**
+   * Gets the data type of the result of a binary operation whose operands have the data types `lhs` and `rhs`
+   */
+  private inferOperation(value: BinaryExpression, lhs: ScrapType, rhs: ScrapType): ScrapType {
+    const operator = value.getOperator
+    const isKnown = lhs.kind !== "unknown" && rhs.kind !== "unknown"
+    const operatorError = `Operator '${operator}' can not be applied to '${typeToString(lhs)}' and '${typeToString(rhs)}'`
+
+    switch (operator) {
+      case "and":
+      case "or":
+      case "==":
+      case "!=":
+      case "instanceof":
+      case "in": return BOOLEAN_TYPE
+      case "<":
+      case ">":
+      case "<=":
+      case ">=": {
+        const areComparable = (isNumericType(lhs) && isNumericType(rhs)) || (isTextualType(lhs) && isTextualType(rhs))
+
+        if (isKnown && !areComparable)
+          this.addError(operatorError, this.findToken(value))
+
+        return BOOLEAN_TYPE
+      }
+    }
+
+    // any value can be concatenated to a string
+    if (operator === "+" && ((lhs.kind === "builtin" && lhs.name === "String") || (rhs.kind === "builtin" && rhs.name === "String")))
+      return STRING_TYPE
+
+    if (!isKnown)
+      return UNKNOWN_TYPE
+
+    // an integer literal takes the data type of the other operand, e.g: `1 + small` is an `u8` if `small` is an `u8`
+    if (lhs.kind === "integer" && rhs.kind === "integer")
+      return getIntegerLiteral(value.getLhs) !== null ? rhs : lhs
+
+    if (lhs.kind === "float")
+      return isNumericType(rhs) ? lhs : this.reportOperator(operatorError, value)
+
+    if (rhs.kind === "float")
+      return isNumericType(lhs) ? rhs : this.reportOperator(operatorError, value)
+
+    return this.reportOperator(operatorError, value)
+  }
+
+  private reportOperator(message: string, value: BinaryExpression): ScrapType {
+    this.addError(message, this.findToken(value))
+    return UNKNOWN_TYPE
+  }
+
+  /**
+   * Finds a token placed inside an expression, so an error found in the expression can be placed in the program
+   */
+  private findToken(value: ScrapValue): Nullable<Token> {
+    switch (true) {
+      case value instanceof ScrapVariableAccess: return value.getAccessToken
+      case value instanceof ScrapCall: return value.getCallToken
+      case value instanceof ScrapMemberAccess: return value.getMemberToken
+      case value instanceof ScrapNew: return value.getNewToken
+      case value instanceof BinaryExpression: return this.findToken(value.getLhs) ?? this.findToken(value.getRhs)
+      case value instanceof UnaryExpression: return this.findToken(value.getOperand)
+    }
+
+    return null
+  }
+
+  private inferUnary(value: UnaryExpression): ScrapType {
+    const operandType = this.inferType(value.getOperand)
+
+    if (value.getOperator !== "-")
+      return BOOLEAN_TYPE
+
+    if (operandType.kind !== "unknown" && !isNumericType(operandType))
+      this.addError(`Operator '-' can not be applied to '${typeToString(operandType)}'`, this.findToken(value))
+
+    return isNumericType(operandType) ? operandType : UNKNOWN_TYPE
+  }
+
+  /**
+   * Gets the data type of an expression without checking it, e.g: the initial value of a variable which is used before
+   * its declaration is checked
+   */
+  private inspectType(value: ScrapValue): ScrapType {
+    const wasInspecting = this.isInspecting
+    this.isInspecting = true
+
+    const type = this.inferType(value)
+
+    this.isInspecting = wasInspecting
+    return type
+  }
+
+  /**
+   * Gets the data type of an expression, checking the expressions placed inside it
+   */
+  private inferType(value: ScrapValue): ScrapType {
+    switch (true) {
+      case value instanceof ScrapInteger:               return { kind: "integer", name: "i32" }
+      case value instanceof ScrapFloat:                 return { kind: "float", name: "f64" }
+      case value instanceof ScrapChar:                  return { kind: "builtin", name: "char" }
+      case value instanceof ScrapString:                return STRING_TYPE
+      case value instanceof ScrapTrue:
+      case value instanceof ScrapFalse:                 return BOOLEAN_TYPE
+      case value instanceof ScrapNull:
+      case value instanceof ScrapUndefined:             return ABSENT_TYPE
+      case value instanceof ScrapTemplate: {
+        value.getExpressions.forEach(expression => this.inferType(expression))
+        return STRING_TYPE
+      }
+
+      case value instanceof ScrapArray: {
+        (value.getValue as ScrapValue[]).forEach(element => this.inferType(element))
+        return { kind: "builtin", name: "Array" }
+      }
+
+      case value instanceof ScrapRegExp:                return { kind: "builtin", name: "RegExp" }
+      case value instanceof ScrapLambda: {
+        if (!this.isInspecting)
+          this.checkFunction(value)
+
+        return FUNCTION_TYPE
+      }
+
+      case value instanceof ScrapFunction:              return FUNCTION_TYPE
+      case value instanceof ScrapObject: {
+        value.getValue?.forEach(property => this.inferType(property))
+        return { kind: "builtin", name: "Object" }
+      }
+
+      case value instanceof ScrapVariableAccess:        return this.getVariableType(value.getAccessedVariable)
+      case value instanceof ScrapReference:             return this.getVariableType(value.getReferencedVar)
+      case value instanceof ScrapCall:                  return this.inferCall(value)
+      case value instanceof ScrapNew:                   return this.inferNew(value)
+      case value instanceof ScrapMemberAccess:          return this.inferMemberAccess(value)
+      case value instanceof MemberAssignment:           return this.inferMemberAssignment(value)
+      case value instanceof ReassignmentExpression:     return this.inferReassignment(value)
+      case value instanceof BinaryExpression:           return this.inferBinary(value)
+      case value instanceof UnaryExpression:            return this.inferUnary(value)
+      case value instanceof ScrapVariantAccess: {
+        value.getArgs.forEach(arg => this.inferType(arg))
+        return { kind: "enum", scrapEnum: value.getEnum }
+      }
+
+      case value instanceof ScrapEnumValue:             return { kind: "enum", scrapEnum: value.getEnum }
+      case value instanceof ScrapArrayAccess: {
+        this.inferType(value.getAccessedArray)
+        this.inferType(value.getAccessedPosition)
+        return UNKNOWN_TYPE
+      }
+
+      case value instanceof ScrapRange: {
+        [value.getStart, value.getEnd, value.getStep].forEach(limit => limit && this.inferType(limit))
+        return UNKNOWN_TYPE
+      }
+
+      case value instanceof ScrapMatch: {
+        if (this.isInspecting)
+          return UNKNOWN_TYPE
+
+        this.inferType(value.getMatched)
+
+        for (const arm of value.getArms) {
+          const body = arm.getBody
+
+          if (Array.isArray(body))
+            this.checkBody(body, arm.getScope)
+          else {
+            this.scopes.push(arm.getScope)
+            this.inferType(body)
+            this.scopes.pop()
+          }
+        }
+
+        return UNKNOWN_TYPE
+      }
+    }
+
+    return UNKNOWN_TYPE
+  }
+}
\ No newline at end of file
@@ -2,6 +2,9 @@ import { ScrapValue } from "@lang/elements/commons.ts"
 import { ScrapCall } from "@lang/elements/values/call.ts"
 import { DefinedFunction } from "@lang/elements/commons.ts"
 import { ScrapVariable } from "@lang/elements/entities/variable.ts"
+import { ScrapJump } from "@lang/elements/control/jumps.ts"
+import { ScrapControlBlock } from "@lang/elements/control/control-block.ts"
+import { ScrapMatch } from "@lang/elements/control/match.ts"
 import { ReassignmentExpression } from "@lang/elements/values/reassignment.ts"
 
 /**
@@ -44,7 +47,7 @@ export interface Ajustable {
 
 export type Primitive = number | string | boolean | null | undefined
 
-export type AllowedBlockEntities = DefinedFunction | ScrapVariable | ScrapCall | ReassignmentExpression
+export type AllowedBlockEntities = DefinedFunction | ScrapVariable | ScrapCall | ReassignmentExpression | ScrapControlBlock | ScrapJump | ScrapMatch
 
 /**
  * Represents a function parameter
@@ -63,4 +66,24 @@ export interface ScrapClassEntityProps {
     isStatic: boolean,
     canOverride: boolean,
     entitiyType: ScrapVariable | DefinedFunction
+}
+
+/**
+ * Represents a member that an interface requires to the classes which implements it
+ * 
+ * For a method, `dataType` is the return data type. For a property, it is the data type of the property
+ */
+export interface ScrapInterfaceMember {
+    name: string,
+    kind: "method" | "property",
+    params: ScrapParam[],
+    dataType: Nullable<string>
+}
+
+/**
+ * Represents a variant of an enum. A variant with parameters carries associated values when it is created
+ */
+export interface ScrapEnumVariant {
+    name: string,
+    params: ScrapParam[]
 }
\ No newline at end of file
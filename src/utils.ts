@@ -1,6 +1,6 @@
-/// Detects alphabetic characters (ignoring Cases)
+/// Detects alphabetic characters (ignoring Cases), including the letters of any language, e.g: 'ñ'
 export function isAlpha(token: string) {
-    const alphaRegex = /[a-zA-Z_]/
+    const alphaRegex = /[\p{ID_Start}_]/u
   
     return alphaRegex.test(token)
 }
@@ -11,9 +11,9 @@ export function isHexadecimal(token: string) {
     return numericValue.test(token)
 }
 
-/// Detects alphanumeric characters
+/// Detects alphanumeric characters, including the letters and digits of any language
 export function isAlphaNum(token: string) {
-    const alphaNum = /[0-9a-zA-Z_]/
+    const alphaNum = /[\p{ID_Continue}_]/u
 
     return alphaNum.test(token)
 }
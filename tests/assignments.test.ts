@@ -0,0 +1,59 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+Deno.test("reassignments take effect when they are run", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var count = 1
+  std::log(count)
+  count = 2
+  std::log(count)
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["1", "2"])
+})
+
+Deno.test("reassignments inside a function which is never called do not change anything", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var count = 1
+
+  fn neverCalled() {
+    count = 100
+  }
+
+  std::log(count)
+}`)
+
+  assert.equal(stdout, "1")
+})
+
+Deno.test("each run of a declaration starts from its initial value", async () => {
+  const { stdout } = await runSource(`
+fn next(): i32 {
+  var count = 0
+  count = count + 1
+  return count
+}
+
+fn main() {
+  std::log(next(), next())
+}`)
+
+  assert.equal(stdout, "1 1")
+})
+
+Deno.test("writes through a reference change the referenced variable", async () => {
+  const { stdout } = await runSource(`
+fn setTen(num: i32) {
+  num = 10
+}
+
+fn main() {
+  var myNumber = 20
+  setTen(&myNumber)
+  std::log(myNumber)
+}`)
+
+  assert.equal(stdout, "10")
+})
\ No newline at end of file
@@ -0,0 +1,236 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+Deno.test("new runs the constructor with this bound to the created object", async () => {
+  const { stdout } = await runSource(`
+class Person {
+  public name: String
+  public age: u8 = 18
+
+  public fn constructor(name: String) {
+    this.name = name
+  }
+
+  public fn greet(other: String): String {
+    return "Hello " + other + ", I am " + this.name
+  }
+}
+
+fn main() {
+  const juan = new Person("Juan")
+  const ana = new Person("Ana")
+  std::log(juan.name, juan.age, ana.name)
+  std::log(juan.greet("Ana"))
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["Juan 18 Ana", "Hello Ana, I am Juan"])
+})
+
+Deno.test("a class without constructor can not receive arguments", async () => {
+  const { code, stderr } = await runSource(`
+class Empty {
+  public value: i32 = 1
+}
+
+fn main() {
+  const empty = new Empty(10)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Class 'Empty' does not have a constructor/)
+})
+
+Deno.test("new Object() creates an empty object which can receive any property", async () => {
+  const { code, stdout, stderr } = await runSource(`
+fn main() {
+  const first = new Object()
+  const second = new Object()
+  first.name = "Juan"
+  std::log(first, second)
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "{ name: Juan } {}")
+})
+
+Deno.test("members can be accessed and chained with the dot", async () => {
+  const { stdout } = await runSource(`
+class Point {
+  public x: i32 = 0
+
+  public fn constructor(x: i32) {
+    this.x = x
+  }
+
+  public fn next(): Point {
+    return new Point(this.x + 1)
+  }
+}
+
+fn main() {
+  const point = new Point(1)
+  point.x = 5
+  std::log(point.x, point.next().next().x)
+}`)
+
+  assert.equal(stdout, "5 7")
+})
+
+Deno.test("a compound assignment computes the object of its target once", async () => {
+  const { code, stdout, stderr } = await runSource(`
+class Counter {
+  public x: i32 = 0
+  public calls: i32 = 0
+
+  public fn next(): Counter {
+    this.calls += 1
+    return this
+  }
+}
+
+fn main() {
+  const counter = new Counter()
+  counter.next().x += 5
+  counter.next().x -= 2
+
+  const items = [1, 2]
+  var i = 0
+  items[i++] += 10
+
+  std::log(counter.calls, counter.x, items, i)
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "2 3 [1, 12] 1")
+})
+
+Deno.test("private members can not be accessed outside their class", async () => {
+  const { code, stderr } = await runSource(`
+class Person {
+  id: String = "1"
+  public name: String = "Juan"
+}
+
+fn main() {
+  const juan = new Person()
+  std::log(juan.id)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'id' is private, so it can only be accessed inside the class 'Person'/)
+})
+
+Deno.test("private members are checked at runtime when the class is not known while parsing", async () => {
+  const { code, stderr } = await runSource(`
+class Person {
+  id: String = "1"
+}
+
+fn readId(person: Person) {
+  return person.id
+}
+
+fn main() {
+  readId(new Person())
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'id' is private/)
+})
+
+const ANIMAL_CLASS = `
+class Animal {
+  protected name: String
+  secret: String = "hidden"
+
+  public fn constructor(name: String) {
+    this.name = name
+  }
+
+  public fn describe(): String {
+    return "an animal called " + this.name
+  }
+}`
+
+Deno.test("subclasses call the parent constructor and methods with super", async () => {
+  const { stdout } = await runSource(`${ANIMAL_CLASS}
+
+class Dog extends Animal {
+  public fn constructor(name: String) {
+    super(name)
+  }
+
+  public override fn describe(): String {
+    return super.describe() + " which barks"
+  }
+}
+
+class Puppy extends Dog {}
+
+fn main() {
+  const puppy = new Puppy("Toby")
+  std::log(puppy.describe())
+  std::log(puppy instanceof Animal, new Animal("Rex") instanceof Dog)
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["an animal called Toby which barks", "true false"])
+})
+
+Deno.test("protected members are visible in subclasses while private members are not", async () => {
+  const { stdout } = await runSource(`${ANIMAL_CLASS}
+
+class Dog extends Animal {
+  public fn getName(): String {
+    return this.name
+  }
+}
+
+fn main() {
+  std::log(new Dog("Rex").getName())
+}`)
+
+  assert.equal(stdout, "Rex")
+
+  const { code, stderr } = await runSource(`${ANIMAL_CLASS}
+
+class Dog extends Animal {
+  public fn getSecret(): String {
+    return this.secret
+  }
+}
+
+fn main() {
+  std::log(new Dog("Rex").getSecret())
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'secret' is private/)
+})
+
+Deno.test("override is required to shadow a parent member and needs a parent member", async () => {
+  const missingOverride = await runSource(`${ANIMAL_CLASS}
+
+class Dog extends Animal {
+  public fn describe(): String {
+    return "a dog"
+  }
+}
+
+fn main() {}`)
+
+  assert.equal(missingOverride.code, 1)
+  assert.match(missingOverride.stderr, /override/)
+
+  const uselessOverride = await runSource(`${ANIMAL_CLASS}
+
+class Dog extends Animal {
+  public override fn bark(): String {
+    return "woof"
+  }
+}
+
+fn main() {}`)
+
+  assert.equal(uselessOverride.code, 1)
+  assert.match(uselessOverride.stderr, /override/)
+})
\ No newline at end of file
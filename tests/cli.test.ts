@@ -0,0 +1,114 @@
+import assert from "node:assert/strict"
+import { createFiles, runCommand, runSource } from "./utils.ts"
+
+Deno.test("the arguments are received by main and its integer is the exit code", async () => {
+  const { code, stdout } = await runSource(`
+fn main(args: Array) {
+  std::log(args)
+  return 3
+}`, {}, ["first", "second"])
+
+  assert.equal(code, 3)
+  assert.equal(stdout, "[first, second]")
+})
+
+Deno.test("an exit code outside of 0 to 255 is an error", async () => {
+  const { code, stderr } = await runSource("fn main() {\n  return 256\n}")
+
+  assert.equal(code, 1)
+  assert.equal(stderr, "error: The main function returned 256, but the exit code must be between 0 and 255")
+})
+
+Deno.test("unexpected errors are shown as a clean error", async () => {
+  const { code, stderr } = await runCommand(["tokens", createFiles({})])
+
+  assert.equal(code, 1)
+  assert.match(stderr, /^error: Is a directory/)
+})
+
+Deno.test("unknown commands and missing files are reported", async () => {
+  const unknown = await runCommand(["build"])
+
+  assert.equal(unknown.code, 1)
+  assert.match(unknown.stderr, /^error: Unknown command 'build'\n\nUsage: scrap <command> \[args\]/)
+
+  const missing = await runCommand(["run", "-A", "missing.scrap"])
+
+  assert.equal(missing.code, 1)
+  assert.equal(missing.stderr, "error: Can not find the file 'missing.scrap'")
+})
+
+Deno.test("check reports the errors of every file before failing", async () => {
+  const directory = createFiles({
+    "first.scrap": "fn main() {\n  const small: u8 = 300\n}",
+    "second.scrap": "fn main() {\n  const name: String = 20\n}",
+    "valid.scrap": "fn main() {\n  std::log(1)\n}"
+  })
+
+  const { code, stdout, stderr } = await runCommand(["check", `${directory}/first.scrap`, `${directory}/second.scrap`, `${directory}/valid.scrap`])
+
+  assert.equal(code, 1)
+  assert.equal(stdout, "")
+  assert.match(stderr, /300 is out of the range of 'u8'/)
+  assert.match(stderr, /Type 'i32' is not assignable to 'String'/)
+
+  assert.equal((await runCommand(["check", `${directory}/valid.scrap`])).code, 0)
+})
+
+Deno.test("the warnings go to stderr", async () => {
+  const { code, stdout, stderr } = await runSource("class Empty {}\n\nfn main() {\n  std::log(1)\n}")
+
+  assert.equal(code, 0)
+  assert.equal(stdout, "1")
+  assert.match(stderr, /^Warning: Empty class body/)
+})
+
+Deno.test("the test runner tells failed assertions from errors", async () => {
+  const directory = createFiles({
+    "math.test.scrap": `
+import { assert, AssertionError } from "scrap:testing"
+
+fn testSum() {
+  assert(1 + 1 == 2)
+}
+
+fn testWrongSum() {
+  assert(1 + 1 == 3, "1 + 1 must be 3")
+}
+
+fn testCrash() {
+  throw new Error("crashed")
+}
+
+fn testCaughtAssertion() {
+  try {
+    assert(false)
+  } catch (e: AssertionError) {
+    std::log(e.message)
+  }
+}`
+  })
+
+  const { code, stdout, stderr } = await runCommand(["test", directory])
+
+  assert.equal(code, 1)
+  assert.match(stdout, /testSum \.\.\. ok/)
+  assert.match(stdout, /testWrongSum \.\.\. FAILED/)
+  assert.match(stdout, /testCrash \.\.\. ERROR/)
+  assert.match(stdout, /Assertion failed\n {2}testCaughtAssertion \.\.\. ok/)
+  assert.match(stdout, /FAILED \| 2 passed \| 2 failed/)
+  assert.match(stderr, /AssertionError: Assertion failed: 1 \+ 1 must be 3/)
+})
+
+Deno.test("fmt fixes the indentation, trailing spaces and blank lines", async () => {
+  const directory = createFiles({ "main.scrap": "fn main() {\nstd::log(1)   \n\n\n    std::log(2)\n}\n" })
+
+  const checked = await runCommand(["fmt", "--check", directory])
+
+  assert.equal(checked.code, 1)
+  assert.match(checked.stderr, /Not formatted: .*main\.scrap/)
+
+  assert.equal((await runCommand(["fmt", directory])).code, 0)
+  assert.equal(Deno.readTextFileSync(`${directory}/main.scrap`), "fn main() {\n  std::log(1)\n\n  std::log(2)\n}")
+  assert.equal((await runCommand(["fmt", "--check", directory])).code, 0)
+})
\ No newline at end of file
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+Deno.test("if/elif/else runs only the selected branch", async () => {
+  const { stdout } = await runSource(`
+fn classify(n: i32) {
+  if (n < 0) {
+    std::log("negative")
+  } elif (n == 0) {
+    std::log("zero")
+  } elif (n < 10) {
+    std::log("small")
+  } else {
+    std::log("big")
+  }
+}
+
+fn main() {
+  classify(-5)
+  classify(0)
+  classify(3)
+  classify(50)
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["negative", "zero", "small", "big"])
+})
+
+Deno.test("if conditions use the truthiness rules", async () => {
+  const conditions = ["0", "\"\"", "null", "1", "\"text\"", "[]"]
+  const checks = conditions.map(condition => `  if (${condition}) {\n    std::log("truthy")\n  } else {\n    std::log("falsy")\n  }`)
+  const { stdout, stderr } = await runSource(`fn main() {\n${checks.join("\n")}\n}`)
+
+  assert.deepEqual(stdout.split("\n"), ["falsy", "falsy", "falsy", "truthy", "truthy", "truthy"], stderr)
+})
+
+Deno.test("variables declared in a branch are only visible inside it", async () => {
+  const { code, stderr } = await runSource(`
+fn main() {
+  if (true) {
+    var inner = 1
+  }
+
+  std::log(inner)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'inner' is not defined/)
+})
+
+Deno.test("postfix if only runs the statement when the condition is true", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var count = 0
+  count = count + 1 if count == 0
+  count = count + 10 if count == 0
+  std::log(count)
+}`)
+
+  assert.equal(stdout, "1")
+})
+
+Deno.test("null predicates check absent values", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var font = null
+  const name = "font"
+  std::log(font is null, font not null, font is not null, name not null, name is null)
+}`)
+
+  assert.equal(stdout, "true false false true false")
+})
\ No newline at end of file
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+const COLOR_ENUM = `
+enum Color {
+  Red,
+  Green,
+  Custom(r: u8, g: u8, b: u8)
+}`
+
+Deno.test("match binds the associated values of enum variants", async () => {
+  const { code, stdout, stderr } = await runSource(`${COLOR_ENUM}
+
+fn describe(color: Color): String {
+  return match color {
+    Color::Red -> "red"
+    Color::Green -> "green"
+    Color::Custom(r, _, b) -> "custom " + r + " " + b
+  }
+}
+
+fn main() {
+  std::log(describe(Color::Green))
+  std::log(describe(Color::Custom(255, 0, 128)))
+  std::log(Color::Custom(1, 2, 3), Color::Red == Color::Red, Color::Custom(1, 2, 3) == Color::Custom(1, 2, 4))
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), ["green", "custom 255 128", "Color::Custom(1, 2, 3) true false"])
+})
+
+Deno.test("match arms can be literals, inclusive and exclusive ranges and a wildcard", async () => {
+  const { stdout } = await runSource(`
+fn classify(num: i32): String {
+  return match num {
+    0 -> "zero",
+    -1 -> "minus one",
+    1..9 -> "digit",
+    10...100 -> "tens",
+    _ -> "big"
+  }
+}
+
+fn main() {
+  for num in [0, -1, 5, 9, 100, 101] {
+    std::log(classify(num))
+  }
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["zero", "minus one", "digit", "digit", "big", "big"])
+})
+
+Deno.test("a match over an enum must handle every variant", async () => {
+  const { code, stderr } = await runSource(`${COLOR_ENUM}
+
+fn main() {
+  std::log(match Color::Red {
+    Color::Red -> "red"
+  })
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Non-exhaustive 'match' over the enum 'Color', missing variants: 'Color::Green', 'Color::Custom'/)
+})
+
+Deno.test("a value which is not matched by any arm is a runtime error", async () => {
+  const { code, stderr } = await runSource(`
+fn main() {
+  std::log(match 5 {
+    0 -> "zero"
+  })
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /The value '5' is not matched by any arm of the 'match'/)
+})
+
+Deno.test("the variants must be created with their associated values", async () => {
+  const { code, stderr } = await runSource(`${COLOR_ENUM}
+
+fn main() {
+  std::log(Color::Custom(1, 2))
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'Color::Custom' expects 3 associated values, but 2 were received/)
+})
+
+Deno.test("switch cases do not fall through and default handles the rest", async () => {
+  const { stdout } = await runSource(`${COLOR_ENUM}
+
+fn main() {
+  switch Color::Red {
+    case Color::Red:
+      std::log("stop")
+      break
+      std::log("never printed")
+    case Color::Green:
+      std::log("go")
+    default:
+      std::log("wait")
+  }
+
+  switch "c" {
+    case "a": std::log("is a")
+    default: std::log("not a")
+  }
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["stop", "not a"])
+})
+
+Deno.test("a switch over an enum without default must handle every variant", async () => {
+  const { code, stderr } = await runSource(`${COLOR_ENUM}
+
+fn main() {
+  switch Color::Red {
+    case Color::Red: std::log("stop")
+  }
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Non-exhaustive 'switch'.*add a 'default' case/)
+})
\ No newline at end of file
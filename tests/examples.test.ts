@@ -0,0 +1,91 @@
+import assert from "node:assert/strict"
+import { runCommand } from "./utils.ts"
+
+/**
+ * Examples which must run without errors, so the documented syntax keeps working, and what they print
+ *
+ * `casting.scrap` is not listed, since casts using `as` are not implemented yet
+ */
+const RUNNABLE_EXAMPLES: Record<string, string> = {
+  "break.scrap": "10",
+  "class.scrap": ["30", "Hello Enrique!, my name is Juan"].join("\n"),
+  "exceptions.scrap": [
+    "valid age 20",
+    "error age can not be negative",
+    "invalid field age age is too big",
+    "runtime error: A value of type 'ScrapString' can not be called, it is not a function",
+    "divide finished",
+    "5",
+    "inner finally",
+    "    at validateAge (12:221)",
+    "    at main (53:941)"
+  ].join("\n"),
+  "for-in.scrap": ["1", "2", "3", "4", "5", "26"].join("\n"),
+  "import-all.scrap": "20",
+  "inheritance.scrap": [
+    "Generic says ...",
+    "Rex barks",
+    "an animal called Rex of breed Beagle",
+    "Toby barks softly",
+    "an animal called Toby of breed Poodle",
+    "true false"
+  ].join("\n"),
+  "inline-if.scrap": "",
+  "interfaces.scrap": "[1, 2, 3, 4, 5]",
+  "lambda.scrap": "Hello Pedro",
+  "legacy-for.scrap": "5",
+  "literal-regexp.scrap": [
+    "true",
+    "[2024-03-15, 2024, 03, 15]",
+    "[e, u, a, E, e, i, o]",
+    "R_g_l_r _xpr_ss__ns",
+    "[a, b, c]",
+    "[[1], [22], [23]]",
+    "5 (?<year>\\d{4})-(?<month>\\d{2})-(?<day>\\d{2}) gi"
+  ].join("\n"),
+  "match.scrap": [
+    "red",
+    "custom with red 255 and blue 128",
+    "Color::Custom(1, 2, 3) true false",
+    "0 zero",
+    "-1 minus one",
+    "5 digit",
+    "10 tens",
+    "100 big",
+    "1000 big",
+    "go",
+    "is b"
+  ].join("\n"),
+  "modules.scrap": ["20", "20", "30"].join("\n"),
+  "object.scrap": "",
+  "ranges.scrap": ["0", "1", "2", "3", "4", "5"].join("\n"),
+  "regexp.scrap": ["true", "false", "[de La Mancha]"].join("\n"),
+  "renamed-import.scrap": "40 true",
+  "shapes.scrap": ["rectangle with area 6", "square with area 64"].join("\n"),
+  "skip.scrap": ["E", "s", "t", "o", " ", "e", "s", " ", "n", " ", "t", "e", "x", "t", "o"].join("\n"),
+  "std.scrap": ""
+}
+
+/**
+ * Examples without entry point, which only declare entities, so they are checked instead of run
+ */
+const CHECKED_EXAMPLES = [
+  "instanceof.scrap",
+  "iterable.scrap"
+]
+
+for (const [example, expectedOutput] of Object.entries(RUNNABLE_EXAMPLES)) {
+  Deno.test(`examples/${example} runs`, async () => {
+    const { code, stdout, stderr } = await runCommand(["run", "-A", new URL(`../examples/${example}`, import.meta.url).pathname])
+
+    assert.equal(code, 0, stderr)
+    assert.equal(stdout, expectedOutput)
+  })
+}
+
+for (const example of CHECKED_EXAMPLES) {
+  Deno.test(`examples/${example} passes the checks`, async () => {
+    const { code, stderr } = await runCommand(["check", new URL(`../examples/${example}`, import.meta.url).pathname])
+    assert.equal(code, 0, stderr)
+  })
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+Deno.test("thrown errors are caught, optionally by their class, and finally always runs", async () => {
+  const { code, stdout, stderr } = await runSource(`
+class ValidationError extends Error {
+  public fn constructor(message: String) {
+    super(message)
+  }
+}
+
+fn validate(age: i32) {
+  try {
+    if age < 0
+      throw new RangeError("negative")
+
+    if age > 150
+      throw new ValidationError("too big")
+  } finally {
+    std::log("checked", age)
+  }
+}
+
+fn main() {
+  for age in [-1, 200] {
+    try {
+      validate(age)
+    } catch e {
+      if e instanceof ValidationError
+        std::log("validation:", e.message)
+      else
+        std::log("error:", e.message)
+    }
+  }
+
+  try {
+    validate(-2)
+  } catch (e: RangeError) {
+    std::log("range:", e.message)
+  }
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), ["checked -1", "error: negative", "checked 200", "validation: too big", "checked -2", "range: negative"])
+})
+
+Deno.test("errors raised by the interpreter are caught as RuntimeError", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  try {
+    const greeting = "hello"
+    greeting()
+  } catch (e: RuntimeError) {
+    std::log(e.message)
+  }
+}`)
+
+  assert.equal(stdout, "A value of type 'ScrapString' can not be called, it is not a function")
+})
+
+Deno.test("an uncaught error shows the ScrapLang stack trace", async () => {
+  const { code, stderr } = await runSource(`
+fn fail() {
+  throw new Error("broken")
+}
+
+fn main() {
+  fail()
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Uncaught Error: broken\n {4}at fail \(3:\d+\)\n {4}at main \(7:\d+\)/)
+})
+
+const DEEP_RECURSION = `
+fn down(n: i32): i32 {
+  return down(n + 1)
+}`
+
+Deno.test("a stack overflow is a RangeError which can be caught", async () => {
+  const { code, stdout, stderr } = await runSource(`${DEEP_RECURSION}
+
+fn main() {
+  try {
+    down(0)
+  } catch (e: RangeError) {
+    std::log(e.message)
+  }
+
+  std::log("still running")
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), ["Maximum call stack size exceeded", "still running"])
+})
+
+Deno.test("the stack trace of an uncaught stack overflow collapses the repeated calls", async () => {
+  const { code, stderr } = await runSource(`${DEEP_RECURSION}
+
+fn main() {
+  down(0)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Uncaught RangeError: Maximum call stack size exceeded/)
+  assert.match(stderr, /at down \(3:\d+\)\n {4}\.\.\. the previous line is repeated \d+ more times\n {4}at main \(7:\d+\)/)
+})
\ No newline at end of file
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+/**
+ * Runs a program which logs the values of the expressions, one per line
+ */
+async function logExpressions(...expressions: string[]): Promise<string[]> {
+  const logs = expressions.map(expression => `  std::log(${expression})`).join("\n")
+  const { code, stdout, stderr } = await runSource(`fn main() {\n  const a = 1\n  const b = 2\n${logs}\n}`)
+
+  assert.equal(code, 0, stderr)
+  return stdout.split("\n")
+}
+
+Deno.test("arithmetic operators follow their precedence", async () => {
+  assert.deepEqual(await logExpressions("1 + 2 * 3 - 4", "(1 + 2) * 3", "10 - 2 - 3", "7 / 2", "7 % 4 * 2", "-a + b"), ["3", "9", "5", "3", "6", "1"])
+})
+
+Deno.test("logical operators bind looser than comparisons", async () => {
+  assert.deepEqual(await logExpressions("a < b and b < 3", "a > b or a == 1", "true or false and false"), ["true", "true", "true"])
+})
+
+Deno.test("not binds looser than comparisons and tighter than and/or", async () => {
+  assert.deepEqual(
+    await logExpressions("not a == b", "not a == 1", "not a == b and false", "not a < b or true", "not 0"),
+    ["true", "false", "false", "true", "true"]
+  )
+})
+
+Deno.test("and/or short-circuit their right side", async () => {
+  const { stdout } = await runSource(`
+fn fail() {
+  std::log("called")
+  return true
+}
+
+fn main() {
+  std::log(false and fail(), true or fail())
+}`)
+
+  assert.equal(stdout, "false true")
+})
+
+Deno.test("comparisons work between numbers and between textual values", async () => {
+  assert.deepEqual(
+    await logExpressions("a < 1.5", "2.0 == b", "b >= 2", "a != b", "\"abc\" < \"abd\"", "'a' == \"a\"", "'b' > 'a'", "1 == \"1\""),
+    ["true", "true", "true", "true", "true", "true", "true", "false"]
+  )
+})
+
+Deno.test("ordering a number and a string is a runtime error", async () => {
+  const { code, stderr } = await runSource(`fn main() {\n  std::log(1 < "2")\n}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Operator '<' can not be applied/)
+})
\ No newline at end of file
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict"
+import { checkSource, runSource } from "./utils.ts"
+
+Deno.test("arguments are bound to the parameters of each call", async () => {
+  const { stdout } = await runSource(`
+fn describe(name: String, age: i32) {
+  std::log(name, age)
+}
+
+fn main() {
+  describe("Juan", 20)
+  describe("Ana", 31)
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["Juan 20", "Ana 31"])
+})
+
+Deno.test("recursive calls do not share their variables", async () => {
+  const { stdout } = await runSource(`
+fn factorial(n: i32): i32 {
+  const previous = n - 1
+  if (n <= 1) {
+    return 1
+  }
+
+  const result = n * factorial(previous)
+  std::log(n, previous)
+  return result
+}
+
+fn main() {
+  std::log(factorial(3))
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["2 1", "3 2", "6"])
+})
+
+Deno.test("calling a function with a wrong count of arguments is a runtime error", async () => {
+  const { code, stderr } = await runSource(`
+fn main() {
+  const functions = [fn (x: i32) -> x]
+  functions[0](1, 2)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /expects 1 arguments, but 2 were received/)
+})
+
+Deno.test("return stops the function from a nested block", async () => {
+  const { stdout } = await runSource(`
+fn find(limit: i32): i32 {
+  for i in 0..10 {
+    if (i == limit) {
+      return i * 10
+    }
+  }
+
+  return -1
+}
+
+fn main() {
+  std::log(find(3), find(20))
+}`)
+
+  assert.equal(stdout, "30 -1")
+})
+
+Deno.test("a bare return gives undefined", async () => {
+  const { stdout } = await runSource(`
+fn stop() {
+  std::log("before")
+  return
+  std::log("after")
+}
+
+fn main() {
+  std::log(stop())
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["before", "undefined"])
+})
+
+Deno.test("code placed after a return is reported as unreachable", async () => {
+  const { stderr } = await runSource(`
+fn stop() {
+  return
+  std::log("after")
+}
+
+fn main() {
+  stop()
+}`)
+
+  assert.match(stderr, /Unreachable code detected at 4:\d+, it is placed after a 'return' statement/)
+})
+
+Deno.test("lambdas capture the variables of their environment by reference", async () => {
+  const { stdout } = await runSource(`
+fn makeCounter() {
+  var count = 0
+
+  return fn () {
+    count = count + 1
+    return count
+  }
+}
+
+fn main() {
+  const counter = makeCounter()
+  const other = makeCounter()
+  counter()
+  std::log(counter(), other())
+}`)
+
+  assert.equal(stdout, "2 1")
+})
+
+Deno.test("lambdas are called through variables, array elements and arguments", async () => {
+  const { stdout } = await runSource(`
+fn apply(value: i32, transform: (i32) -> i32): i32 {
+  return transform(value)
+}
+
+fn main() {
+  const double = fn (x: i32) -> x * 2
+  const operations = [double, (x: i32) -> x + 1]
+
+  std::log(double(4), operations[1](4), apply(5, double), apply(5, (x: i32) -> { return x - 1 }))
+}`)
+
+  assert.equal(stdout, "8 5 10 4")
+})
+
+Deno.test("function types can name their parameters and be placed between parentheses", async () => {
+  const { code, stdout, stderr } = await runSource(`
+fn greet(name: string, greeter: ((name: string) -> void)) {
+  greeter(name)
+}
+
+fn main() {
+  greet("Pedro", (name: string) -> {
+    std::log("Hello " + name)
+  })
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "Hello Pedro")
+})
+
+Deno.test("a value which is not a function can not be passed as a function type", async () => {
+  const { code, stderr } = await checkSource(`
+fn apply(transform: (i32) -> i32) {}
+
+fn main() {
+  apply(10)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Type 'i32' is not assignable to 'Function'/)
+})
\ No newline at end of file
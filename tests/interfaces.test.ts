@@ -0,0 +1,105 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+const INTERFACES = `
+interface Named {
+  name: String
+}
+
+interface Shape {
+  fn area(): f64;
+  fn scale(factor: f64)
+}`
+
+Deno.test("a class can implement several interfaces", async () => {
+  const { code, stdout, stderr } = await runSource(`${INTERFACES}
+
+class Square implements Named, Shape {
+  public name: String = "square"
+  side: f64 = 2
+
+  public fn area(): f64 {
+    return this.side * this.side
+  }
+
+  public fn scale(factor: f64) {
+    this.side *= factor
+  }
+}
+
+fn main() {
+  const square = new Square()
+  square.scale(2)
+  std::log(square.name, square.area())
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "square 16")
+})
+
+Deno.test("every missing or mismatched member is listed", async () => {
+  const { code, stderr } = await runSource(`${INTERFACES}
+
+class Circle implements Shape {
+  radius: f64 = 1
+
+  public fn area(): i32 {
+    return 3
+  }
+}
+
+fn main() {}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /The class 'Circle' does not implement the interface 'Shape'/)
+  assert.match(stderr, /'fn area\(\): i32' does not match 'fn area\(\): f64'/)
+  assert.match(stderr, /missing method 'fn scale\(factor: f64\)'/)
+})
+
+Deno.test("members implementing an interface must be public", async () => {
+  const { code, stderr } = await runSource(`${INTERFACES}
+
+class Person implements Named {
+  name: String = "Juan"
+}
+
+fn main() {}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'name' must be public/)
+})
+
+Deno.test("only interfaces can be implemented", async () => {
+  const { code, stderr } = await runSource(`
+class Animal {}
+class Dog implements Animal {}
+
+fn main() {}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /'Animal' is not an interface/)
+})
+
+Deno.test("Iterable from scrap:iter can be implemented using accessor sections and methods without fn", async () => {
+  const { code, stdout, stderr } = await runSource(`
+import { type Iterable } from "scrap:iter"
+
+class Team implements Iterable {
+  private:
+    members: Array = ["Ana", "Luis"]
+
+  public:
+    override iter() {
+      return this.members
+    }
+}
+
+fn main() {
+  for member in new Team().iter() {
+    std::log(member)
+  }
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), ["Ana", "Luis"])
+})
\ No newline at end of file
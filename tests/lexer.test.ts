@@ -0,0 +1,60 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+import Lexer from "@lexer/lexer.ts"
+
+function lex(source: string) {
+  return new Lexer(source, "test.scrap").tokens()
+}
+
+function lexContents(source: string): string[] {
+  return lex(source).map(token => token.content)
+}
+
+Deno.test("line comments are skipped until the end of the line", () => {
+  assert.deepEqual(lexContents("const a = 1 // the first number\nconst b = 2"), ["const", "a", "=", "1", "const", "b", "=", "2"])
+})
+
+Deno.test("block comments can be nested and span several lines", () => {
+  assert.deepEqual(lexContents("const a /* one /* two\n */ still a comment */ = 1"), ["const", "a", "=", "1"])
+})
+
+Deno.test("a slash which does not start a comment is a division", () => {
+  const tokens = lex("const half = 1 / 2")
+
+  assert.deepEqual(tokens.map(token => token.content), ["const", "half", "=", "1", "/", "2"])
+  assert.equal(tokens[4].type, "Operator")
+})
+
+Deno.test("doc comments are attached to the token of the next declaration", () => {
+  const tokens = lex("/**\n * Adds two numbers\n */\nfn add() {}\n\n// not a doc comment\nfn other() {}")
+  const [addTok, otherTok] = tokens.filter(token => token.content === "fn")
+
+  assert.match(addTok.docComment ?? "", /Adds two numbers/)
+  assert.equal(otherTok.docComment, undefined)
+})
+
+Deno.test("tokens placed after a comment keep their line", () => {
+  const constTok = lex("/* first\n   second */\n// third\nconst a = 1")[0]
+
+  assert.equal(constTok.content, "const")
+  assert.equal(constTok.line, 4)
+})
+
+Deno.test("an unterminated block comment is a lexing error", () => {
+  assert.throws(() => lex("fn main() {}\n/* open /* nested */"), /Unterminated block comment, it was opened at line 2/)
+})
+
+Deno.test("programs with comments run", async () => {
+  const { code, stdout, stderr } = await runSource(`
+/**
+ * Entry point
+ */
+fn main() {
+  // prints the half
+  std::log(10 / 2) /* the result is 5 */
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "5")
+})
\ No newline at end of file
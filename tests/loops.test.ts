@@ -0,0 +1,111 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+Deno.test("while repeats its body while the condition is true", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var i = 0
+  while (i < 3) {
+    std::log(i)
+    i = i + 1
+  }
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["0", "1", "2"])
+})
+
+Deno.test("do-while runs its body at least once", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var i = 10
+  do {
+    std::log(i)
+  } while (i < 3)
+}`)
+
+  assert.equal(stdout, "10")
+})
+
+Deno.test("break and skip only affect the innermost loop", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var i = 0
+  while (i < 3) {
+    i = i + 1
+    var j = 0
+
+    while (true) {
+      j = j + 1
+      skip if j == 1
+      break
+    }
+
+    skip if i == 2
+    std::log(i, j)
+  }
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["1 2", "3 2"])
+})
+
+Deno.test("break and skip are rejected outside a loop", async () => {
+  for (const jump of ["break", "skip"]) {
+    const { code, stderr } = await runSource(`fn main() {\n  ${jump}\n}`)
+
+    assert.equal(code, 1)
+    assert.match(stderr, new RegExp(`'${jump}'`))
+  }
+})
+
+Deno.test("for-in iterates inclusive and exclusive ranges with a step", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var values = ""
+  for i in 0..3 {
+    values = values + i
+  }
+  for i in 0...3 {
+    values = values + i
+  }
+  for i in 0..10 step 5 {
+    values = values + i
+  }
+  for i in 3..1 {
+    values = values + i
+  }
+  std::log(values)
+}`)
+
+  assert.equal(stdout, "01230120510321")
+})
+
+Deno.test("for-in iterates arrays, string chars and object keys", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  for item in [1, "two"] {
+    std::log(item)
+  }
+  for char in "ab" {
+    std::log(char)
+  }
+  for key in { name: "Juan", age: 20 } {
+    std::log(key)
+  }
+}`)
+
+  assert.deepEqual(stdout.split("\n"), ["1", "two", "a", "b", "name", "age"])
+})
+
+Deno.test("each iteration of a C-style for has its own loop variable", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  var readers = [null, null, null]
+  for (var i = 0; i < 3; i++) {
+    readers[i] = fn () -> i
+  }
+
+  std::log(readers[0](), readers[1](), readers[2]())
+}`)
+
+  assert.equal(stdout, "0 1 2")
+})
\ No newline at end of file
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+const OS_MODULE = {
+  "os.scrap": `
+export fn shutdown() {
+  std::log("shutting down")
+}
+
+fn restart() {}`
+}
+
+Deno.test("a module can be imported whole, renamed or by its entities", async () => {
+  const programs = [
+    "import os\n\nfn main() {\n  os.shutdown()\n}",
+    "import * as system from os\n\nfn main() {\n  system::shutdown()\n}",
+    "import { shutdown as stop } from \"./os\"\n\nfn main() {\n  stop()\n}"
+  ]
+
+  for (const program of programs) {
+    const { code, stdout, stderr } = await runSource(program, OS_MODULE)
+
+    assert.equal(code, 0, stderr)
+    assert.equal(stdout, "shutting down")
+  }
+})
+
+Deno.test("only the exported entities can be imported", async () => {
+  const { code, stderr } = await runSource("import { restart } from os\n\nfn main() {}", OS_MODULE)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Module entity 'restart' exists but is not exported by 'os'/)
+})
+
+Deno.test("native modules are imported using the scrap: prefix", async () => {
+  const { code, stdout, stderr } = await runSource(`
+import std
+import { escape } from "scrap:regex"
+
+fn main() {
+  std::log(escape("a.b"))
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "a\\.b")
+
+  const missing = await runSource("import { shutdown } from \"scrap:os\"\n\nfn main() {}")
+
+  assert.equal(missing.code, 1)
+  assert.match(missing.stderr, /There is not a native module called 'scrap:os'/)
+})
+
+Deno.test("cyclic imports are rejected", async () => {
+  const { code, stderr } = await runSource("import { a } from \"./a\"\n\nfn main() {}", {
+    "a.scrap": "import { b } from \"./b\"\n\nexport fn a() {}",
+    "b.scrap": "import { a } from \"./a\"\n\nexport fn b() {}"
+  })
+
+  assert.equal(code, 1)
+  assert.match(stderr, /[Cc]yclic import/)
+})
+
+Deno.test("modules declared using module only expose their exported entities", async () => {
+  const program = (access: string) => `
+module Example {
+  export const shown = 20
+  const hidden = 10
+}
+
+fn main() {
+  std::log(${access})
+}`
+
+  assert.equal((await runSource(program("Example::shown"))).stdout, "20")
+
+  const { code, stderr } = await runSource(program("Example::hidden"))
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Module entity 'hidden' exists but is not exported by 'Example'/)
+})
+
+Deno.test("the body of a module declared using module runs once", async () => {
+  const { code, stdout, stderr } = await runSource(`
+module M {
+  const x = std::log("init")
+
+  module Inner {
+    const y = std::log("inner")
+  }
+}
+
+fn main() {
+  std::log("main")
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "init\ninner\nmain")
+})
+
+Deno.test("identifiers can contain the letters of any language", async () => {
+  const { code, stdout, stderr } = await runSource(`
+import { Albañil as al } from "./oficios"
+
+fn main() {
+  const albañil = new al()
+  std::log(albañil.año, albañil instanceof al)
+}`, {
+    "oficios.scrap": "export class Albañil {\n  public año: u16 = 2024\n}"
+  })
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "2024 true")
+})
\ No newline at end of file
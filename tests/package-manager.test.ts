@@ -0,0 +1,142 @@
+import assert from "node:assert/strict"
+import { createFiles, runCommand } from "./utils.ts"
+
+import { add, install, remove } from "@package-manager/installer.ts"
+import { readLockfile } from "@package-manager/lockfile.ts"
+import { readManifest, validateManifest } from "@package-manager/manifest.ts"
+import { parseGitSpecifier } from "@package-manager/registry.ts"
+import { compareVersions, maxSatisfying, parseRange, parseVersion, satisfies } from "@package-manager/semver.ts"
+
+function version(text: string) {
+  const parsed = parseVersion(text)
+  assert.ok(parsed, `'${text}' must be a valid version`)
+
+  return parsed
+}
+
+function satisfiesRange(text: string, range: string): boolean {
+  const parsed = parseRange(range)
+  assert.ok(parsed, `'${range}' must be a valid range`)
+
+  return satisfies(version(text), parsed)
+}
+
+/**
+ * Creates a project whose registry contains the packages, e.g: `{ math: ["1.0.0", "1.2.0"] }`.
+ * Each package exports `version`, which returns its version
+ */
+function createProject(dependencies: Record<string, string>, registry: Record<string, string[]>): string {
+  const files: Record<string, string> = {
+    "app/scrap.json": JSON.stringify({ name: "app", version: "0.1.0", entry: "main.scrap", registry: "../registry", dependencies })
+  }
+
+  for (const [name, versions] of Object.entries(registry)) {
+    for (const packageVersion of versions) {
+      files[`registry/${name}/${packageVersion}/scrap.json`] = JSON.stringify({ name, version: packageVersion })
+      files[`registry/${name}/${packageVersion}/mod.scrap`] = `export fn version(): String {\n  return "${packageVersion}"\n}`
+    }
+  }
+
+  return `${createFiles(files)}/app`
+}
+
+Deno.test("versions are compared following semantic versioning", () => {
+  assert.ok(compareVersions(version("1.10.0"), version("1.9.9")) > 0)
+  assert.ok(compareVersions(version("1.0.0-beta.2"), version("1.0.0-beta.10")) < 0)
+  assert.ok(compareVersions(version("1.0.0-rc.1"), version("1.0.0")) < 0)
+  assert.equal(parseVersion("1.0"), null)
+})
+
+Deno.test("ranges support carets, tildes, comparators, hyphens and alternatives", () => {
+  assert.ok(satisfiesRange("1.9.0", "^1.2.0"))
+  assert.ok(!satisfiesRange("2.0.0", "^1.2.0"))
+  assert.ok(!satisfiesRange("0.3.0", "^0.2.1"))
+  assert.ok(satisfiesRange("1.2.9", "~1.2.0"))
+  assert.ok(!satisfiesRange("1.3.0", "~1.2.0"))
+  assert.ok(satisfiesRange("1.4.0", "1.0.0 - 1.4.0"))
+  assert.ok(satisfiesRange("2.5.0", ">=1.0.0 <1.5.0 || 2.x"))
+  assert.ok(!satisfiesRange("1.2.0-beta.1", "^1.0.0"))
+  assert.ok(satisfiesRange("1.2.0-beta.2", "^1.2.0-beta.1"))
+  assert.equal(parseRange("^one"), null)
+
+  const versions = ["1.0.0", "1.4.2", "2.0.0"].map(version)
+  assert.deepEqual(maxSatisfying(versions, parseRange("^1.0.0")!), version("1.4.2"))
+})
+
+Deno.test("install picks the greatest matching version and locks it", async () => {
+  const project = createProject({ math: "^1.0.0" }, { math: ["1.0.0", "1.2.0", "2.0.0"] })
+  Deno.writeTextFileSync(`${project}/main.scrap`, "import { version } from math\n\nfn main() {\n  std::log(version())\n}")
+
+  const lockfile = await install(project)
+
+  assert.equal(lockfile.packages.math.version, "1.2.0")
+  assert.equal(lockfile.packages.math.resolved, "registry:math@1.2.0")
+  assert.deepEqual(readLockfile(project), lockfile)
+
+  const { code, stdout, stderr } = await runCommand(["run", `${project}/main.scrap`])
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "1.2.0")
+})
+
+Deno.test("a locked package which changed in the registry is rejected", async () => {
+  const project = createProject({ math: "^1.0.0" }, { math: ["1.0.0"] })
+  await install(project)
+
+  Deno.writeTextFileSync(`${project}/../registry/math/1.0.0/mod.scrap`, "export fn version(): String {\n  return \"changed\"\n}")
+
+  await assert.rejects(install(project), { name: "PackageError", message: /Integrity check failed for 'math@1.0.0'/ })
+})
+
+Deno.test("add and remove update the manifest and the installed packages", async () => {
+  const project = createProject({}, { math: ["1.0.0", "1.1.0"], colors: ["2.0.0"] })
+
+  await add(project, ["math", "colors@~2.0.0"])
+
+  assert.deepEqual(readManifest(project).dependencies, { math: "^1.1.0", colors: "~2.0.0" })
+  assert.ok(Deno.statSync(`${project}/scrap_modules/colors`).isDirectory)
+
+  const lockfile = await remove(project, ["colors"])
+
+  assert.deepEqual(Object.keys(lockfile.packages), ["math"])
+  assert.throws(() => Deno.statSync(`${project}/scrap_modules/colors`))
+  await assert.rejects(remove(project, ["colors"]), { name: "PackageError", message: /'colors' is not a dependency of 'app'/ })
+})
+
+Deno.test("git dependencies are cloned from a repository and a ref", async () => {
+  const project = createProject({}, {})
+  const repository = `${project}/../shapes`
+  const git = (...args: string[]) => new Deno.Command("git", { args: ["-C", repository, ...args], stdout: "null", stderr: "null" }).outputSync()
+
+  Deno.mkdirSync(repository)
+  Deno.writeTextFileSync(`${repository}/scrap.json`, JSON.stringify({ name: "shapes", version: "1.0.0" }))
+  Deno.writeTextFileSync(`${repository}/mod.scrap`, "export fn version(): String {\n  return \"1.0.0\"\n}")
+  git("init", "--quiet")
+  git("add", "-A")
+  git("-c", "user.name=scrap", "-c", "user.email=scrap@example.com", "commit", "--quiet", "-m", "first version")
+  git("tag", "v1.0.0")
+
+  const lockfile = await add(project, ["git+../shapes#v1.0.0"])
+
+  assert.equal(lockfile.packages.shapes.version, "1.0.0")
+  assert.match(lockfile.packages.shapes.resolved, /^git\+\.\.\/shapes#[0-9a-f]{40}$/)
+})
+
+Deno.test("git repositories and refs can not be read as options of git", async () => {
+  assert.throws(() => parseGitSpecifier("git+../shapes#--upload-pack=touch"), { name: "PackageError", message: /can not start with '-'/ })
+
+  // read as an option, `-u` would be the upload pack and the clone directory would be taken as the repository
+  const project = createProject({}, {})
+  await assert.rejects(add(project, ["git+-uX:shapes"]), { name: "PackageError", message: /'-uX'/ })
+})
+
+Deno.test("the names of the dependencies can not be paths", async () => {
+  for (const name of ["../evil", "math/vectors", "..", "/tmp"])
+    assert.throws(() => validateManifest({ name: "app", version: "0.1.0", dependencies: { [name]: "^1.0.0" } }, "scrap.json"), {
+      name: "PackageError",
+      message: `The manifest 'scrap.json' has a dependency with an invalid name '${name}'`
+    })
+
+  const project = createProject({ "../math": "^1.0.0" }, { math: ["1.0.0"] })
+  await assert.rejects(install(project), { name: "PackageError", message: /invalid name '\.\.\/math'/ })
+})
\ No newline at end of file
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict"
+import { createFiles, runCommand } from "./utils.ts"
+
+import { parsePermissionFlags } from "@lang/api/permissions.ts"
+
+/**
+ * Runs a program using only the permissions received, without granting all of them like `runSource` does
+ */
+function runWithPermissions(source: string, permissions: string[]) {
+  const directory = createFiles({ "main.scrap": source })
+  return runCommand(["run", ...permissions, `${directory}/main.scrap`])
+}
+
+Deno.test("permission flags grant every target or a list of targets", () => {
+  const { permissions, rest } = parsePermissionFlags(["--allow-read=/data,/tmp", "--allow-net", "main.scrap", "--verbose"])
+
+  assert.deepEqual(rest, ["main.scrap", "--verbose"])
+  assert.ok(permissions.isGranted("read", "/data/users.json"))
+  assert.ok(permissions.isGranted("read", "/tmp"))
+  assert.ok(!permissions.isGranted("read", "/database"))
+  assert.ok(permissions.isGranted("net", "example.com:443"))
+  assert.ok(!permissions.isGranted("write", "/tmp"))
+  assert.ok(parsePermissionFlags(["-A"]).permissions.isGranted("run", "git"))
+})
+
+Deno.test("net targets are granted by host or by host and port", () => {
+  const { permissions } = parsePermissionFlags(["--allow-net=localhost,127.0.0.1:8080"])
+
+  assert.ok(permissions.isGranted("net", "localhost:3000"))
+  assert.ok(permissions.isGranted("net", "127.0.0.1:8080"))
+  assert.ok(!permissions.isGranted("net", "127.0.0.1:8081"))
+  assert.ok(!permissions.isGranted("net", "0.0.0.0:8080"))
+})
+
+Deno.test("files are only read inside the granted paths", async () => {
+  const source = `
+import { readFile } from "scrap:fs"
+
+fn main(args: Array) {
+  std::log(readFile(args[0]))
+}`
+
+  const directory = createFiles({ "main.scrap": source, "data/users.txt": "Juan" })
+  const reading = (file: string) => runCommand(["run", `--allow-read=${directory}/data`, `${directory}/main.scrap`, `${directory}/${file}`])
+
+  assert.equal((await reading("data/users.txt")).stdout, "Juan")
+
+  const denied = await reading("main.scrap")
+
+  assert.equal(denied.code, 1)
+  assert.match(denied.stderr, /Uncaught PermissionDenied: Requires read access to '.*main\.scrap', run again with the --allow-read flag/)
+})
+
+Deno.test("a symbolic link inside a granted path can not reach the files outside it", async () => {
+  const directory = createFiles({
+    "main.scrap": "import { readFile } from \"scrap:fs\"\n\nfn main(args: Array) {\n  std::log(readFile(args[0]))\n}",
+    "data/users.txt": "Juan",
+    "secret.txt": "password"
+  })
+
+  Deno.symlinkSync(`${directory}/secret.txt`, `${directory}/data/secret.txt`)
+  Deno.symlinkSync(`${directory}/data/users.txt`, `${directory}/data/alias.txt`)
+
+  const reading = (file: string) => runCommand(["run", `--allow-read=${directory}/data`, `${directory}/main.scrap`, `${directory}/${file}`])
+
+  assert.equal((await reading("data/alias.txt")).stdout, "Juan")
+
+  const denied = await reading("data/secret.txt")
+
+  assert.equal(denied.code, 1)
+  assert.match(denied.stderr, /Uncaught PermissionDenied: Requires read access to '.*secret\.txt'/)
+})
+
+Deno.test("a denied capability can be caught as PermissionDenied", async () => {
+  const { code, stdout, stderr } = await runWithPermissions(`
+import { get } from "scrap:env"
+import { run } from "scrap:process"
+import { stdin } from "scrap:stream"
+
+fn main() {
+  try {
+    get("HOME")
+  } catch (e: PermissionDenied) {
+    std::log(e.message)
+  }
+
+  try {
+    run("git", "--version")
+  } catch (e: PermissionDenied) {
+    std::log(e.message)
+  }
+
+  try {
+    stdin.readLine()
+  } catch (e: PermissionDenied) {
+    std::log(e.message)
+  }
+}`, [])
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), [
+    "Requires env access to 'HOME', run again with the --allow-env flag",
+    "Requires run access to 'git', run again with the --allow-run flag",
+    "Requires read access, run again with the --allow-read flag"
+  ])
+})
+
+Deno.test("createServer checks the host and the port where the server listens", async () => {
+  const { code, stdout, stderr } = await runWithPermissions(`
+import { createServer } from "scrap:net"
+
+fn main() {
+  try {
+    createServer(8080, "hello", "127.0.0.1")
+  } catch (e: PermissionDenied) {
+    std::log(e.message)
+  }
+
+  try {
+    createServer(8080, "hello")
+  } catch (e: PermissionDenied) {
+    std::log(e.message)
+  }
+}`, ["--allow-net=localhost"])
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), [
+    "Requires net access to '127.0.0.1:8080', run again with the --allow-net flag",
+    "Requires net access to '0.0.0.0:8080', run again with the --allow-net flag"
+  ])
+})
+
+Deno.test("connect waits for the connection and a failed connection is a RuntimeError", async () => {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 })
+  const openPort = listener.addr.port
+  listener.close()
+
+  // nothing listens on the port once the listener is closed
+  const { stdout } = await runWithPermissions(`
+import { connect } from "scrap:net"
+
+fn main() {
+  try {
+    connect(${openPort}, "127.0.0.1")
+  } catch (e: RuntimeError) {
+    std::log(e.message)
+  }
+}`, ["--allow-net=127.0.0.1"])
+
+  assert.match(stdout, new RegExp(`^Can not connect to '127\\.0\\.0\\.1:${openPort}': `))
+})
+
+/**
+ * Source of a worker which answers the first message of each connection, adding `pong:` before it, and then closes the connection.
+ * The server runs in a worker because the interpreter blocks the thread of the tests while it waits for the answer
+ */
+const PONG_SERVER_SOURCE = `
+const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 })
+self.postMessage(listener.addr.port)
+
+for await (const connection of listener) {
+  const buffer = new Uint8Array(1024)
+  const readBytes = await connection.read(buffer)
+  await connection.write(new TextEncoder().encode("pong:" + new TextDecoder().decode(buffer.subarray(0, readBytes))))
+  connection.close()
+}`
+
+Deno.test("a connection writes and reads text until it is closed", async () => {
+  const workerUrl = URL.createObjectURL(new Blob([PONG_SERVER_SOURCE], { type: "application/javascript" }))
+  const server = new Worker(workerUrl, { type: "module" })
+
+  try {
+    const port = await new Promise<number>(resolve => server.onmessage = ({ data }) => resolve(data))
+    const { code, stdout, stderr } = await runWithPermissions(`
+import { connect } from "scrap:net"
+
+fn main() {
+  const connection = connect(${port}, "127.0.0.1")
+  connection.write("ping")
+  std::log(connection.read())
+  std::log(connection.read())
+  connection.close()
+
+  try {
+    connection.read()
+  } catch (e: RuntimeError) {
+    std::log(e.message)
+  }
+}`, ["--allow-net=127.0.0.1"])
+
+    assert.equal(code, 0, stderr)
+    assert.deepEqual(stdout.split("\n"), ["pong:ping", "null", `Can not read from '127.0.0.1:${port}': the connection is closed`])
+  } finally {
+    server.terminate()
+    URL.revokeObjectURL(workerUrl)
+  }
+})
\ No newline at end of file
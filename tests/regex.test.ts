@@ -0,0 +1,76 @@
+import assert from "node:assert/strict"
+import { parseRegex } from "@parser/regex-parser.ts"
+import { runSource } from "./utils.ts"
+
+Deno.test("a '/' placed where a value is expected starts a regular expression, otherwise it is a division", async () => {
+  const { code, stdout, stderr } = await runSource(`fn main() {
+  const half = 10 / 2 / 1
+  const digits = /\\d+/
+  std::log(half, digits.test("a1"), digits.source)
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "5 true \\d+")
+})
+
+Deno.test("RegExp methods test, match, replace, split and matchAll", async () => {
+  const { code, stdout, stderr } = await runSource(`fn main() {
+  const date = /(?<year>\\d{4})-(?<month>\\d{2})/
+  const vowels = /[aeiou]/gi
+
+  std::log(date.test("2024-03"), date.test("24-3"))
+  std::log(date.match("on 2024-03"))
+  std::log(vowels.match("Regular Expressions"))
+  std::log(vowels.replace("Regular Expressions", "_"))
+  std::log(/\\s*,\\s*/.split("a , b,c"))
+  std::log(/\\d+/.matchAll("1 + 22"))
+  std::log(vowels.flags)
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), [
+    "true false",
+    "[2024-03, 2024, 03]",
+    "[e, u, a, E, e, i, o]",
+    "R_g_l_r _xpr_ss__ns",
+    "[a, b, c]",
+    "[[1], [22]]",
+    "gi"
+  ])
+})
+
+Deno.test("scrap:regex compiles patterns known at runtime", async () => {
+  const { code, stdout, stderr } = await runSource(`import { compile, escape } from "scrap:regex"
+
+fn main() {
+  const word = compile(\`^\${escape("a.b*")}$\`, "i")
+  std::log(escape("a.b*"), word.test("A.B*"), word.test("aXbb"))
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "a\\.b\\* true false")
+})
+
+Deno.test("a wrong regular expression literal is reported while parsing", async () => {
+  const { code, stderr } = await runSource(`fn main() {\n  const r = /a(b/\n}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /at line 2, character position \d+:\nInvalid regular expression \/a\(b\/: Unterminated group, missing the closing '\)'/)
+})
+
+Deno.test("the pattern errors point to the wrong char", () => {
+  assert.throws(() => parseRegex("ab+*", ""), { name: "RegexSyntaxError", offset: 3, message: /Nothing to repeat/ })
+  assert.throws(() => parseRegex("a[b", ""), { name: "RegexSyntaxError", offset: 1, message: /Unterminated character class/ })
+  assert.throws(() => parseRegex("a", "gg"), { name: "RegexSyntaxError", offset: 3, message: "Duplicate flag 'g'" })
+})
+
+Deno.test("a wrong pattern compiled at runtime is a runtime error", async () => {
+  const { code, stderr } = await runSource(`import { compile } from "scrap:regex"
+
+fn main() {
+  const r = compile("a(b", "")
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /Uncaught RuntimeError: Invalid regular expression \/a\(b\/: Unterminated group/)
+})
\ No newline at end of file
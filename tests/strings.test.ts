@@ -0,0 +1,112 @@
+import assert from "node:assert/strict"
+import { runSource } from "./utils.ts"
+
+import Lexer from "@lexer/lexer.ts"
+
+Deno.test("template strings convert each embedded expression to a string", async () => {
+  const { code, stdout, stderr } = await runSource(`
+class User {
+  public name: String = "Ana"
+}
+
+fn main() {
+  const user = new User()
+  const age = 30
+
+  std::log(\`Hello \${user.name}, you are \${age + 1}\`)
+  std::log(\`\${[1, 2]} \${true} \${null} \${1.5}\`)
+  std::log(\`no expressions\`)
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), ["Hello Ana, you are 31", "[1, 2] true null 1.5", "no expressions"])
+})
+
+Deno.test("template strings can be nested and contain braces", async () => {
+  const { stdout } = await runSource(`
+fn main() {
+  const name = "Ana"
+  std::log(\`outer \${\`inner \${name}\`} { not an expression }\`)
+}`)
+
+  assert.equal(stdout, "outer inner Ana { not an expression }")
+})
+
+Deno.test("template strings are lexed into chunks and the tokens of the expressions", () => {
+  const tokens = new Lexer("`a ${x + 1} b ${y} c`", "test.scrap").tokens()
+
+  assert.deepEqual(
+    tokens.map(token => [token.type, token.content]),
+    [
+      ["TemplateHead", "a "], ["IdentifierName", "x"], ["Operator", "+"], ["NumericLiteral", "1"],
+      ["TemplateMiddle", " b "], ["IdentifierName", "y"], ["TemplateTail", " c"]
+    ]
+  )
+})
+
+Deno.test("embedded expressions of multi-line templates keep their line", async () => {
+  const tokens = new Lexer("const text = `first\nsecond ${value}\nthird ${\n  other\n}`", "test.scrap").tokens()
+
+  assert.equal(tokens.find(token => token.content === "value")?.line, 2)
+  assert.equal(tokens.find(token => token.content === "other")?.line, 4)
+
+  const { code, stderr } = await runSource("fn main() {\n  std::log(`first\nsecond ${missing}`)\n}")
+
+  assert.equal(code, 1)
+  assert.match(stderr, /ReferenceError at: 3:\d+\n'missing' is not defined/)
+})
+
+Deno.test("an unterminated template string is a lexing error", () => {
+  assert.throws(() => new Lexer("const a = `open ${1}", "test.scrap").tokens(), /Unterminated template string/)
+})
+
+Deno.test("strings and chars support escape sequences", async () => {
+  const { code, stdout, stderr } = await runSource(String.raw`
+fn main() {
+  std::log("tab\tend", "quote \" and \\", '\'' == "'", "\x41\u00F1\u{1F600}")
+  std::log("line\nbreak", "\$ and \0" == "$ and " + '\0')
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.deepEqual(stdout.split("\n"), ["tab\tend quote \" and \\ true Añ😀", "line", "break true"])
+})
+
+Deno.test("escaped backticks and dollars do not open template expressions", async () => {
+  const { stdout } = await runSource("fn main() {\n  std::log(`a \\` b \\${not} ${1 + 1}`)\n}")
+
+  assert.equal(stdout, "a ` b ${not} 2")
+})
+
+Deno.test("a char holds a single code point", async () => {
+  const { code, stdout, stderr } = await runSource(String.raw`
+fn main() {
+  const face: char = '😀'
+  std::log(face, '\u{1F600}' == face, 'ñ')
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "😀 true ñ")
+
+  const overflow = await runSource("fn main() {\n  std::log('ab')\n}")
+
+  assert.equal(overflow.code, 1)
+  assert.match(overflow.stderr, /only a character allowed/)
+})
+
+Deno.test("invalid escape sequences are lexing errors placed at the escape", () => {
+  const lexingError = (source: string) => {
+    try {
+      new Lexer(source, "test.scrap").tokens()
+    } catch (error) {
+      return (error as Error).message
+    }
+
+    assert.fail(`'${source}' must not be lexed`)
+  }
+
+  assert.match(lexingError(String.raw`const a = "ok\q"`), /line: 1, cursor position: 14\s+Invalid escape sequence '\\q'/)
+  assert.match(lexingError(String.raw`const a = "\xZZ"`), /'ZZ' is not an hexadecimal number/)
+  assert.match(lexingError(String.raw`const a = "\u{110000}"`), /greater than the greatest Unicode code point/)
+  assert.match(lexingError(String.raw`const a = "\u{}"`), /must contain from 1 to 6 hexadecimal digits/)
+  assert.match(lexingError(String.raw`const a = "\u12"`), /'\\u' must be followed by 4 hexadecimal digits/)
+})
\ No newline at end of file
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict"
+import { checkSource, runSource } from "./utils.ts"
+
+/**
+ * Checks a program whose main function contains `body`
+ * @returns The errors reported by the type checker, one per line. Only the line of their position is kept, e.g: `at line 2`
+ */
+async function checkMain(body: string): Promise<string[]> {
+  const { stderr } = await checkSource(`fn main() {\n${body}\n}`)
+  return stderr === "" ? [] : stderr.replace(/^error: /, "").replace(/ at (\d+):\d+/g, " at line $1").split("\n")
+}
+
+Deno.test("an integer type can store the integer types whose values it holds", async () => {
+  const errors = await checkMain(`  var small: u8 = 1
+  var signed: i8 = 1
+  var wide: i64 = small
+  var unsigned: u16 = small
+  var half: i16 = small
+  var float: f32 = signed
+
+  signed = small
+  unsigned = signed
+  small = wide`)
+
+  assert.deepEqual(errors, [
+    "Type 'u8' is not assignable to 'i8', the data type of 'signed' at line 9",
+    "Type 'i8' is not assignable to 'u16', the data type of 'unsigned' at line 10",
+    "Type 'i64' is not assignable to 'u8', the data type of 'small' at line 11"
+  ])
+})
+
+Deno.test("an integer literal can be stored in any integer type whose range contains it", async () => {
+  const errors = await checkMain(`  const byte: u8 = 255
+  const lowest: i8 = -128
+  const big: u64 = 300
+  const negative: u8 = -1
+  const over: i8 = 128`)
+
+  assert.deepEqual(errors, [
+    "-1 is out of the range of 'u8' (0 to 255), the data type of 'negative' at line 5",
+    "128 is out of the range of 'i8' (-128 to 127), the data type of 'over' at line 6"
+  ])
+})
+
+Deno.test("an integer literal operated with a variable takes the data type of the variable", async () => {
+  assert.deepEqual(await checkMain(`  var small: u8 = 1\n  small = 1 + small\n  small += 2\n  small++`), [])
+})
+
+Deno.test("a variable declared without data type only stores values of its initial data type", async () => {
+  const errors = await checkMain(`  var count = 0
+  var name = "Ana"
+  var empty = null
+
+  count = 1
+  count = "str"
+  name = true
+  empty = 1`)
+
+  assert.deepEqual(errors, [
+    "Type 'String' is not assignable to 'i32', the data type of 'count' at line 7",
+    "Type 'boolean' is not assignable to 'String', the data type of 'name' at line 8"
+  ])
+})
+
+Deno.test("a variable declared without data type whose initial value is not primitive can store other values", async () => {
+  const { code, stdout, stderr } = await runSource(`fn test() {
+  return "return"
+}
+
+fn main() {
+  var action = test
+  var items = [1, 2]
+
+  action = 60
+  items = "none"
+  std::log(action, items)
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "60 none")
+})
+
+Deno.test("a char can be stored in a String", async () => {
+  const { code, stdout, stderr } = await runSource(`fn greet(name: String): String {
+  return name
+}
+
+fn main() {
+  var s = "a"
+  s = 'b'
+  const letter: String = 'c'
+  std::log(s, letter, greet('d'))
+}`)
+
+  assert.equal(code, 0, stderr)
+  assert.equal(stdout, "b c d")
+})
+
+Deno.test("a property used before its declaration is checked reports its errors once", async () => {
+  const { code, stderr } = await checkSource(`class Box {
+  public fn run() {
+    std::log(this.handler, this.size)
+  }
+
+  public var handler = fn(x: i32) -> x - "a"
+  public var size = match 1 {
+    1 -> -"one"
+    _ -> 2
+  }
+}
+
+fn main() {
+  const box = new Box()
+  box.run()
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /^error: Operator '-' can not be applied to 'i32' and 'String' at 6:\d+\nOperator '-' can not be applied to 'String'$/)
+})
+
+Deno.test("the errors of returned values are placed at the return", async () => {
+  const { code, stderr } = await checkSource(`fn half(x: i32): u8 {
+  return x / 2
+}
+
+fn main() {
+  half(4)
+}`)
+
+  assert.equal(code, 1)
+  assert.match(stderr, /^error: Type 'i32' is not assignable to 'u8', the data type of the returned value at 2:\d+$/)
+})
+
+Deno.test("the modules imported from other files are checked", async () => {
+  const { code, stderr } = await checkSource(`import { x } from "./dep"
+
+fn main() {
+  std::log(x)
+}`, { "dep.scrap": "export const x: u8 = 999" })
+
+  assert.equal(code, 1)
+  assert.match(stderr, /^error: 999 is out of the range of 'u8' \(0 to 255\), the data type of 'x' at 1:\d+, in the module 'dep'$/)
+})
+
+Deno.test("a module imported from several files is checked once", async () => {
+  const { code, stderr } = await checkSource(`import { x } from "./dep"
+import { y } from "./other"
+
+fn main() {
+  std::log(x, y)
+}`, {
+    "dep.scrap": "export fn wrong(): String {\n  return 1\n}\n\nexport const x = 1",
+    "other.scrap": "import { x } from \"./dep\"\n\nexport const y = x + 1"
+  })
+
+  assert.equal(code, 1)
+  assert.match(stderr, /^error: Type 'i32' is not assignable to 'String', the data type of the returned value at 2:\d+, in the module 'dep'$/)
+})
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { main } from "../src/cli.ts"
+
+import Lexer from "@lexer/lexer.ts"
+import Parser from "@parser/parser.ts"
+
+/**
+ * What a command printed while it was running
+ */
+export interface CommandOutput {
+  code: number
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Creates a temporary directory with the files, e.g: `{ "main.scrap": "fn main() {}" }`
+ * @returns The path of the directory
+ */
+export function createFiles(files: Record<string, string>): string {
+  const directory = Deno.makeTempDirSync({ prefix: "scrap-test-" })
+
+  for (const [fileName, content] of Object.entries(files)) {
+    const path = `${directory}/${fileName}`
+    Deno.mkdirSync(path.substring(0, path.lastIndexOf("/")), { recursive: true })
+    Deno.writeTextFileSync(path, content)
+  }
+
+  return directory
+}
+
+/**
+ * Runs a command of the command line, capturing what it prints instead of showing it
+ */
+export async function runCommand(args: string[]): Promise<CommandOutput> {
+  const { log, warn, error } = console
+  const stdout: string[] = [], stderr: string[] = []
+
+  // the `%s` placeholders of the first argument are replaced by the next arguments, like `console.log` does
+  const format = (first: unknown = "", ...rest: unknown[]) => {
+    const text = `${first}`.replace(/%s/g, () => `${rest.shift()}`)
+    return [text, ...rest.map(item => `${item}`)].join(" ")
+  }
+
+  console.log = (...data: unknown[]) => { stdout.push(format(...data)) }
+  console.warn = console.error = (...data: unknown[]) => { stderr.push(format(...data)) }
+
+  try {
+    const code = await main(args)
+    return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") }
+  } finally {
+    Object.assign(console, { log, warn, error })
+  }
+}
+
+/**
+ * Runs a program written in `source`, which is saved as `main.scrap` in a temporary directory
+ * @param files Other files placed next to `main.scrap`, e.g: modules which are imported by the program
+ */
+export function runSource(source: string, files: Record<string, string> = {}, args: string[] = []): Promise<CommandOutput> {
+  const directory = createFiles({ ...files, "main.scrap": source })
+  return runCommand(["run", "-A", `${directory}/main.scrap`, ...args])
+}
+
+/**
+ * Checks a program written in `source` without running it
+ */
+export function checkSource(source: string, files: Record<string, string> = {}): Promise<CommandOutput> {
+  const directory = createFiles({ ...files, "main.scrap": source })
+  return runCommand(["check", `${directory}/main.scrap`])
+}
+
+/**
+ * Parses a program written in `source`, throwing the parsing errors
+ */
+export function parseSource(source: string): Parser {
+  return new Parser(new Lexer(source, "test.scrap")).build()
+}
\ No newline at end of file